@@ -5,4 +5,9 @@
  */
 
 export * from './useTheme'
-export * from './useCanvas'
\ No newline at end of file
+export * from './useCanvas'
+export * from './useRecording'
+export * from './useMediaDevices'
+export * from './useActiveSpeaker'
+export * from './useAudioMixer'
+export * from './useCueScheduler'
\ No newline at end of file
@@ -0,0 +1,211 @@
+/**
+ * Active Speaker Composable for VueStream
+ *
+ * Vue 3 composable for speaker detection, speaking indicators and
+ * spotlight following
+ */
+
+import { ref, onUnmounted, type Ref } from 'vue'
+import { ActiveSpeakerDetector } from '../core/audio/ActiveSpeakerDetector'
+import { moveToSpotlight } from '../core/canvas/director'
+import type { CanvasManager } from '../core/canvas/CanvasManager'
+import type { CanvasEvent, VideoTextureSource, ZoneHighlight } from '../core/canvas/types'
+import type { ActiveSpeakerOptions, SourceAudioLevel } from '../core/audio/types'
+
+export interface UseActiveSpeakerOptions extends ActiveSpeakerOptions {
+  // Analyse every video texture of this canvas and decorate its zones
+  canvas?: CanvasManager
+  // Border drawn on zones whose video is speaking; false disables it
+  highlight?: ZoneHighlight | false
+  // Move the active speaker into the spotlight zone. Uses the auto
+  // director when it is enabled, otherwise swaps zones directly.
+  followSpeaker?: boolean
+  autoStart?: boolean
+}
+
+export interface UseActiveSpeakerReturn {
+  // State
+  activeSpeakerId: Ref<string | null>
+  levels: Ref<Record<string, number>>
+  speakingIds: Ref<string[]>
+  isRunning: Ref<boolean>
+
+  // Actions
+  start: () => void
+  stop: () => void
+  addSource: (source: Pick<VideoTextureSource, 'id' | 'stream'>) => boolean
+  removeSource: (id: string) => void
+  isSpeaking: (id: string) => boolean
+
+  // Events
+  onSpeakerEvent: (eventType: string, callback: (event: CanvasEvent) => void) => void
+
+  // Detector access
+  detector: ActiveSpeakerDetector
+}
+
+export const DEFAULT_SPEAKING_HIGHLIGHT: ZoneHighlight = { color: 0x22c55e, width: 6 }
+
+export function useActiveSpeaker(options: UseActiveSpeakerOptions = {}): UseActiveSpeakerReturn {
+  const {
+    canvas,
+    highlight = DEFAULT_SPEAKING_HIGHLIGHT,
+    followSpeaker = true,
+    autoStart = true,
+    ...detectorOptions
+  } = options
+  const detector = new ActiveSpeakerDetector(detectorOptions)
+
+  // Reactive state
+  const activeSpeakerId = ref<string | null>(null)
+  const levels = ref<Record<string, number>>({})
+  const speakingIds = ref<string[]>([])
+  const isRunning = ref(false)
+
+  /**
+   * Start analysing
+   */
+  const start = (): void => {
+    detector.start()
+    isRunning.value = true
+  }
+
+  /**
+   * Pause analysing
+   */
+  const stop = (): void => {
+    detector.stop()
+    isRunning.value = false
+  }
+
+  /**
+   * Analyse a source that isn't on the canvas, e.g. a remote audio-only peer
+   */
+  const addSource = (source: Pick<VideoTextureSource, 'id' | 'stream'>): boolean => {
+    return detector.addSource(source)
+  }
+
+  /**
+   * Stop analysing a source
+   */
+  const removeSource = (id: string): void => {
+    detector.removeSource(id)
+  }
+
+  const isSpeaking = (id: string): boolean => speakingIds.value.includes(id)
+
+  /**
+   * Register event listener
+   */
+  const onSpeakerEvent = (
+    eventType: string,
+    callback: (event: CanvasEvent) => void
+  ): void => {
+    detector.on(eventType, callback)
+  }
+
+  /**
+   * Border every zone whose video is speaking
+   */
+  const updateHighlights = (): void => {
+    if (!canvas || !highlight) return
+
+    canvas.getState().layoutZones.forEach((zone, zoneId) => {
+      const speaking = !!zone.videoTexture && isSpeaking(zone.videoTexture.id)
+      if (speaking !== !!zone.highlight) {
+        canvas.setZoneHighlight(zoneId, speaking ? highlight : null)
+      }
+    })
+  }
+
+  // Set up built-in event listeners
+  onSpeakerEvent('levels-updated', (event) => {
+    const data = event.data as { levels: SourceAudioLevel[] }
+    levels.value = Object.fromEntries(data.levels.map(({ id, level }) => [id, level]))
+  })
+
+  onSpeakerEvent('speaking-changed', () => {
+    speakingIds.value = detector.getLevels()
+      .filter(source => source.speaking)
+      .map(source => source.id)
+    updateHighlights()
+  })
+
+  onSpeakerEvent('active-speaker-changed', (event) => {
+    const data = event.data as { id: string | null }
+    activeSpeakerId.value = data.id
+
+    if (!canvas || !followSpeaker || !data.id) return
+    const director = canvas.getAutoDirector()
+    if (director) {
+      director.setActiveSpeaker(data.id)
+    } else {
+      moveToSpotlight(canvas, data.id)
+    }
+  })
+
+  onSpeakerEvent('source-removed', (event) => {
+    const { id } = event.data as { id: string }
+    const remaining = { ...levels.value }
+    delete remaining[id]
+    levels.value = remaining
+  })
+
+  // Follow the canvas's video textures
+  const handleTextureCreated = (event: CanvasEvent) => {
+    const { id } = event.data as { id: string }
+    const videoTexture = canvas?.getState().videoTextures.get(id)
+    if (videoTexture) {
+      detector.addSource(videoTexture.source)
+    }
+  }
+  const handleTextureDestroyed = (event: CanvasEvent) => {
+    detector.removeSource((event.data as { id: string }).id)
+  }
+
+  if (canvas) {
+    canvas.getState().videoTextures.forEach(({ source }) => detector.addSource(source))
+    canvas.on('texture-created', handleTextureCreated)
+    canvas.on('texture-destroyed', handleTextureDestroyed)
+    // Zones are recreated or reassigned; move the borders along
+    canvas.on('layout-changed', updateHighlights)
+  }
+
+  if (autoStart) {
+    start()
+  }
+
+  // Cleanup on unmount
+  onUnmounted(() => {
+    if (canvas) {
+      canvas.off('texture-created', handleTextureCreated)
+      canvas.off('texture-destroyed', handleTextureDestroyed)
+      canvas.off('layout-changed', updateHighlights)
+    }
+    detector.destroy()
+    isRunning.value = false
+    speakingIds.value = []
+    updateHighlights()
+  })
+
+  return {
+    // State
+    activeSpeakerId,
+    levels,
+    speakingIds,
+    isRunning,
+
+    // Actions
+    start,
+    stop,
+    addSource,
+    removeSource,
+    isSpeaking,
+
+    // Events
+    onSpeakerEvent,
+
+    // Detector access
+    detector
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * Audio Mixer Composable for VueStream
+ *
+ * Vue 3 composable for mixing source audio with reactive channel state
+ * and meters
+ */
+
+import { ref, onUnmounted, type Ref } from 'vue'
+import { AudioMixer } from '../core/audio/AudioMixer'
+import type { CanvasManager } from '../core/canvas/CanvasManager'
+import type { CanvasEvent } from '../core/canvas/types'
+import type {
+  AudioChannelOptions,
+  AudioChannelState,
+  AudioMeterReading,
+  AudioMixerOptions,
+  LimiterOptions
+} from '../core/audio/types'
+
+export interface UseAudioMixerOptions extends AudioMixerOptions {
+  // Add a channel for every video texture and video overlay of this
+  // canvas, keyed by its id
+  canvas?: CanvasManager
+  // Settings for channels added from the canvas
+  channelDefaults?: AudioChannelOptions
+  // Emit meter readings; off saves the analysis work when no meters are shown
+  metering?: boolean
+}
+
+export interface UseAudioMixerReturn {
+  // State
+  channels: Ref<AudioChannelState[]>
+  meters: Ref<Record<string, AudioMeterReading>>
+  masterMeter: Ref<AudioMeterReading>
+  master: Ref<{ gain: number; muted: boolean; monitoring: boolean }>
+
+  // Channels
+  addChannel: (id: string, stream: MediaStream, options?: AudioChannelOptions) => boolean
+  removeChannel: (id: string) => void
+  setGain: (id: string, gain: number) => void
+  setMuted: (id: string, muted: boolean) => void
+  toggleMute: (id: string) => void
+  setSolo: (id: string, solo: boolean) => void
+  toggleSolo: (id: string) => void
+  setPan: (id: string, pan: number) => void
+
+  // Master bus
+  setMasterGain: (gain: number) => void
+  setMasterMuted: (muted: boolean) => void
+  setMonitoring: (enabled: boolean) => void
+  setLimiter: (options: LimiterOptions) => void
+
+  // Output
+  outputTrack: MediaStreamTrack
+  outputStream: MediaStream
+
+  // Events
+  onMixerEvent: (eventType: string, callback: (event: CanvasEvent) => void) => void
+
+  // Mixer access
+  mixer: AudioMixer
+}
+
+export function useAudioMixer(options: UseAudioMixerOptions = {}): UseAudioMixerReturn {
+  const { canvas, channelDefaults = {}, metering = true, ...mixerOptions } = options
+  const mixer = new AudioMixer(mixerOptions)
+
+  // Reactive state
+  const channels = ref<AudioChannelState[]>([])
+  const meters = ref<Record<string, AudioMeterReading>>({})
+  const masterMeter = ref<AudioMeterReading>({ rms: 0, peak: 0, clipping: false })
+  const master = ref(mixer.getMaster())
+
+  const syncChannels = () => {
+    channels.value = mixer.getChannels()
+  }
+
+  /**
+   * Add a channel for a stream's audio
+   */
+  const addChannel = (
+    id: string,
+    stream: MediaStream,
+    channelOptions?: AudioChannelOptions
+  ): boolean => {
+    return mixer.addChannel(id, stream, channelOptions)
+  }
+
+  /**
+   * Remove a channel
+   */
+  const removeChannel = (id: string): void => {
+    mixer.removeChannel(id)
+  }
+
+  /**
+   * Set a channel's linear gain
+   */
+  const setGain = (id: string, gain: number): void => {
+    mixer.setGain(id, gain)
+  }
+
+  /**
+   * Mute or unmute a channel
+   */
+  const setMuted = (id: string, muted: boolean): void => {
+    mixer.setMuted(id, muted)
+  }
+
+  /**
+   * Flip a channel's mute state
+   */
+  const toggleMute = (id: string): void => {
+    const channel = mixer.getChannel(id)
+    if (channel) mixer.setMuted(id, !channel.muted)
+  }
+
+  /**
+   * Solo or unsolo a channel
+   */
+  const setSolo = (id: string, solo: boolean): void => {
+    mixer.setSolo(id, solo)
+  }
+
+  /**
+   * Flip a channel's solo state
+   */
+  const toggleSolo = (id: string): void => {
+    const channel = mixer.getChannel(id)
+    if (channel) mixer.setSolo(id, !channel.solo)
+  }
+
+  /**
+   * Pan a channel between -1 and 1
+   */
+  const setPan = (id: string, pan: number): void => {
+    mixer.setPan(id, pan)
+  }
+
+  /**
+   * Set the master bus gain
+   */
+  const setMasterGain = (gain: number): void => {
+    mixer.setMasterGain(gain)
+  }
+
+  /**
+   * Mute or unmute the master bus
+   */
+  const setMasterMuted = (muted: boolean): void => {
+    mixer.setMasterMuted(muted)
+  }
+
+  /**
+   * Play the mix through the local speakers
+   */
+  const setMonitoring = (enabled: boolean): void => {
+    mixer.setMonitoring(enabled)
+  }
+
+  /**
+   * Tune the master limiter
+   */
+  const setLimiter = (limiter: LimiterOptions): void => {
+    mixer.setLimiter(limiter)
+  }
+
+  /**
+   * Register event listener
+   */
+  const onMixerEvent = (
+    eventType: string,
+    callback: (event: CanvasEvent) => void
+  ): void => {
+    mixer.on(eventType, callback)
+  }
+
+  // Set up built-in event listeners
+  onMixerEvent('channel-added', syncChannels)
+  onMixerEvent('channel-updated', syncChannels)
+  onMixerEvent('channel-removed', syncChannels)
+
+  onMixerEvent('master-updated', () => {
+    master.value = mixer.getMaster()
+  })
+
+  onMixerEvent('meters-updated', (event) => {
+    const data = event.data as {
+      channels: Record<string, AudioMeterReading>
+      master: AudioMeterReading
+    }
+    meters.value = data.channels
+    masterMeter.value = data.master
+  })
+
+  // Follow the canvas's video textures and video overlays
+  const handleTextureCreated = (event: CanvasEvent) => {
+    const { id } = event.data as { id: string }
+    const videoTexture = canvas?.getState().videoTextures.get(id)
+    if (videoTexture) {
+      mixer.addChannel(id, videoTexture.source.stream, channelDefaults)
+    }
+  }
+  const handleTextureDestroyed = (event: CanvasEvent) => {
+    mixer.removeChannel((event.data as { id: string }).id)
+  }
+  const handleMediaCreated = (event: CanvasEvent) => {
+    const { id, element } = event.data as { id: string; element: HTMLVideoElement }
+    mixer.addMediaElementChannel(id, element, channelDefaults)
+  }
+
+  if (canvas) {
+    canvas.getState().videoTextures.forEach(({ id, source }) => {
+      mixer.addChannel(id, source.stream, channelDefaults)
+    })
+    canvas.on('texture-created', handleTextureCreated)
+    canvas.on('texture-destroyed', handleTextureDestroyed)
+    canvas.on('overlay-media-created', handleMediaCreated)
+    canvas.on('overlay-media-removed', handleTextureDestroyed)
+  }
+
+  if (metering) {
+    mixer.startMetering()
+  }
+
+  // Cleanup on unmount
+  onUnmounted(() => {
+    if (canvas) {
+      canvas.off('texture-created', handleTextureCreated)
+      canvas.off('texture-destroyed', handleTextureDestroyed)
+      canvas.off('overlay-media-created', handleMediaCreated)
+      canvas.off('overlay-media-removed', handleTextureDestroyed)
+    }
+    mixer.destroy()
+  })
+
+  return {
+    // State
+    channels,
+    meters,
+    masterMeter,
+    master,
+
+    // Channels
+    addChannel,
+    removeChannel,
+    setGain,
+    setMuted,
+    toggleMute,
+    setSolo,
+    toggleSolo,
+    setPan,
+
+    // Master bus
+    setMasterGain,
+    setMasterMuted,
+    setMonitoring,
+    setLimiter,
+
+    // Output
+    outputTrack: mixer.getOutputTrack(),
+    outputStream: mixer.getOutputStream(),
+
+    // Events
+    onMixerEvent,
+
+    // Mixer access
+    mixer
+  }
+}
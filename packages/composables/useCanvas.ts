@@ -12,14 +12,25 @@ import type {
   VideoTexture,
   LayoutZone,
   PerformanceMetrics,
-  CanvasEvent
+  CanvasEvent,
+  ZoneHighlight
 } from '../core/canvas/types'
-import type { LayoutPreset } from '../core/canvas/layouts'
+import { onLayoutsChanged, type LayoutPreset } from '../core/canvas/layouts'
 import type { AnyOverlayConfig } from '../core/canvas/overlays'
+import type { OverlayAnimation } from '../core/canvas/overlayAnimations'
+import type { SceneDocument } from '../core/canvas/scene'
+import type { LayoutTransitionOptions } from '../core/canvas/transitions'
+import type { ZoneFit } from '../core/canvas/fit'
+import type { CaptureStreamOptions } from '../core/canvas/output'
+import type { AutoDirectorOptions } from '../core/canvas/director'
+import type { ThemeTokens } from '../themes'
 
 export interface UseCanvasOptions extends Partial<CanvasConfig> {
   autoStart?: boolean
   container?: Ref<HTMLElement | null>
+  // Drive an existing manager, e.g. the program or preview canvas of a
+  // ProgramPreviewManager. Its owner is responsible for destroying it.
+  manager?: CanvasManager
 }
 
 export interface UseCanvasReturn {
@@ -31,6 +42,8 @@ export interface UseCanvasReturn {
   layoutZones: Ref<Map<string, LayoutZone>>
   currentLayout: Ref<LayoutPreset | null>
   availableLayouts: Ref<LayoutPreset[]>
+  isTransitioning: Ref<boolean>
+  autoDirectorEnabled: Ref<boolean>
   
   // Actions
   initialize: (container: HTMLElement) => Promise<void>
@@ -39,6 +52,7 @@ export interface UseCanvasReturn {
   
   // Video texture management
   createVideoTexture: (source: VideoTextureSource) => Promise<VideoTexture>
+  destroyVideoTexture: (id: string) => void
   addVideoToZone: (videoId: string, zoneId: string) => void
   removeVideoFromZone: (videoId: string) => void
   
@@ -49,15 +63,40 @@ export interface UseCanvasReturn {
     y: number,
     width: number,
     height: number,
-    layerName?: string
+    layerName?: string,
+    fit?: Partial<ZoneFit>
   ) => LayoutZone
   removeLayoutZone: (id: string) => void
-  applyLayout: (layoutId: string) => void
+  setZoneFit: (zoneId: string, fit: Partial<ZoneFit>) => void
+  setZoneHighlight: (zoneId: string, highlight: ZoneHighlight | null) => void
+  applyLayout: (layout: string | LayoutPreset, transition?: LayoutTransitionOptions) => void
+  getLayoutsForParticipantCount: (count: number) => LayoutPreset[]
+  
+  // Auto director
+  enableAutoDirector: (options?: AutoDirectorOptions) => void
+  disableAutoDirector: () => void
+  pinVideo: (videoId: string, zoneId?: string | null) => void
+  unpinVideo: (videoId: string) => void
+  setActiveSpeaker: (videoId: string | null) => void
   
   // Overlay management
   createOverlay: (config: AnyOverlayConfig) => Promise<void>
-  updateOverlay: (id: string, updates: Partial<AnyOverlayConfig>) => void
-  removeOverlay: (id: string) => void
+  updateOverlay: (id: string, updates: Partial<AnyOverlayConfig>) => Promise<void>
+  getOverlayConfig: (id: string) => AnyOverlayConfig | undefined
+  removeOverlay: (id: string, animate?: boolean) => Promise<void>
+  showOverlay: (id: string, animation?: OverlayAnimation) => Promise<void>
+  hideOverlay: (id: string, animation?: OverlayAnimation) => Promise<void>
+  playOverlay: (id: string) => Promise<void>
+  pauseOverlay: (id: string) => Promise<void>
+  setOverlayTheme: (tokens: ThemeTokens) => void
+  
+  // Output
+  captureStream: (options?: CaptureStreamOptions) => MediaStream
+  stopCapture: () => void
+  
+  // Scene persistence
+  exportScene: () => SceneDocument
+  importScene: (scene: unknown) => Promise<void>
   
   // Events
   onCanvasEvent: (eventType: string, callback: (event: CanvasEvent) => void) => void
@@ -70,11 +109,12 @@ export function useCanvas(options: UseCanvasOptions = {}): UseCanvasReturn {
   const {
     autoStart = false,
     container: containerRef,
+    manager: sharedManager,
     ...canvasConfig
   } = options
 
   // Create canvas manager instance
-  const manager = new CanvasManager(canvasConfig)
+  const manager = sharedManager ?? new CanvasManager(canvasConfig)
 
   // Reactive state
   const isInitialized = ref(false)
@@ -92,6 +132,8 @@ export function useCanvas(options: UseCanvasOptions = {}): UseCanvasReturn {
   const layoutZones = ref(new Map<string, LayoutZone>()) as Ref<Map<string, LayoutZone>>
   const currentLayout = ref<LayoutPreset | null>(null)
   const availableLayouts = ref(manager.getAvailableLayouts())
+  const isTransitioning = ref(false)
+  const autoDirectorEnabled = ref(manager.getAutoDirector() !== null)
 
   // Event listeners storage
   const eventListeners = new Map<string, ((event: CanvasEvent) => void)[]>()
@@ -147,6 +189,17 @@ export function useCanvas(options: UseCanvasOptions = {}): UseCanvasReturn {
     return texture
   }
 
+  /**
+   * Destroy video texture
+   */
+  const destroyVideoTexture = (id: string): void => {
+    manager.destroyVideoTexture(id)
+    
+    // Update reactive state
+    videoTextures.value = new Map(manager.getState().videoTextures)
+    layoutZones.value = new Map(manager.getState().layoutZones)
+  }
+
   /**
    * Add video to layout zone
    */
@@ -185,9 +238,10 @@ export function useCanvas(options: UseCanvasOptions = {}): UseCanvasReturn {
     y: number,
     width: number,
     height: number,
-    layerName = 'video'
+    layerName = 'video',
+    fit: Partial<ZoneFit> = {}
   ): LayoutZone => {
-    const zone = manager.createLayoutZone(id, x, y, width, height, layerName)
+    const zone = manager.createLayoutZone(id, x, y, width, height, layerName, fit)
     
     // Update reactive state
     layoutZones.value = new Map(manager.getState().layoutZones)
@@ -216,17 +270,83 @@ export function useCanvas(options: UseCanvasOptions = {}): UseCanvasReturn {
     }
   }
 
+  /**
+   * Set zone fit mode, focal point and corner radius
+   */
+  const setZoneFit = (zoneId: string, fit: Partial<ZoneFit>): void => {
+    manager.setZoneFit(zoneId, fit)
+  }
+
+  /**
+   * Draw or remove a border over a zone
+   */
+  const setZoneHighlight = (zoneId: string, highlight: ZoneHighlight | null): void => {
+    manager.setZoneHighlight(zoneId, highlight)
+  }
+
   /**
    * Apply layout preset
    */
-  const applyLayout = (layoutId: string): void => {
-    manager.applyLayout(layoutId)
+  const applyLayout = (
+    layout: string | LayoutPreset,
+    transition?: LayoutTransitionOptions
+  ): void => {
+    manager.applyLayout(layout, transition)
     
     // Update reactive state
     layoutZones.value = new Map(manager.getState().layoutZones)
     currentLayout.value = manager.getCurrentLayout()
   }
 
+  /**
+   * Get registered layouts that fit a participant count.
+   * Reactive when read inside a computed or template.
+   */
+  const getLayoutsForParticipantCount = (count: number): LayoutPreset[] => {
+    return availableLayouts.value.filter(layout => layout.maxParticipants >= count)
+  }
+
+  /**
+   * Fill zones automatically from the video textures
+   */
+  const enableAutoDirector = (directorOptions?: AutoDirectorOptions): void => {
+    manager.enableAutoDirector(directorOptions)
+    autoDirectorEnabled.value = true
+  }
+
+  /**
+   * Stop automatic zone assignment
+   */
+  const disableAutoDirector = (): void => {
+    manager.disableAutoDirector()
+    autoDirectorEnabled.value = false
+  }
+
+  /**
+   * Pin a video to a zone, or ahead of the others when no zone is given
+   */
+  const pinVideo = (videoId: string, zoneId: string | null = null): void => {
+    const director = manager.getAutoDirector()
+    if (!director) {
+      throw new Error('Auto director is not enabled')
+    }
+    director.pin(videoId, zoneId)
+  }
+
+  /**
+   * Return a pinned video to automatic placement
+   */
+  const unpinVideo = (videoId: string): void => {
+    manager.getAutoDirector()?.unpin(videoId)
+  }
+
+  /**
+   * Tell the auto director who is speaking
+   */
+  const setActiveSpeaker = (videoId: string | null): void => {
+    manager.getAutoDirector()?.setActiveSpeaker(videoId)
+  }
+
   /**
    * Create overlay
    */
@@ -235,17 +355,91 @@ export function useCanvas(options: UseCanvasOptions = {}): UseCanvasReturn {
   }
 
   /**
-   * Update overlay
+   * Update any overlay property; style changes merge into the current style
+   */
+  const updateOverlay = (id: string, updates: Partial<AnyOverlayConfig>): Promise<void> => {
+    return manager.updateOverlay(id, updates)
+  }
+
+  /**
+   * Get an overlay's effective config
    */
-  const updateOverlay = (id: string, updates: Partial<AnyOverlayConfig>): void => {
-    manager.updateOverlay(id, updates)
+  const getOverlayConfig = (id: string): AnyOverlayConfig | undefined => {
+    return manager.getOverlayConfig(id)
   }
 
   /**
-   * Remove overlay
+   * Remove overlay after its exit animation
    */
-  const removeOverlay = (id: string): void => {
-    manager.removeOverlay(id)
+  const removeOverlay = (id: string, animate?: boolean): Promise<void> => {
+    return manager.removeOverlay(id, animate)
+  }
+
+  /**
+   * Show overlay with its enter animation
+   */
+  const showOverlay = (id: string, animation?: OverlayAnimation): Promise<void> => {
+    return manager.showOverlay(id, animation)
+  }
+
+  /**
+   * Hide overlay with its exit animation
+   */
+  const hideOverlay = (id: string, animation?: OverlayAnimation): Promise<void> => {
+    return manager.hideOverlay(id, animation)
+  }
+
+  /**
+   * Play a paused video or animated image overlay
+   */
+  const playOverlay = (id: string): Promise<void> => {
+    return manager.playOverlay(id)
+  }
+
+  /**
+   * Pause a video or animated image overlay
+   */
+  const pauseOverlay = (id: string): Promise<void> => {
+    return manager.pauseOverlay(id)
+  }
+
+  /**
+   * Theme lower thirds from design tokens
+   */
+  const setOverlayTheme = (tokens: ThemeTokens): void => {
+    manager.setOverlayTheme(tokens)
+  }
+
+  /**
+   * Capture canvas output as a MediaStream
+   */
+  const captureStream = (options?: CaptureStreamOptions): MediaStream => {
+    return manager.captureStream(options)
+  }
+
+  /**
+   * Stop canvas capture
+   */
+  const stopCapture = (): void => {
+    manager.stopCapture()
+  }
+
+  /**
+   * Export current scene
+   */
+  const exportScene = (): SceneDocument => {
+    return manager.exportScene()
+  }
+
+  /**
+   * Import a saved scene
+   */
+  const importScene = async (scene: unknown): Promise<void> => {
+    await manager.importScene(scene)
+    
+    // Update reactive state
+    layoutZones.value = new Map(manager.getState().layoutZones)
+    currentLayout.value = manager.getCurrentLayout()
   }
 
   /**
@@ -283,6 +477,19 @@ export function useCanvas(options: UseCanvasOptions = {}): UseCanvasReturn {
     }
   })
 
+  // Keep available layouts in sync with the layout registry
+  const stopLayoutsSync = onLayoutsChanged(layouts => {
+    availableLayouts.value = layouts
+  })
+
+  onCanvasEvent('layout-transition-start', () => {
+    isTransitioning.value = true
+  })
+
+  onCanvasEvent('layout-transition-end', () => {
+    isTransitioning.value = false
+  })
+
   // Auto-initialize if container ref is provided
   if (autoStart && containerRef) {
     onMounted(() => {
@@ -294,9 +501,27 @@ export function useCanvas(options: UseCanvasOptions = {}): UseCanvasReturn {
     })
   }
 
+  // Pick up state from a shared manager that is already running
+  if (sharedManager?.getState().isInitialized) {
+    const state = sharedManager.getState()
+    isInitialized.value = true
+    canvasSize.value = { width: state.width, height: state.height }
+    videoTextures.value = new Map(state.videoTextures)
+    layoutZones.value = new Map(state.layoutZones)
+    currentLayout.value = sharedManager.getCurrentLayout()
+  }
+
   // Cleanup on unmount
   onUnmounted(() => {
-    destroy()
+    stopLayoutsSync()
+    if (sharedManager) {
+      eventListeners.forEach((listeners, eventType) => {
+        listeners.forEach(listener => sharedManager.off(eventType, listener))
+      })
+      eventListeners.clear()
+    } else {
+      destroy()
+    }
   })
 
   return {
@@ -308,6 +533,8 @@ export function useCanvas(options: UseCanvasOptions = {}): UseCanvasReturn {
     layoutZones,
     currentLayout,
     availableLayouts,
+    isTransitioning,
+    autoDirectorEnabled,
     
     // Actions
     initialize,
@@ -316,18 +543,43 @@ export function useCanvas(options: UseCanvasOptions = {}): UseCanvasReturn {
     
     // Video texture management
     createVideoTexture,
+    destroyVideoTexture,
     addVideoToZone,
     removeVideoFromZone,
     
     // Layout management
     createLayoutZone,
     removeLayoutZone,
+    setZoneFit,
+    setZoneHighlight,
     applyLayout,
+    getLayoutsForParticipantCount,
+    
+    // Auto director
+    enableAutoDirector,
+    disableAutoDirector,
+    pinVideo,
+    unpinVideo,
+    setActiveSpeaker,
     
     // Overlay management
     createOverlay,
     updateOverlay,
+    getOverlayConfig,
     removeOverlay,
+    showOverlay,
+    hideOverlay,
+    playOverlay,
+    pauseOverlay,
+    setOverlayTheme,
+    
+    // Output
+    captureStream,
+    stopCapture,
+    
+    // Scene persistence
+    exportScene,
+    importScene,
     
     // Events
     onCanvasEvent,
@@ -0,0 +1,168 @@
+/**
+ * Cue Scheduler Composable for VueStream
+ *
+ * Vue 3 composable for running a preprogrammed show of overlay and layout
+ * cues with reactive transport state
+ */
+
+import { ref, onUnmounted, type Ref } from 'vue'
+import { CueScheduler, type Cue, type CueSchedulerOptions } from '../core/canvas/CueScheduler'
+import type { CanvasManager } from '../core/canvas/CanvasManager'
+import type { CanvasEvent } from '../core/canvas/types'
+
+export interface UseCueSchedulerOptions extends CueSchedulerOptions {
+  canvas: CanvasManager
+  cues?: Cue[]
+  autoStart?: boolean
+}
+
+export interface UseCueSchedulerReturn {
+  // State
+  isRunning: Ref<boolean>
+  firedCueIds: Ref<string[]>
+  lastCueId: Ref<string | null>
+
+  // Actions
+  start: () => void
+  pause: () => void
+  stop: () => void
+  seek: (time: number) => void
+  skip: () => Cue | null
+  trigger: (id: string) => void
+  setCues: (cues: Cue[]) => void
+  getPosition: () => number
+
+  // Events
+  onCueEvent: (eventType: string, callback: (event: CanvasEvent) => void) => void
+
+  // Scheduler access
+  scheduler: CueScheduler
+}
+
+export function useCueScheduler(options: UseCueSchedulerOptions): UseCueSchedulerReturn {
+  const { canvas, cues = [], autoStart = false, ...schedulerOptions } = options
+  const scheduler = new CueScheduler(canvas, cues, schedulerOptions)
+
+  // Reactive state
+  const isRunning = ref(false)
+  const firedCueIds = ref<string[]>([])
+  const lastCueId = ref<string | null>(null)
+
+  const syncState = () => {
+    isRunning.value = scheduler.isRunning()
+    firedCueIds.value = scheduler.getCues()
+      .map(cue => cue.id)
+      .filter(id => scheduler.hasFired(id))
+  }
+
+  /**
+   * Start or resume the show
+   */
+  const start = (): void => {
+    scheduler.start()
+  }
+
+  /**
+   * Pause the show clock
+   */
+  const pause = (): void => {
+    scheduler.pause()
+  }
+
+  /**
+   * Pause and rewind to the start
+   */
+  const stop = (): void => {
+    scheduler.stop()
+    lastCueId.value = null
+    syncState()
+  }
+
+  /**
+   * Jump to a show time in ms
+   */
+  const seek = (time: number): void => {
+    scheduler.seek(time)
+  }
+
+  /**
+   * Jump to the next cue and fire it
+   */
+  const skip = (): Cue | null => {
+    return scheduler.skip()
+  }
+
+  /**
+   * Fire a cue now
+   */
+  const trigger = (id: string): void => {
+    scheduler.trigger(id)
+  }
+
+  /**
+   * Replace the timeline
+   */
+  const setCues = (next: Cue[]): void => {
+    scheduler.setCues(next)
+    syncState()
+  }
+
+  /**
+   * Current show time in ms
+   */
+  const getPosition = (): number => {
+    return scheduler.getPosition()
+  }
+
+  /**
+   * Register event listener
+   */
+  const onCueEvent = (
+    eventType: string,
+    callback: (event: CanvasEvent) => void
+  ): void => {
+    scheduler.on(eventType, callback)
+  }
+
+  // Set up built-in event listeners
+  onCueEvent('started', syncState)
+  onCueEvent('paused', syncState)
+  onCueEvent('seeked', syncState)
+
+  onCueEvent('cue-fired', (event) => {
+    lastCueId.value = (event.data as { id: string }).id
+    syncState()
+  })
+
+  if (autoStart) {
+    start()
+  }
+
+  // Cleanup on unmount
+  onUnmounted(() => {
+    scheduler.destroy()
+  })
+
+  return {
+    // State
+    isRunning,
+    firedCueIds,
+    lastCueId,
+
+    // Actions
+    start,
+    pause,
+    stop,
+    seek,
+    skip,
+    trigger,
+    setCues,
+    getPosition,
+
+    // Events
+    onCueEvent,
+
+    // Scheduler access
+    scheduler
+  }
+}
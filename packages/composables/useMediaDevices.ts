@@ -0,0 +1,233 @@
+/**
+ * Media Devices Composable for VueStream
+ *
+ * Vue 3 composable for cameras, microphones, speakers and screen capture
+ */
+
+import { ref, shallowRef, onMounted, onUnmounted, type Ref } from 'vue'
+import { MediaDeviceManager } from '../core/media/MediaDeviceManager'
+import {
+  MediaDeviceError,
+  toMediaDeviceError,
+  type MediaDeviceErrorCode
+} from '../core/media/errors'
+import type { CanvasError, CanvasEvent, VideoTextureSource } from '../core/canvas/types'
+import type {
+  CameraOptions,
+  MediaDeviceRole,
+  ScreenShareOptions,
+  TrackMuteState
+} from '../core/media/types'
+
+export interface UseMediaDevicesOptions {
+  // Enumerate devices when the component mounts
+  autoEnumerate?: boolean
+}
+
+export interface UseMediaDevicesReturn {
+  // State
+  isSupported: boolean
+  cameras: Ref<MediaDeviceInfo[]>
+  microphones: Ref<MediaDeviceInfo[]>
+  speakers: Ref<MediaDeviceInfo[]>
+  selectedCameraId: Ref<string | null>
+  selectedMicrophoneId: Ref<string | null>
+  selectedSpeakerId: Ref<string | null>
+  sources: Ref<VideoTextureSource[]>
+  muteStates: Ref<Record<string, TrackMuteState>>
+  error: Ref<MediaDeviceError | null>
+
+  // Devices
+  refreshDevices: () => Promise<void>
+  selectDevice: (role: MediaDeviceRole, deviceId: string | null) => void
+
+  // Capture
+  startCamera: (options?: CameraOptions) => Promise<VideoTextureSource>
+  startScreenShare: (options?: ScreenShareOptions) => Promise<VideoTextureSource>
+  stopSource: (id: string) => void
+
+  // Track controls
+  setMuted: (id: string, kind: keyof TrackMuteState, muted: boolean) => void
+  toggleMute: (id: string, kind: keyof TrackMuteState) => void
+  setAudioOutput: (element: HTMLMediaElement, deviceId?: string | null) => Promise<void>
+
+  // Events
+  onMediaEvent: (eventType: string, callback: (event: CanvasEvent) => void) => void
+
+  // Media device manager access
+  devices: MediaDeviceManager
+}
+
+export function useMediaDevices(options: UseMediaDevicesOptions = {}): UseMediaDevicesReturn {
+  const { autoEnumerate = true } = options
+  const devices = new MediaDeviceManager()
+  const selection = devices.getSelection()
+
+  // Reactive state. Device infos and streams are browser objects that
+  // must not be wrapped in reactive proxies.
+  const cameras = shallowRef<MediaDeviceInfo[]>([])
+  const microphones = shallowRef<MediaDeviceInfo[]>([])
+  const speakers = shallowRef<MediaDeviceInfo[]>([])
+  const selectedCameraId = ref(selection.camera)
+  const selectedMicrophoneId = ref(selection.microphone)
+  const selectedSpeakerId = ref(selection.speaker)
+  const sources = shallowRef<VideoTextureSource[]>([])
+  const muteStates = ref<Record<string, TrackMuteState>>({})
+  const error = shallowRef<MediaDeviceError | null>(null)
+
+  const syncSources = () => {
+    sources.value = devices.getSources()
+    muteStates.value = Object.fromEntries(
+      sources.value.map(source => [source.id, devices.getMuteState(source.id)])
+    )
+  }
+
+  /**
+   * Run a device operation, surfacing failures as typed errors
+   */
+  const run = async <T>(operation: () => Promise<T>): Promise<T> => {
+    error.value = null
+    try {
+      return await operation()
+    } catch (caught) {
+      error.value = toMediaDeviceError(caught)
+      throw error.value
+    }
+  }
+
+  /**
+   * Re-enumerate devices
+   */
+  const refreshDevices = async (): Promise<void> => {
+    await run(() => devices.enumerate())
+  }
+
+  /**
+   * Choose and remember a device
+   */
+  const selectDevice = (role: MediaDeviceRole, deviceId: string | null): void => {
+    devices.selectDevice(role, deviceId)
+  }
+
+  /**
+   * Acquire a camera source
+   */
+  const startCamera = (cameraOptions?: CameraOptions): Promise<VideoTextureSource> => {
+    return run(() => devices.startCamera(cameraOptions))
+  }
+
+  /**
+   * Acquire a screen share source
+   */
+  const startScreenShare = (screenOptions?: ScreenShareOptions): Promise<VideoTextureSource> => {
+    return run(() => devices.startScreenShare(screenOptions))
+  }
+
+  /**
+   * Stop a source
+   */
+  const stopSource = (id: string): void => {
+    devices.stopSource(id)
+  }
+
+  /**
+   * Mute or unmute a source's audio or video
+   */
+  const setMuted = (id: string, kind: keyof TrackMuteState, muted: boolean): void => {
+    devices.setMuted(id, kind, muted)
+  }
+
+  /**
+   * Flip a source's audio or video mute state
+   */
+  const toggleMute = (id: string, kind: keyof TrackMuteState): void => {
+    devices.setMuted(id, kind, !devices.getMuteState(id)[kind])
+  }
+
+  /**
+   * Route an element's audio to a speaker
+   */
+  const setAudioOutput = (element: HTMLMediaElement, deviceId?: string | null): Promise<void> => {
+    return run(() => devices.setAudioOutput(element, deviceId))
+  }
+
+  /**
+   * Register event listener
+   */
+  const onMediaEvent = (
+    eventType: string,
+    callback: (event: CanvasEvent) => void
+  ): void => {
+    devices.on(eventType, callback)
+  }
+
+  // Set up built-in event listeners
+  onMediaEvent('devices-changed', () => {
+    const lists = devices.getDevices()
+    cameras.value = lists.cameras
+    microphones.value = lists.microphones
+    speakers.value = lists.speakers
+  })
+
+  onMediaEvent('device-selected', () => {
+    const current = devices.getSelection()
+    selectedCameraId.value = current.camera
+    selectedMicrophoneId.value = current.microphone
+    selectedSpeakerId.value = current.speaker
+  })
+
+  onMediaEvent('source-started', syncSources)
+  onMediaEvent('source-ended', syncSources)
+  onMediaEvent('source-muted', syncSources)
+
+  onMediaEvent('error', (event) => {
+    const data = event.data as CanvasError
+    const code = data.code as MediaDeviceErrorCode
+    error.value = new MediaDeviceError(code, data.message, data.context)
+  })
+
+  onMounted(() => {
+    if (autoEnumerate && devices.isSupported()) {
+      refreshDevices().catch(() => undefined)
+    }
+  })
+
+  // Cleanup on unmount
+  onUnmounted(() => {
+    devices.destroy()
+  })
+
+  return {
+    // State
+    isSupported: devices.isSupported(),
+    cameras,
+    microphones,
+    speakers,
+    selectedCameraId,
+    selectedMicrophoneId,
+    selectedSpeakerId,
+    sources,
+    muteStates,
+    error,
+
+    // Devices
+    refreshDevices,
+    selectDevice,
+
+    // Capture
+    startCamera,
+    startScreenShare,
+    stopSource,
+
+    // Track controls
+    setMuted,
+    toggleMute,
+    setAudioOutput,
+
+    // Events
+    onMediaEvent,
+
+    // Media device manager access
+    devices
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Recording Composable for VueStream
+ *
+ * Vue 3 composable for local recording with MediaRecorder
+ */
+
+import { ref, onUnmounted, type Ref } from 'vue'
+import { RecordingManager } from '../core/recording/RecordingManager'
+import type { CanvasManager } from '../core/canvas/CanvasManager'
+import type { CanvasEvent } from '../core/canvas/types'
+import type {
+  RecordingOptions,
+  RecordingResult,
+  RecordingState
+} from '../core/recording/types'
+
+export interface UseRecordingReturn {
+  // State
+  state: Ref<RecordingState>
+  elapsed: Ref<number>
+  size: Ref<number>
+  mimeType: Ref<string>
+  error: Ref<string | null>
+
+  // Actions
+  start: (options?: RecordingOptions) => void
+  pause: () => void
+  resume: () => void
+  stop: () => Promise<RecordingResult>
+
+  // Events
+  onRecordingEvent: (eventType: string, callback: (event: CanvasEvent) => void) => void
+
+  // Recording manager access
+  recorder: RecordingManager
+}
+
+export function useRecording(canvas?: CanvasManager): UseRecordingReturn {
+  const recorder = new RecordingManager(canvas)
+
+  // Reactive state
+  const state = ref<RecordingState>('inactive')
+  const elapsed = ref(0)
+  const size = ref(0)
+  const mimeType = ref('')
+  const error = ref<string | null>(null)
+
+  let timer: number | null = null
+
+  const sync = () => {
+    state.value = recorder.getState()
+    elapsed.value = recorder.getElapsed()
+    size.value = recorder.getSize()
+    mimeType.value = recorder.getMimeType()
+  }
+
+  const startTimer = () => {
+    stopTimer()
+    timer = window.setInterval(sync, 250)
+  }
+
+  const stopTimer = () => {
+    if (timer !== null) {
+      clearInterval(timer)
+      timer = null
+    }
+  }
+
+  /**
+   * Start recording
+   */
+  const start = (options?: RecordingOptions): void => {
+    error.value = null
+    recorder.start(options)
+  }
+
+  /**
+   * Pause recording
+   */
+  const pause = (): void => {
+    recorder.pause()
+  }
+
+  /**
+   * Resume recording
+   */
+  const resume = (): void => {
+    recorder.resume()
+  }
+
+  /**
+   * Stop recording
+   */
+  const stop = (): Promise<RecordingResult> => {
+    return recorder.stop()
+  }
+
+  /**
+   * Register event listener
+   */
+  const onRecordingEvent = (
+    eventType: string,
+    callback: (event: CanvasEvent) => void
+  ): void => {
+    recorder.on(eventType, callback)
+  }
+
+  // Set up built-in event listeners
+  onRecordingEvent('recording-started', () => {
+    sync()
+    startTimer()
+  })
+
+  onRecordingEvent('recording-paused', sync)
+  onRecordingEvent('recording-resumed', sync)
+  onRecordingEvent('recording-chunk', sync)
+
+  onRecordingEvent('recording-stopped', () => {
+    stopTimer()
+    sync()
+  })
+
+  onRecordingEvent('recording-error', (event) => {
+    error.value = (event.data as { message?: string })?.message ?? 'Unknown recording error'
+  })
+
+  // Cleanup on unmount
+  onUnmounted(() => {
+    stopTimer()
+    recorder.destroy()
+  })
+
+  return {
+    // State
+    state,
+    elapsed,
+    size,
+    mimeType,
+    error,
+
+    // Actions
+    start,
+    pause,
+    resume,
+    stop,
+
+    // Events
+    onRecordingEvent,
+
+    // Recording manager access
+    recorder
+  }
+}
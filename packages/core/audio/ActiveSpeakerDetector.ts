@@ -0,0 +1,223 @@
+/**
+ * Active Speaker Detector for VueStream
+ *
+ * Analyses the audio of each source and reports who is speaking. Levels
+ * are smoothed, speaking uses separate start and stop thresholds, and the
+ * active speaker is held for a minimum time so the spotlight doesn't flicker.
+ */
+
+import { EventEmitter } from '../events'
+import { amplitudeToLevel, computeRms, smoothLevel } from './levels'
+import type { VideoTextureSource } from '../canvas/types'
+import type { ActiveSpeakerOptions, SourceAudioLevel } from './types'
+
+interface AnalysedSource {
+  id: string
+  input: MediaStreamAudioSourceNode
+  analyser: AnalyserNode
+  buffer: Float32Array<ArrayBuffer>
+  level: number
+  speaking: boolean
+}
+
+export const DEFAULT_ACTIVE_SPEAKER_OPTIONS = {
+  interval: 50,
+  threshold: 0.35,
+  releaseThreshold: 0.25,
+  holdTime: 1500,
+  attack: 0.3,
+  release: 0.85,
+  fftSize: 1024
+}
+
+export class ActiveSpeakerDetector extends EventEmitter {
+  private options: typeof DEFAULT_ACTIVE_SPEAKER_OPTIONS
+  private audioContext: AudioContext | null
+  private ownsContext: boolean
+  private sources: Map<string, AnalysedSource> = new Map()
+  private activeSpeakerId: string | null = null
+  private activeSince = 0
+  private timer: number | null = null
+
+  constructor(options: ActiveSpeakerOptions = {}) {
+    super()
+    const { audioContext, ...settings } = options
+    this.options = { ...DEFAULT_ACTIVE_SPEAKER_OPTIONS, ...settings }
+    this.audioContext = audioContext ?? null
+    this.ownsContext = !audioContext
+  }
+
+  /**
+   * Start analysing a source's audio. Sources without audio tracks are
+   * ignored; returns whether the source is being analysed.
+   */
+  addSource(source: Pick<VideoTextureSource, 'id' | 'stream'>): boolean {
+    if (source.stream.getAudioTracks().length === 0) return false
+    this.removeSource(source.id)
+
+    const context = this.getContext()
+    const input = context.createMediaStreamSource(source.stream)
+    const analyser = context.createAnalyser()
+    analyser.fftSize = this.options.fftSize
+    input.connect(analyser)
+
+    this.sources.set(source.id, {
+      id: source.id,
+      input,
+      analyser,
+      buffer: new Float32Array(analyser.fftSize),
+      level: 0,
+      speaking: false
+    })
+
+    this.emit('source-added', { id: source.id })
+    return true
+  }
+
+  /**
+   * Stop analysing a source
+   */
+  removeSource(id: string): void {
+    const source = this.sources.get(id)
+    if (!source) return
+
+    source.input.disconnect()
+    source.analyser.disconnect()
+    this.sources.delete(id)
+
+    if (source.speaking) {
+      this.emit('speaking-changed', { id, speaking: false })
+    }
+    if (this.activeSpeakerId === id) {
+      this.setActiveSpeaker(null)
+    }
+    this.emit('source-removed', { id })
+  }
+
+  /**
+   * Start the analysis loop
+   */
+  start(): void {
+    if (this.timer !== null) return
+
+    // Contexts created before a user gesture start suspended
+    this.audioContext?.resume().catch(() => undefined)
+    this.timer = window.setInterval(() => this.analyse(), this.options.interval)
+  }
+
+  /**
+   * Pause the analysis loop; levels keep their last values
+   */
+  stop(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null
+  }
+
+  /**
+   * Change thresholds and timing; a new interval applies on the next start
+   */
+  setOptions(options: Omit<ActiveSpeakerOptions, 'audioContext'>): void {
+    this.options = { ...this.options, ...options }
+    if (this.timer !== null) {
+      this.stop()
+      this.start()
+    }
+  }
+
+  /**
+   * Get the current level and speaking state of every source
+   */
+  getLevels(): SourceAudioLevel[] {
+    return Array.from(this.sources.values()).map(({ id, level, speaking }) => ({
+      id,
+      level,
+      speaking
+    }))
+  }
+
+  getActiveSpeaker(): string | null {
+    return this.activeSpeakerId
+  }
+
+  /**
+   * Stop analysing and release the audio graph
+   */
+  destroy(): void {
+    this.stop()
+    Array.from(this.sources.keys()).forEach(id => this.removeSource(id))
+    if (this.ownsContext) {
+      this.audioContext?.close().catch(() => undefined)
+      this.audioContext = null
+    }
+  }
+
+  private getContext(): AudioContext {
+    if (!this.audioContext) {
+      this.audioContext = new AudioContext()
+      if (this.timer !== null) {
+        this.audioContext.resume().catch(() => undefined)
+      }
+    }
+    return this.audioContext
+  }
+
+  /**
+   * One analysis pass: update levels, speaking states and the active speaker
+   */
+  private analyse(): void {
+    if (this.sources.size === 0) return
+
+    const { threshold, releaseThreshold, attack, release } = this.options
+
+    this.sources.forEach(source => {
+      source.analyser.getFloatTimeDomainData(source.buffer)
+      const level = amplitudeToLevel(computeRms(source.buffer))
+      source.level = smoothLevel(source.level, level, attack, release)
+
+      // Hysteresis: start above threshold, stop only below releaseThreshold
+      const speaking = source.speaking
+        ? source.level >= releaseThreshold
+        : source.level >= threshold
+      if (speaking !== source.speaking) {
+        source.speaking = speaking
+        this.emit('speaking-changed', { id: source.id, speaking })
+      }
+    })
+
+    this.emit('levels-updated', { levels: this.getLevels() })
+    this.updateActiveSpeaker()
+  }
+
+  /**
+   * Hand the floor to the loudest speaker once the current one has held
+   * it long enough. Silence keeps the last speaker active.
+   */
+  private updateActiveSpeaker(): void {
+    let candidate: AnalysedSource | null = null
+    for (const source of this.sources.values()) {
+      if (source.speaking && (!candidate || source.level > candidate.level)) {
+        candidate = source
+      }
+    }
+    if (!candidate || candidate.id === this.activeSpeakerId) return
+
+    const current = this.activeSpeakerId ? this.sources.get(this.activeSpeakerId) : undefined
+    const held = Date.now() - this.activeSince >= this.options.holdTime
+    if (!current || held) {
+      this.setActiveSpeaker(candidate.id)
+    }
+  }
+
+  private setActiveSpeaker(id: string | null): void {
+    const previousId = this.activeSpeakerId
+    this.activeSpeakerId = id
+    this.activeSince = Date.now()
+    this.emit('active-speaker-changed', { id, previousId })
+  }
+}
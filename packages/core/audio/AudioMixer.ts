@@ -0,0 +1,397 @@
+/**
+ * Audio Mixer for VueStream
+ *
+ * Mixes source audio through a Web Audio graph with per-channel gain, mute,
+ * solo and pan, and a limited master bus. The mix is available as a
+ * MediaStreamTrack for recording or sending to peers.
+ *
+ * channel: source -> gain -> pan -> meter -> master
+ * master:  gain -> limiter -> meter -> output (and speakers when monitoring)
+ */
+
+import { EventEmitter } from '../events'
+import { amplitudeToLevel, computePeak, computeRms } from './levels'
+import type {
+  AudioChannelOptions,
+  AudioChannelState,
+  AudioMeterReading,
+  AudioMixerOptions,
+  LimiterOptions
+} from './types'
+
+interface Meter {
+  analyser: AnalyserNode
+  buffer: Float32Array<ArrayBuffer>
+}
+
+interface MixerChannel {
+  id: string
+  input: AudioNode
+  gainNode: GainNode
+  panner: StereoPannerNode
+  meter: Meter
+  gain: number
+  pan: number
+  muted: boolean
+  solo: boolean
+}
+
+export const DEFAULT_LIMITER_OPTIONS: Required<LimiterOptions> = {
+  threshold: -3,
+  knee: 0,
+  ratio: 20,
+  attack: 0.003,
+  release: 0.25
+}
+
+// Time constant for gain changes, in seconds; avoids clicks
+const GAIN_RAMP = 0.015
+const SILENT_READING: AudioMeterReading = { rms: 0, peak: 0, clipping: false }
+
+export class AudioMixer extends EventEmitter {
+  private context: AudioContext
+  private ownsContext: boolean
+  private channels: Map<string, MixerChannel> = new Map()
+  // An element can only be connected to a context once, so its node is kept
+  private elementSources: WeakMap<HTMLMediaElement, MediaElementAudioSourceNode> = new WeakMap()
+  private masterGain: GainNode
+  private limiter: DynamicsCompressorNode
+  private masterMeter: Meter
+  private destination: MediaStreamAudioDestinationNode
+  private masterVolume = 1
+  private masterMuted = false
+  private monitoring = false
+  private meterInterval: number
+  private fftSize: number
+  private timer: number | null = null
+
+  constructor(options: AudioMixerOptions = {}) {
+    super()
+    this.context = options.audioContext ?? new AudioContext()
+    this.ownsContext = !options.audioContext
+    this.meterInterval = options.meterInterval ?? 50
+    this.fftSize = options.fftSize ?? 1024
+
+    this.masterGain = this.context.createGain()
+    this.limiter = this.context.createDynamicsCompressor()
+    this.masterMeter = this.createMeter()
+    this.destination = this.context.createMediaStreamDestination()
+
+    this.masterGain.connect(this.limiter)
+    this.limiter.connect(this.masterMeter.analyser)
+    this.limiter.connect(this.destination)
+    this.setLimiter(options.limiter ?? {})
+    this.setMonitoring(options.monitor ?? false)
+
+    // Contexts created before a user gesture start suspended
+    this.context.resume().catch(() => undefined)
+  }
+
+  /**
+   * Add a channel for a source's audio, keyed by the video texture id.
+   * Sources without audio tracks are ignored; returns whether a channel exists.
+   */
+  addChannel(id: string, stream: MediaStream, options: AudioChannelOptions = {}): boolean {
+    if (stream.getAudioTracks().length === 0) return false
+    this.removeChannel(id)
+
+    // Chrome only delivers remote WebRTC audio to Web Audio while the
+    // stream is also attached to a media element, as video textures are
+    this.connectChannel(id, this.context.createMediaStreamSource(stream), options)
+    return true
+  }
+
+  /**
+   * Add a channel for a media element's audio, e.g. a video overlay. The
+   * element is then only heard through the mix, also after its channel
+   * is removed.
+   */
+  addMediaElementChannel(
+    id: string,
+    element: HTMLMediaElement,
+    options: AudioChannelOptions = {}
+  ): void {
+    this.removeChannel(id)
+    let input = this.elementSources.get(element)
+    if (!input) {
+      input = this.context.createMediaElementSource(element)
+      this.elementSources.set(element, input)
+    }
+    this.connectChannel(id, input, options)
+  }
+
+  /**
+   * Remove a channel and disconnect its nodes
+   */
+  removeChannel(id: string): void {
+    const channel = this.channels.get(id)
+    if (!channel) return
+
+    channel.input.disconnect()
+    channel.gainNode.disconnect()
+    channel.panner.disconnect()
+    this.channels.delete(id)
+
+    this.emit('channel-removed', { id })
+    if (channel.solo) {
+      this.applyGains()
+    }
+  }
+
+  /**
+   * Set a channel's linear gain; 1 is unity
+   */
+  setGain(id: string, gain: number): void {
+    this.requireChannel(id).gain = Math.max(0, gain)
+    this.applyGains(this.channels.get(id))
+  }
+
+  setMuted(id: string, muted: boolean): void {
+    this.requireChannel(id).muted = muted
+    this.applyGains(this.channels.get(id))
+  }
+
+  /**
+   * Solo a channel; while any channel is soloed only soloed ones are heard
+   */
+  setSolo(id: string, solo: boolean): void {
+    this.requireChannel(id).solo = solo
+    this.applyGains()
+  }
+
+  /**
+   * Pan a channel between -1 (left) and 1 (right)
+   */
+  setPan(id: string, pan: number): void {
+    const channel = this.requireChannel(id)
+    channel.pan = clampPan(pan)
+    channel.panner.pan.setTargetAtTime(channel.pan, this.context.currentTime, GAIN_RAMP)
+    this.emit('channel-updated', { channel: this.toState(channel) })
+  }
+
+  /**
+   * Get a channel's settings
+   */
+  getChannel(id: string): AudioChannelState | undefined {
+    const channel = this.channels.get(id)
+    return channel ? this.toState(channel) : undefined
+  }
+
+  /**
+   * List channels in the order they were added
+   */
+  getChannels(): AudioChannelState[] {
+    return Array.from(this.channels.values()).map(channel => this.toState(channel))
+  }
+
+  /**
+   * Set the master bus gain
+   */
+  setMasterGain(gain: number): void {
+    this.masterVolume = Math.max(0, gain)
+    this.applyMaster()
+  }
+
+  setMasterMuted(muted: boolean): void {
+    this.masterMuted = muted
+    this.applyMaster()
+  }
+
+  getMaster(): { gain: number; muted: boolean; monitoring: boolean } {
+    return { gain: this.masterVolume, muted: this.masterMuted, monitoring: this.monitoring }
+  }
+
+  /**
+   * Tune the master limiter
+   */
+  setLimiter(options: LimiterOptions): void {
+    const settings = { ...DEFAULT_LIMITER_OPTIONS, ...options }
+    this.limiter.threshold.value = settings.threshold
+    this.limiter.knee.value = settings.knee
+    this.limiter.ratio.value = settings.ratio
+    this.limiter.attack.value = settings.attack
+    this.limiter.release.value = settings.release
+  }
+
+  /**
+   * Play the mix through the local speakers. Leave off for a mix that
+   * contains the local microphone, or it will be heard twice.
+   */
+  setMonitoring(enabled: boolean): void {
+    if (enabled === this.monitoring) return
+
+    this.monitoring = enabled
+    if (enabled) {
+      this.limiter.connect(this.context.destination)
+    } else {
+      this.limiter.disconnect(this.context.destination)
+    }
+    this.emit('master-updated', this.getMaster())
+  }
+
+  /**
+   * The mixed audio, e.g. for `captureStream({ audioTracks: [...] })` or
+   * `RTCPeerConnection.addTrack`
+   */
+  getOutputTrack(): MediaStreamTrack {
+    return this.destination.stream.getAudioTracks()[0]
+  }
+
+  getOutputStream(): MediaStream {
+    return this.destination.stream
+  }
+
+  getAudioContext(): AudioContext {
+    return this.context
+  }
+
+  /**
+   * Read peak and RMS levels of every channel, after gain and pan
+   */
+  getMeters(): Record<string, AudioMeterReading> {
+    const meters: Record<string, AudioMeterReading> = {}
+    this.channels.forEach(channel => {
+      meters[channel.id] = readMeter(channel.meter)
+    })
+    return meters
+  }
+
+  /**
+   * Read the master bus level, after the limiter
+   */
+  getMasterMeter(): AudioMeterReading {
+    return readMeter(this.masterMeter)
+  }
+
+  /**
+   * Emit `meters-updated` at the meter interval
+   */
+  startMetering(): void {
+    if (this.timer !== null) return
+
+    this.timer = window.setInterval(() => {
+      this.emit('meters-updated', {
+        channels: this.channels.size > 0 ? this.getMeters() : {},
+        master: this.channels.size > 0 ? this.getMasterMeter() : SILENT_READING
+      })
+    }, this.meterInterval)
+  }
+
+  stopMetering(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  /**
+   * Remove every channel, stop the output track and release the graph
+   */
+  destroy(): void {
+    this.stopMetering()
+    Array.from(this.channels.keys()).forEach(id => this.removeChannel(id))
+    this.destination.stream.getTracks().forEach(track => track.stop())
+    this.masterGain.disconnect()
+    this.limiter.disconnect()
+    if (this.ownsContext) {
+      this.context.close().catch(() => undefined)
+    }
+  }
+
+  /**
+   * Wire an input through a new channel strip into the master bus
+   */
+  private connectChannel(id: string, input: AudioNode, options: AudioChannelOptions): void {
+    const gainNode = this.context.createGain()
+    const panner = this.context.createStereoPanner()
+    const meter = this.createMeter()
+
+    input.connect(gainNode)
+    gainNode.connect(panner)
+    panner.connect(meter.analyser)
+    panner.connect(this.masterGain)
+
+    const channel: MixerChannel = {
+      id,
+      input,
+      gainNode,
+      panner,
+      meter,
+      gain: options.gain ?? 1,
+      pan: clampPan(options.pan ?? 0),
+      muted: options.muted ?? false,
+      solo: options.solo ?? false
+    }
+    this.channels.set(id, channel)
+    panner.pan.value = channel.pan
+    gainNode.gain.value = this.isAudible(channel, this.isSoloActive()) ? channel.gain : 0
+
+    this.emit('channel-added', { channel: this.toState(channel) })
+    // A soloed channel silences the others
+    if (channel.solo) {
+      this.applyGains()
+    }
+  }
+
+  private createMeter(): Meter {
+    const analyser = this.context.createAnalyser()
+    analyser.fftSize = this.fftSize
+    return { analyser, buffer: new Float32Array(analyser.fftSize) }
+  }
+
+  private requireChannel(id: string): MixerChannel {
+    const channel = this.channels.get(id)
+    if (!channel) {
+      throw new Error(`Audio channel ${id} not found`)
+    }
+    return channel
+  }
+
+  private isSoloActive(): boolean {
+    return Array.from(this.channels.values()).some(channel => channel.solo)
+  }
+
+  private isAudible(channel: MixerChannel, soloActive: boolean): boolean {
+    return !channel.muted && (!soloActive || channel.solo)
+  }
+
+  /**
+   * Ramp channel gains to their effective values. Solo changes affect
+   * every channel; other changes only the one given.
+   */
+  private applyGains(only?: MixerChannel): void {
+    const soloActive = this.isSoloActive()
+    const targets = only ? [only] : Array.from(this.channels.values())
+
+    targets.forEach(channel => {
+      const gain = this.isAudible(channel, soloActive) ? channel.gain : 0
+      channel.gainNode.gain.setTargetAtTime(gain, this.context.currentTime, GAIN_RAMP)
+      this.emit('channel-updated', { channel: this.toState(channel, soloActive) })
+    })
+  }
+
+  private applyMaster(): void {
+    const gain = this.masterMuted ? 0 : this.masterVolume
+    this.masterGain.gain.setTargetAtTime(gain, this.context.currentTime, GAIN_RAMP)
+    this.emit('master-updated', this.getMaster())
+  }
+
+  private toState(channel: MixerChannel, soloActive = this.isSoloActive()): AudioChannelState {
+    const { id, gain, pan, muted, solo } = channel
+    return { id, gain, pan, muted, solo, audible: this.isAudible(channel, soloActive) }
+  }
+}
+
+function clampPan(pan: number): number {
+  return Math.max(-1, Math.min(1, pan))
+}
+
+function readMeter(meter: Meter): AudioMeterReading {
+  meter.analyser.getFloatTimeDomainData(meter.buffer)
+  const peak = computePeak(meter.buffer)
+  return {
+    rms: amplitudeToLevel(computeRms(meter.buffer)),
+    peak: amplitudeToLevel(peak),
+    clipping: peak >= 1
+  }
+}
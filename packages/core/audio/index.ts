@@ -0,0 +1,17 @@
+/**
+ * Audio Package Exports
+ *
+ * Audio analysis for VueStream
+ */
+
+export { ActiveSpeakerDetector, DEFAULT_ACTIVE_SPEAKER_OPTIONS } from './ActiveSpeakerDetector'
+export { AudioMixer, DEFAULT_LIMITER_OPTIONS } from './AudioMixer'
+export {
+  LEVEL_FLOOR_DB,
+  computeRms,
+  computePeak,
+  amplitudeToDb,
+  amplitudeToLevel,
+  smoothLevel
+} from './levels'
+export type * from './types'
\ No newline at end of file
@@ -0,0 +1,62 @@
+/**
+ * Audio Levels for VueStream
+ *
+ * Level math shared by speaker detection and metering
+ */
+
+// Levels are reported on a 0-1 scale covering this range
+export const LEVEL_FLOOR_DB = -60
+
+/**
+ * Root mean square of a block of samples
+ */
+export function computeRms(samples: Float32Array): number {
+  if (samples.length === 0) return 0
+
+  let sum = 0
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i]
+  }
+  return Math.sqrt(sum / samples.length)
+}
+
+/**
+ * Largest absolute sample in a block
+ */
+export function computePeak(samples: Float32Array): number {
+  let peak = 0
+  for (let i = 0; i < samples.length; i++) {
+    peak = Math.max(peak, Math.abs(samples[i]))
+  }
+  return peak
+}
+
+/**
+ * Convert a linear amplitude to dBFS
+ */
+export function amplitudeToDb(amplitude: number): number {
+  return amplitude > 0 ? 20 * Math.log10(amplitude) : -Infinity
+}
+
+/**
+ * Map a linear amplitude to 0-1 on a decibel scale, so quiet voices still
+ * register and meters move the way they sound
+ */
+export function amplitudeToLevel(amplitude: number, floorDb = LEVEL_FLOOR_DB): number {
+  const db = amplitudeToDb(amplitude)
+  if (db <= floorDb) return 0
+  return Math.min(1, 1 - db / floorDb)
+}
+
+/**
+ * Exponential smoothing; rising levels use `attack`, falling ones `release`
+ */
+export function smoothLevel(
+  previous: number,
+  next: number,
+  attack: number,
+  release: number
+): number {
+  const factor = next > previous ? attack : release
+  return previous * factor + next * (1 - factor)
+}
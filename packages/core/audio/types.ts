@@ -0,0 +1,91 @@
+/**
+ * Audio Types for VueStream
+ *
+ * Type definitions for audio analysis
+ */
+
+export interface ActiveSpeakerOptions {
+  // Shared context; the detector creates and closes its own when omitted
+  audioContext?: AudioContext
+  // Milliseconds between analysis passes
+  interval?: number
+  // Smoothed level (0-1) a source must reach to start speaking
+  threshold?: number
+  // Level it must fall below to stop speaking; lower than threshold
+  releaseThreshold?: number
+  // Minimum time the active speaker is kept before switching, in ms
+  holdTime?: number
+  // Smoothing factors (0-1) for rising and falling levels
+  attack?: number
+  release?: number
+  fftSize?: number
+}
+
+export interface SourceAudioLevel {
+  id: string
+  // Smoothed level, 0-1
+  level: number
+  speaking: boolean
+}
+
+export type SpeakerEventType =
+  | 'source-added'
+  | 'source-removed'
+  | 'levels-updated'
+  | 'speaking-changed'
+  | 'active-speaker-changed'
+
+export interface LimiterOptions {
+  // dBFS above which the master bus is compressed
+  threshold?: number
+  knee?: number
+  ratio?: number
+  // Seconds
+  attack?: number
+  release?: number
+}
+
+export interface AudioMixerOptions {
+  // Shared context; the mixer creates and closes its own when omitted
+  audioContext?: AudioContext
+  limiter?: LimiterOptions
+  // Milliseconds between meter readings
+  meterInterval?: number
+  fftSize?: number
+  // Also play the mix through the local speakers
+  monitor?: boolean
+}
+
+export interface AudioChannelOptions {
+  // Linear gain, 1 is unity
+  gain?: number
+  // -1 (left) to 1 (right)
+  pan?: number
+  muted?: boolean
+  solo?: boolean
+}
+
+export interface AudioChannelState {
+  id: string
+  gain: number
+  pan: number
+  muted: boolean
+  solo: boolean
+  // False while another channel is soloed or this one is muted
+  audible: boolean
+}
+
+export interface AudioMeterReading {
+  // 0-1 on a decibel scale, see amplitudeToLevel
+  rms: number
+  peak: number
+  // Peak reached full scale
+  clipping: boolean
+}
+
+export type AudioMixerEventType =
+  | 'channel-added'
+  | 'channel-removed'
+  | 'channel-updated'
+  | 'master-updated'
+  | 'meters-updated'
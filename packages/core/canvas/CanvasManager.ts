@@ -4,28 +4,69 @@
  * High-performance Pixi.js canvas management with video texture support
  */
 
-import { Application, Container, Texture, Sprite } from 'pixi.js'
-import { OverlayManager, type AnyOverlayConfig } from './overlays'
-import { LAYOUT_PRESETS, calculateZonePositions, type LayoutPreset } from './layouts'
+import { Application, Container, Graphics, Texture, Sprite } from 'pixi.js'
+import { EventEmitter } from '../events'
+import {
+  OverlayManager,
+  type AnyOverlayConfig,
+  type AssetResolver,
+  type CreateOverlayOptions,
+  type DetachedOverlay
+} from './overlays'
+import type { OverlayAnimation } from './overlayAnimations'
+import type { OverlayAction } from './timers'
+import type { ThemeTokens } from '../../themes'
+import {
+  calculateZonePositions,
+  getLayoutPreset,
+  listLayouts,
+  type LayoutPreset,
+  type LayoutZoneDefinition
+} from './layouts'
+import { createGridLayout } from './grid'
+import { DEFAULT_ZONE_FIT, computeFit, type ZoneFit } from './fit'
+import { CanvasOutputStream, type CaptureStreamOptions } from './output'
+import { tween, type Tween } from './animation'
+import { AutoDirector, type AutoDirectorOptions } from './director'
+import {
+  DEFAULT_LAYOUT_TRANSITION,
+  lerpRect,
+  matchZones,
+  type LayoutTransitionOptions,
+  type ZoneRect
+} from './transitions'
+import {
+  SCENE_VERSION,
+  isSerializableOverlay,
+  migrateScene,
+  serializeZone,
+  type SceneDocument
+} from './scene'
 import type {
   CanvasConfig,
   CanvasState,
   VideoTextureSource,
   VideoTexture,
   LayoutZone,
-  PerformanceMetrics,
   CanvasEvent,
-  CanvasEventListener,
-  TexturePool
+  PerformanceMetrics,
+  TexturePool,
+  ZoneHighlight
 } from './types'
 
-export class CanvasManager {
+export class CanvasManager extends EventEmitter {
   private state: CanvasState
   private config: CanvasConfig
-  private eventListeners: Map<string, CanvasEventListener[]>
   private texturePool: TexturePool
   private overlayManager: OverlayManager | null = null
   private currentLayout: LayoutPreset | null = null
+  private pendingZoneAssignments: Map<string, string> = new Map()
+  private layoutTransition: Tween | null = null
+  private autoGridTransition: LayoutTransitionOptions | undefined
+  private output: CanvasOutputStream | null = null
+  private assetResolver: AssetResolver | null = null
+  private overlayTheme: ThemeTokens | null = null
+  private director: AutoDirector | null = null
   private performanceMonitor: {
     interval: number | null
     startTime: number
@@ -33,6 +74,7 @@ export class CanvasManager {
   }
 
   constructor(config: Partial<CanvasConfig> = {}) {
+    super()
     this.config = {
       width: 1920,
       height: 1080,
@@ -63,7 +105,6 @@ export class CanvasManager {
       }
     }
 
-    this.eventListeners = new Map()
     this.texturePool = {
       textures: new Map(),
       maxSize: 50,
@@ -116,7 +157,16 @@ export class CanvasManager {
       // Initialize overlay manager
       const overlaysLayer = this.state.layers.get('overlays')
       if (overlaysLayer) {
-        this.overlayManager = new OverlayManager(overlaysLayer.container)
+        this.overlayManager = new OverlayManager(overlaysLayer.container, this.state.app.ticker)
+        this.overlayManager.setAssetResolver(this.assetResolver)
+        if (this.overlayTheme) this.overlayManager.setTheme(this.overlayTheme)
+        this.overlayManager.setViewport(this.state.width, this.state.height)
+        this.syncOverlayZones()
+        this.overlayManager.on('countdown-finished', this.handleCountdownFinished)
+        this.overlayManager.on('media-ended', this.handleMediaEnded)
+        this.overlayManager.on('media-created', this.handleMediaCreated)
+        this.overlayManager.on('media-removed', this.handleMediaRemoved)
+        this.overlayManager.on('media-blocked', this.handleMediaBlocked)
       }
 
       this.state.isInitialized = true
@@ -178,6 +228,7 @@ export class CanvasManager {
       const videoElement = document.createElement('video')
       videoElement.srcObject = source.stream
       videoElement.autoplay = true
+      // Audio is heard through an AudioMixer channel, not the element
       videoElement.muted = true
       videoElement.playsInline = true
       
@@ -204,8 +255,7 @@ export class CanvasManager {
         lastUpdate: Date.now()
       }
 
-      this.state.videoTextures.set(source.id, videoTexture)
-      this.emit('texture-created', { id: source.id, type: source.type })
+      this.registerVideoTexture(videoTexture)
 
       return videoTexture
     } catch (error) {
@@ -221,7 +271,90 @@ export class CanvasManager {
   }
 
   /**
-   * Add video texture to a layout zone
+   * Show a video texture owned by another canvas, e.g. the program
+   * canvas sharing its textures with preview. A new sprite is created;
+   * the texture and video element stay with their owner.
+   */
+  attachVideoTexture(videoTexture: VideoTexture): VideoTexture {
+    const sprite = new Sprite(videoTexture.texture)
+    sprite.label = `video-${videoTexture.id}`
+
+    const attached: VideoTexture = {
+      ...videoTexture,
+      sprite,
+      lastUpdate: Date.now(),
+      shared: true
+    }
+
+    this.registerVideoTexture(attached)
+    return attached
+  }
+
+  /**
+   * Track a new video texture and restore any zone waiting for it
+   */
+  private registerVideoTexture(videoTexture: VideoTexture): void {
+    const { source, texture } = videoTexture
+
+    // Refit when the intrinsic size changes, e.g. a resized screen share window
+    videoTexture.onResize = () => {
+      texture.source.update()
+      this.refitVideo(videoTexture)
+    }
+    source.element?.addEventListener('resize', videoTexture.onResize)
+
+    this.state.videoTextures.set(source.id, videoTexture)
+    this.output?.addAudioSource(source.id, source.stream)
+    this.emit('texture-created', { id: source.id, type: source.type })
+
+    // Restore a zone assignment left behind by importScene, unless the
+    // auto director has already placed the video
+    const pendingZoneId = this.pendingZoneAssignments.get(source.id)
+    if (this.director) {
+      this.pendingZoneAssignments.delete(source.id)
+    } else if (pendingZoneId && this.state.layoutZones.has(pendingZoneId)) {
+      this.pendingZoneAssignments.delete(source.id)
+      this.addVideoToZone(source.id, pendingZoneId)
+    }
+
+    this.refreshAutoGrid()
+  }
+
+  /**
+   * Destroy a video texture and release the zone holding it
+   */
+  destroyVideoTexture(id: string): void {
+    const videoTexture = this.state.videoTextures.get(id)
+    if (!videoTexture) return
+
+    for (const zone of this.state.layoutZones.values()) {
+      if (zone.videoTexture === videoTexture) {
+        zone.videoTexture = undefined
+      }
+    }
+    if (videoTexture.onResize) {
+      videoTexture.source.element?.removeEventListener('resize', videoTexture.onResize)
+    }
+    videoTexture.sprite.parent?.removeChild(videoTexture.sprite)
+    videoTexture.sprite.destroy()
+    if (!videoTexture.shared) {
+      videoTexture.texture.destroy()
+      if (videoTexture.source.element) {
+        videoTexture.source.element.srcObject = null
+      }
+    }
+
+    this.state.videoTextures.delete(id)
+    this.pendingZoneAssignments.delete(id)
+    this.output?.removeAudioSource(id)
+    this.emit('texture-destroyed', { id })
+
+    this.refreshAutoGrid()
+  }
+
+  /**
+   * Add video texture to a layout zone. With the auto director enabled
+   * this pins the video to the zone.
    */
   addVideoToZone(videoId: string, zoneId: string): void {
     const videoTexture = this.state.videoTextures.get(videoId)
@@ -231,10 +364,92 @@ export class CanvasManager {
       throw new Error(`Video ${videoId} or zone ${zoneId} not found`)
     }
 
+    if (this.director) {
+      this.director.pin(videoId, zoneId)
+      return
+    }
+
+    this.placeVideoInZone(videoTexture, zone)
+    
+    this.emit('layout-changed', { videoId, zoneId })
+  }
+
+  /**
+   * Set the video of several zones at once; null empties a zone.
+   * Emits a single layout-changed event if anything moved.
+   */
+  assignZones(assignments: Record<string, string | null>): void {
+    let changed = false
+
+    for (const [zoneId, videoId] of Object.entries(assignments)) {
+      const zone = this.state.layoutZones.get(zoneId)
+      if (!zone) {
+        throw new Error(`Zone ${zoneId} not found`)
+      }
+      if ((zone.videoTexture?.id ?? null) === videoId) continue
+
+      if (videoId === null) {
+        zone.container.removeChild(zone.videoTexture!.sprite)
+        zone.videoTexture = undefined
+      } else {
+        const videoTexture = this.state.videoTextures.get(videoId)
+        if (!videoTexture) {
+          throw new Error(`Video ${videoId} not found`)
+        }
+        this.placeVideoInZone(videoTexture, zone)
+      }
+      changed = true
+    }
+
+    if (changed) {
+      this.emit('layout-changed', { assignments })
+    }
+  }
+
+  /**
+   * Fill zones automatically from the video textures. Replaces any
+   * director that is already running.
+   */
+  enableAutoDirector(options: AutoDirectorOptions = {}): AutoDirector {
+    this.director?.detach()
+    this.director = new AutoDirector(this, options)
+    this.director.refresh()
+    return this.director
+  }
+
+  /**
+   * Stop automatic zone assignment; videos stay where they are
+   */
+  disableAutoDirector(): void {
+    this.director?.detach()
+    this.director = null
+  }
+
+  /**
+   * Get the running auto director
+   */
+  getAutoDirector(): AutoDirector | null {
+    return this.director
+  }
+
+  /**
+   * Move a video sprite into a zone, releasing whatever held it before
+   */
+  private placeVideoInZone(videoTexture: VideoTexture, zone: LayoutZone): void {
     // Remove from previous container if any
     if (videoTexture.sprite.parent) {
       videoTexture.sprite.parent.removeChild(videoTexture.sprite)
     }
+    for (const other of this.state.layoutZones.values()) {
+      if (other !== zone && other.videoTexture === videoTexture) {
+        other.videoTexture = undefined
+      }
+    }
+
+    // Evict the zone's current video
+    if (zone.videoTexture && zone.videoTexture !== videoTexture) {
+      zone.container.removeChild(zone.videoTexture.sprite)
+    }
 
     // Add to zone container
     zone.container.addChild(videoTexture.sprite)
@@ -242,35 +457,144 @@ export class CanvasManager {
 
     // Fit video to zone
     this.fitVideoToZone(videoTexture, zone)
-    
-    this.emit('layout-changed', { videoId, zoneId })
   }
 
   /**
-   * Fit video sprite to layout zone
+   * Fit video sprite to layout zone using the zone's fit mode
    */
   private fitVideoToZone(videoTexture: VideoTexture, zone: LayoutZone): void {
     const { sprite } = videoTexture
-    const { width: zoneWidth, height: zoneHeight } = zone
+    const { fitMode, focalPoint } = zone.fit
+
+    const fit = computeFit(
+      fitMode,
+      sprite.texture.width,
+      sprite.texture.height,
+      zone.width,
+      zone.height,
+      focalPoint
+    )
+
+    sprite.scale.set(fit.scaleX, fit.scaleY)
+    sprite.x = fit.x
+    sprite.y = fit.y
+  }
 
-    // Calculate scale to fit while maintaining aspect ratio
-    const textureAspect = sprite.texture.width / sprite.texture.height
-    const zoneAspect = zoneWidth / zoneHeight
+  /**
+   * Refit a video in whichever zone currently shows it
+   */
+  private refitVideo(videoTexture: VideoTexture): void {
+    for (const zone of this.state.layoutZones.values()) {
+      if (zone.videoTexture === videoTexture) {
+        this.fitVideoToZone(videoTexture, zone)
+      }
+    }
+  }
 
-    let scale: number
-    if (textureAspect > zoneAspect) {
-      // Texture is wider, fit to width
-      scale = zoneWidth / sprite.texture.width
+  /**
+   * Redraw the mask that clips a zone's content to its bounds
+   */
+  private drawZoneMask(zone: LayoutZone): void {
+    const radius = Math.min(zone.fit.cornerRadius, zone.width / 2, zone.height / 2)
+    zone.mask.clear()
+    if (radius > 0) {
+      zone.mask.roundRect(0, 0, zone.width, zone.height, radius)
     } else {
-      // Texture is taller, fit to height
-      scale = zoneHeight / sprite.texture.height
+      zone.mask.rect(0, 0, zone.width, zone.height)
     }
+    zone.mask.fill(0xffffff)
+  }
 
-    sprite.scale.set(scale)
-    
-    // Center in zone
-    sprite.x = (zoneWidth - sprite.width) / 2
-    sprite.y = (zoneHeight - sprite.height) / 2
+  /**
+   * Redraw a zone's highlight border inside its bounds
+   */
+  private drawZoneBorder(zone: LayoutZone): void {
+    if (!zone.border || !zone.highlight) return
+
+    const { color, width } = zone.highlight
+    // Inset by half the stroke so the mask doesn't clip it
+    const inset = width / 2
+    const radius = Math.min(zone.fit.cornerRadius, zone.width / 2, zone.height / 2) - inset
+    zone.border.clear()
+    if (radius > 0) {
+      zone.border.roundRect(inset, inset, zone.width - width, zone.height - width, radius)
+    } else {
+      zone.border.rect(inset, inset, zone.width - width, zone.height - width)
+    }
+    zone.border.stroke({ color, width })
+  }
+
+  /**
+   * Draw a border over a zone's video, e.g. a speaking indicator; null removes it
+   */
+  setZoneHighlight(zoneId: string, highlight: ZoneHighlight | null): void {
+    const zone = this.state.layoutZones.get(zoneId)
+    if (!zone) {
+      throw new Error(`Zone ${zoneId} not found`)
+    }
+
+    if (!highlight) {
+      zone.border?.destroy()
+      zone.border = undefined
+      zone.highlight = undefined
+      return
+    }
+
+    if (!zone.border) {
+      zone.border = new Graphics()
+      zone.border.label = `zone-border-${zone.id}`
+      // Keep the border above videos placed later
+      zone.border.zIndex = 1
+      zone.container.sortableChildren = true
+      zone.container.addChild(zone.border)
+    }
+    zone.highlight = { ...highlight }
+    this.drawZoneBorder(zone)
+  }
+
+  /**
+   * Change how a zone fits its video: fit mode, focal point and corner radius
+   */
+  setZoneFit(zoneId: string, fit: Partial<ZoneFit>): void {
+    const zone = this.state.layoutZones.get(zoneId)
+    if (!zone) {
+      throw new Error(`Zone ${zoneId} not found`)
+    }
+
+    zone.fit = { ...zone.fit, ...fit }
+    this.drawZoneMask(zone)
+    this.drawZoneBorder(zone)
+    if (zone.videoTexture) {
+      this.fitVideoToZone(zone.videoTexture, zone)
+    }
+
+    this.emit('layout-changed', { zoneId, fit: zone.fit })
+  }
+
+  /**
+   * Move and resize a zone, refitting its video. Call syncOverlayZones
+   * once the zones of a frame have moved.
+   */
+  private setZoneRect(zone: LayoutZone, rect: ZoneRect): void {
+    zone.x = rect.x
+    zone.y = rect.y
+    zone.width = rect.width
+    zone.height = rect.height
+    zone.container.x = rect.x
+    zone.container.y = rect.y
+    this.drawZoneMask(zone)
+    this.drawZoneBorder(zone)
+
+    if (zone.videoTexture) {
+      this.fitVideoToZone(zone.videoTexture, zone)
+    }
+  }
+
+  /**
+   * Let overlays attached to zones follow them
+   */
+  private syncOverlayZones(): void {
+    this.overlayManager?.setZones(this.state.layoutZones.values())
   }
 
   /**
@@ -282,7 +606,8 @@ export class CanvasManager {
     y: number,
     width: number,
     height: number,
-    layerName = 'video'
+    layerName = 'video',
+    fit: Partial<ZoneFit> = {}
   ): LayoutZone {
     const layer = this.state.layers.get(layerName)
     if (!layer) {
@@ -294,6 +619,11 @@ export class CanvasManager {
     container.y = y
     container.label = `zone-${id}`
 
+    const mask = new Graphics()
+    mask.label = `zone-mask-${id}`
+    container.addChild(mask)
+    container.mask = mask
+
     layer.container.addChild(container)
 
     const zone: LayoutZone = {
@@ -303,26 +633,44 @@ export class CanvasManager {
       width,
       height,
       container,
-      zIndex: layer.zIndex
+      zIndex: layer.zIndex,
+      fit: {
+        fitMode: fit.fitMode ?? DEFAULT_ZONE_FIT.fitMode,
+        focalPoint: { ...(fit.focalPoint ?? DEFAULT_ZONE_FIT.focalPoint) },
+        cornerRadius: fit.cornerRadius ?? DEFAULT_ZONE_FIT.cornerRadius
+      },
+      mask
     }
+    this.drawZoneMask(zone)
 
     this.state.layoutZones.set(id, zone)
+    this.syncOverlayZones()
     return zone
   }
 
   /**
-   * Apply layout preset
+   * Apply layout preset, optionally animating from the current layout
    */
-  applyLayout(layoutId: string): void {
-    const layout = LAYOUT_PRESETS.find(l => l.id === layoutId)
+  applyLayout(layoutOrId: string | LayoutPreset, transition?: LayoutTransitionOptions): void {
+    const layout = typeof layoutOrId === 'string' ? getLayoutPreset(layoutOrId) : layoutOrId
     if (!layout) {
-      throw new Error(`Layout ${layoutId} not found`)
+      throw new Error(`Layout ${layoutOrId} not found`)
+    }
+    this.autoGridTransition = layout.autoGrid ? transition : undefined
+
+    // Settle a running transition before switching again
+    this.layoutTransition?.finish()
+
+    if (transition && this.state.app) {
+      this.transitionToLayout(layout, transition)
+      return
     }
 
     // Clear existing layout zones
     for (const [zoneId] of this.state.layoutZones) {
       this.removeLayoutZone(zoneId)
     }
+    this.pendingZoneAssignments.clear()
 
     // Calculate responsive positions
     const zones = calculateZonePositions(layout.zones, this.state.width, this.state.height)
@@ -334,12 +682,151 @@ export class CanvasManager {
         zoneData.x,
         zoneData.y,
         zoneData.width,
-        zoneData.height
+        zoneData.height,
+        'video',
+        zoneData
+      )
+    })
+
+    this.currentLayout = layout
+    this.emit('layout-changed', { layout: layout.id, zones: zones.length })
+  }
+
+  /**
+   * Animate from the current zones to a new layout. Videos are carried
+   * over to matching zones so assignments survive the switch.
+   */
+  private transitionToLayout(layout: LayoutPreset, options: LayoutTransitionOptions): void {
+    const { duration, easing, mode } = { ...DEFAULT_LAYOUT_TRANSITION, ...options }
+    const zones = calculateZonePositions(layout.zones, this.state.width, this.state.height)
+    const previous = Array.from(this.state.layoutZones.values())
+    const matches = matchZones(previous, zones.map(zone => zone.id))
+    const matched = new Set(matches.values())
+    const from = this.currentLayout?.id ?? null
+
+    // Outgoing zones leave the state now but stay on stage until the end
+    this.state.layoutZones.clear()
+    this.pendingZoneAssignments.clear()
+
+    const moving: Array<{ zone: LayoutZone; from: ZoneRect; to: LayoutZoneDefinition }> = []
+    const fadingIn: LayoutZone[] = []
+    const fadingOut = previous.filter(zone => mode === 'crossfade' || !matched.has(zone))
+
+    zones.forEach(zoneData => {
+      const zone = this.createLayoutZone(
+        zoneData.id,
+        zoneData.x,
+        zoneData.y,
+        zoneData.width,
+        zoneData.height,
+        'video',
+        zoneData
       )
+      const source = matches.get(zoneData.id)
+
+      if (source?.videoTexture) {
+        if (mode === 'crossfade') {
+          // Stand-in sprite so the outgoing zone keeps showing the video
+          const { sprite } = source.videoTexture
+          const ghost = new Sprite(sprite.texture)
+          ghost.scale.copyFrom(sprite.scale)
+          ghost.position.copyFrom(sprite.position)
+          source.container.addChild(ghost)
+        }
+        this.placeVideoInZone(source.videoTexture, zone)
+        source.videoTexture = undefined
+      }
+      // Carry a speaking indicator over; move mode destroys the source border with its zone
+      if (source?.highlight) {
+        this.setZoneHighlight(zone.id, source.highlight)
+      }
+
+      if (mode === 'move' && source) {
+        // The new zone takes over; its video sprite has moved there already
+        source.container.parent?.removeChild(source.container)
+        source.container.destroy({ children: true })
+        const { x, y, width, height } = source
+        moving.push({ zone, from: { x, y, width, height }, to: zoneData })
+      } else {
+        fadingIn.push(zone)
+      }
     })
 
+    // Zones the new layout doesn't have are gone already
+    this.syncOverlayZones()
     this.currentLayout = layout
     this.emit('layout-changed', { layout: layout.id, zones: zones.length })
+    this.emit('layout-transition-start', { from, to: layout.id, mode, duration })
+
+    const running = tween(this.state.app!.ticker, {
+      duration,
+      easing,
+      onUpdate: progress => {
+        moving.forEach(({ zone, from, to }) => this.setZoneRect(zone, lerpRect(from, to, progress)))
+        if (moving.length > 0) {
+          this.syncOverlayZones()
+        }
+        fadingIn.forEach(zone => (zone.container.alpha = progress))
+        fadingOut.forEach(zone => (zone.container.alpha = 1 - progress))
+      },
+      onComplete: () => {
+        fadingOut.forEach(zone => {
+          // Videos that found no new zone stay alive, just unassigned
+          if (zone.videoTexture) {
+            zone.container.removeChild(zone.videoTexture.sprite)
+          }
+          zone.container.parent?.removeChild(zone.container)
+          zone.container.destroy({ children: true })
+        })
+        this.layoutTransition = null
+        this.emit('layout-transition-end', { layout: layout.id })
+      }
+    })
+    this.layoutTransition = running.done ? null : running
+  }
+
+  /**
+   * Regenerate an auto-grid layout so it has one tile per video texture,
+   * keeping on-screen videos first and in their current order
+   */
+  private refreshAutoGrid(): void {
+    const options = this.currentLayout?.autoGrid
+    if (!options) return
+
+    const { videoTextures, layoutZones } = this.state
+    const shown = Array.from(layoutZones.values())
+      .map(zone => zone.videoTexture?.id)
+      .filter((id): id is string => !!id && videoTextures.has(id))
+    const order = Array.from(new Set([...shown, ...videoTextures.keys()]))
+    const count = Math.max(1, order.length)
+    const resized = count !== this.currentLayout!.maxParticipants
+    const misplaced = (videoId: string, index: number) =>
+      layoutZones.get(`tile-${index + 1}`)?.videoTexture?.id !== videoId
+
+    // Same tiles showing the same videos: nothing to transition or announce
+    if (!resized && !order.some(misplaced)) return
+
+    if (resized) {
+      this.applyLayout(
+        createGridLayout({ ...options, participantCount: count }),
+        this.autoGridTransition
+      )
+    }
+
+    order.forEach((videoId, index) => {
+      const zone = layoutZones.get(`tile-${index + 1}`)
+      if (zone && misplaced(videoId, index)) {
+        this.placeVideoInZone(videoTextures.get(videoId)!, zone)
+      }
+    })
+    this.emit('layout-changed', { layout: this.currentLayout!.id, zones: layoutZones.size })
+  }
+
+  /**
+   * Whether a layout transition is currently running
+   */
+  isTransitioning(): boolean {
+    return this.layoutTransition !== null
   }
 
   /**
@@ -353,7 +840,7 @@ export class CanvasManager {
    * Get available layout presets
    */
   getAvailableLayouts(): LayoutPreset[] {
-    return LAYOUT_PRESETS
+    return listLayouts()
   }
 
   /**
@@ -373,75 +860,382 @@ export class CanvasManager {
       }
       
       this.state.layoutZones.delete(id)
+      this.syncOverlayZones()
     }
   }
 
+  /**
+   * Resolve `asset:<id>` image sources through a storage adapter, e.g.
+   * `manager.setAssetResolver(id => storage.getAssetUrl(id))`
+   */
+  setAssetResolver(resolver: AssetResolver | null): void {
+    this.assetResolver = resolver
+    this.overlayManager?.setAssetResolver(resolver)
+  }
+
+  /**
+   * Theme lower thirds from design tokens, e.g. `useTheme().tokens.value`
+   */
+  setOverlayTheme(tokens: ThemeTokens): void {
+    this.overlayTheme = tokens
+    this.overlayManager?.setTheme(tokens)
+  }
+
   /**
    * Create overlay
    */
-  async createOverlay(config: AnyOverlayConfig): Promise<void> {
+  async createOverlay(
+    config: AnyOverlayConfig,
+    options: CreateOverlayOptions = {}
+  ): Promise<void> {
     if (!this.overlayManager) {
       throw new Error('Overlay manager not initialized')
     }
 
-    switch (config.type) {
-      case 'text':
-        this.overlayManager.createTextOverlay(config)
-        break
-      case 'image':
-      case 'logo':
-        await this.overlayManager.createImageOverlay(config)
-        break
-      case 'lower-third':
-        this.overlayManager.createLowerThird(config)
-        break
+    try {
+      switch (config.type) {
+        case 'text':
+          this.overlayManager.createTextOverlay(config, options)
+          break
+        case 'image':
+        case 'logo':
+          await this.overlayManager.createImageOverlay(config, options)
+          break
+        case 'lower-third':
+          this.overlayManager.createLowerThird(config, options)
+          break
+        case 'countdown':
+        case 'stopwatch':
+        case 'clock':
+          this.overlayManager.createTimerOverlay(config, options)
+          break
+        case 'ticker':
+          this.overlayManager.createTickerOverlay(config, options)
+          break
+        case 'video':
+        case 'animated-image':
+          await this.overlayManager.createMediaOverlay(config, options)
+          break
+      }
+    } catch (error) {
+      const canvasError = {
+        code: 'OVERLAY_CREATION_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: Date.now(),
+        context: { config }
+      }
+      this.emit('error', canvasError)
+      throw error
     }
 
     this.emit('overlay-created', { id: config.id, type: config.type })
   }
 
   /**
-   * Update overlay
+   * Update any overlay property. Resolves once a new image source has
+   * loaded and any show or hide animation has played, then emits
+   * overlay-updated. Rejects for an unknown overlay or a patch that cannot
+   * be applied, so fire-and-forget callers should catch.
    */
-  updateOverlay(id: string, updates: Partial<AnyOverlayConfig>): void {
+  async updateOverlay(id: string, updates: Partial<AnyOverlayConfig>): Promise<void> {
     if (!this.overlayManager) return
 
-    if (updates.x !== undefined || updates.y !== undefined) {
-      this.overlayManager.moveOverlay(
-        id,
-        updates.x ?? 0,
-        updates.y ?? 0
-      )
+    await this.overlayManager.updateOverlay(id, updates)
+    this.emit('overlay-updated', { id, updates })
+  }
+
+  /**
+   * Play a paused video or animated image overlay
+   */
+  playOverlay(id: string): Promise<void> {
+    return this.updateOverlay(id, { paused: false })
+  }
+
+  /**
+   * Pause a video or animated image overlay on its current frame
+   */
+  pauseOverlay(id: string): Promise<void> {
+    return this.updateOverlay(id, { paused: true })
+  }
+
+  /**
+   * Get an overlay's effective config, including every update applied
+   */
+  getOverlayConfig(id: string): AnyOverlayConfig | undefined {
+    return this.overlayManager?.getOverlayConfig(id)
+  }
+
+  /**
+   * Show an overlay, playing its enter animation or the one given
+   */
+  showOverlay(id: string, animation?: OverlayAnimation): Promise<void> {
+    if (!this.overlayManager) return Promise.resolve()
+
+    const shown = this.overlayManager.showOverlay(id, animation)
+    this.emit('overlay-updated', { id, updates: { visible: true } })
+    return shown
+  }
+
+  /**
+   * Hide an overlay, playing its exit animation or the one given
+   */
+  hideOverlay(id: string, animation?: OverlayAnimation): Promise<void> {
+    if (!this.overlayManager) return Promise.resolve()
+
+    const hidden = this.overlayManager.hideOverlay(id, animation)
+    this.emit('overlay-updated', { id, updates: { visible: false } })
+    return hidden
+  }
+
+  /**
+   * Remove overlay, resolving once its exit animation has played
+   */
+  removeOverlay(id: string, animate = true): Promise<void> {
+    if (!this.overlayManager) return Promise.resolve()
+    
+    const removed = this.overlayManager.removeOverlay(id, animate)
+    this.emit('overlay-removed', { id })
+    return removed
+  }
+
+  /**
+   * Take every overlay off this canvas with its live state, e.g. to put
+   * it on another canvas with attachOverlays
+   */
+  detachOverlays(): DetachedOverlay[] {
+    const detached = this.overlayManager?.detachOverlays() ?? []
+    detached.forEach(({ config }) => this.emit('overlay-removed', { id: config.id }))
+    return detached
+  }
+
+  /**
+   * Put overlays detached from another canvas on this one. Timers, tickers
+   * and media carry on from where they were.
+   */
+  attachOverlays(detached: DetachedOverlay[]): void {
+    if (!this.overlayManager) {
+      throw new Error('Overlay manager not initialized')
     }
 
-    if (updates.visible !== undefined) {
-      this.overlayManager.setOverlayVisibility(id, updates.visible)
+    this.overlayManager.attachOverlays(detached)
+    detached.forEach(({ config }) => {
+      this.emit('overlay-created', { id: config.id, type: config.type })
+    })
+  }
+
+  /**
+   * Re-emit a finished countdown and run its onFinish action
+   */
+  private handleCountdownFinished = (event: CanvasEvent): void => {
+    const { id, onFinish } = event.data as { id: string; onFinish: OverlayAction | null }
+    this.emit('countdown-finished', { id, action: onFinish })
+    if (onFinish) {
+      this.runOverlayAction(id, onFinish)
     }
+  }
 
-    // Type-specific updates
-    if (updates.type === 'text' && 'content' in updates) {
-      this.overlayManager.updateTextOverlay(id, updates.content as string)
+  /**
+   * Re-emit a one-shot video or animation that ended and run its onEnd
+   * action
+   */
+  private handleMediaEnded = (event: CanvasEvent): void => {
+    const { id, onEnd } = event.data as { id: string; onEnd: OverlayAction | null }
+    this.emit('overlay-ended', { id, action: onEnd })
+    if (onEnd) {
+      this.runOverlayAction(id, onEnd)
     }
+  }
 
-    if (updates.type === 'lower-third' && ('title' in updates || 'subtitle' in updates)) {
-      this.overlayManager.updateLowerThird(
-        id,
-        updates.title as string,
-        updates.subtitle as string
+  /**
+   * Re-emit a video overlay's element so its audio can be routed, e.g.
+   * into an AudioMixer
+   */
+  private handleMediaCreated = (event: CanvasEvent): void => {
+    this.emit('overlay-media-created', event.data)
+  }
+
+  private handleMediaRemoved = (event: CanvasEvent): void => {
+    this.emit('overlay-media-removed', event.data)
+  }
+
+  /**
+   * Re-emit a media overlay the browser refused to play, e.g. to ask for
+   * a click before calling playOverlay again
+   */
+  private handleMediaBlocked = (event: CanvasEvent): void => {
+    this.emit('overlay-media-blocked', event.data)
+  }
+
+  /**
+   * Run an action on behalf of an overlay, e.g. when its countdown ends.
+   * This runs on the ticker, so failures are emitted as 'error' events.
+   */
+  runOverlayAction(overlayId: string, action: OverlayAction): void {
+    const report = (error: unknown) => {
+      const canvasError = {
+        code: 'OVERLAY_ACTION_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: Date.now(),
+        context: { overlayId, action }
+      }
+      this.emit('error', canvasError)
+    }
+
+    try {
+      switch (action.type) {
+        case 'hide':
+          this.hideOverlay(overlayId).catch(report)
+          break
+        case 'remove':
+          this.removeOverlay(overlayId).catch(report)
+          break
+        case 'show-overlay':
+          this.showOverlay(action.overlayId).catch(report)
+          break
+        case 'hide-overlay':
+          this.hideOverlay(action.overlayId).catch(report)
+          break
+        case 'apply-layout':
+          this.applyLayout(action.layoutId, action.transition)
+          break
+      }
+    } catch (error) {
+      report(error)
+    }
+  }
+
+  /**
+   * Export layout, zones and overlays as a JSON-serializable scene document
+   */
+  exportScene(): SceneDocument {
+    const { width, height } = this.state
+    const zones = Array.from(this.state.layoutZones.values(), zone => {
+      const layer = Array.from(this.state.layers.values())
+        .find(l => l.container === zone.container.parent)
+      return serializeZone(zone, width, height, layer?.name ?? 'video')
+    })
+
+    const overlays = (this.overlayManager?.getOverlayConfigs() ?? [])
+      .filter(config => {
+        if (isSerializableOverlay(config)) return true
+        console.warn(`Overlay ${config.id} can't be written to JSON and was left out of the scene`)
+        return false
+      })
+
+    return {
+      version: SCENE_VERSION,
+      createdAt: Date.now(),
+      canvas: { width, height, backgroundColor: this.config.backgroundColor },
+      layout: this.currentLayout ? structuredClone(this.currentLayout) : null,
+      zones,
+      overlays
+    }
+  }
+
+  /**
+   * Rebuild layout, zones and overlays from a scene document.
+   * Zones referencing videos that don't exist yet are filled once
+   * a texture with that id is created.
+   */
+  async importScene(input: unknown): Promise<void> {
+    if (!this.state.app) {
+      throw new Error('Canvas not initialized')
+    }
+
+    const scene = migrateScene(input)
+    const { width, height } = this.state
+    // Check everything that could fail before tearing down the current scene
+    const missingLayer = scene.zones.find(zone => !this.state.layers.has(zone.layer))
+    if (missingLayer) {
+      throw new Error(`Layer ${missingLayer.layer} not found`)
+    }
+
+    for (const [zoneId] of this.state.layoutZones) {
+      this.removeLayoutZone(zoneId)
+    }
+    this.pendingZoneAssignments.clear()
+
+    this.config.backgroundColor = scene.canvas.backgroundColor
+    this.state.app.renderer.background.color = scene.canvas.backgroundColor
+
+    for (const zone of scene.zones) {
+      const layoutZone = this.createLayoutZone(
+        zone.id,
+        zone.x * width,
+        zone.y * height,
+        zone.width * width,
+        zone.height * height,
+        zone.layer,
+        zone
       )
+
+      if (!zone.videoId) continue
+      const videoTexture = this.state.videoTextures.get(zone.videoId)
+      if (videoTexture) {
+        // Placed directly so an auto director treats these as a starting point, not pins
+        this.placeVideoInZone(videoTexture, layoutZone)
+      } else {
+        this.pendingZoneAssignments.set(zone.videoId, zone.id)
+      }
     }
+    this.currentLayout = scene.layout
 
-    this.emit('overlay-updated', { id, updates })
+    this.overlayManager?.clearAllOverlays()
+    for (const overlay of scene.overlays) {
+      await this.createOverlay(overlay)
+    }
+
+    this.emit('scene-imported', {
+      version: scene.version,
+      zones: scene.zones.length,
+      overlays: scene.overlays.length
+    })
+    this.emit('layout-changed', { layout: scene.layout?.id ?? null, zones: scene.zones.length })
   }
 
   /**
-   * Remove overlay
+   * Capture the rendered canvas as a MediaStream for recording or
+   * restreaming. Calling it again returns the running capture with the
+   * requested audio added; asking for a different frame rate throws.
    */
-  removeOverlay(id: string): void {
-    if (!this.overlayManager) return
-    
-    this.overlayManager.removeOverlay(id)
-    this.emit('overlay-removed', { id })
+  captureStream(options: CaptureStreamOptions = {}): MediaStream {
+    if (!this.state.app) {
+      throw new Error('Canvas not initialized')
+    }
+
+    const running = this.output !== null
+    const output = this.output
+      ?? new CanvasOutputStream(this.state.app.canvas as HTMLCanvasElement, options)
+    if (running) {
+      output.extend(options)
+    }
+    this.output = output
+    for (const videoTexture of this.state.videoTextures.values()) {
+      output.addAudioSource(videoTexture.id, videoTexture.source.stream)
+    }
+
+    if (!running) {
+      this.emit('capture-started', { frameRate: options.frameRate ?? 30 })
+    }
+    return output.stream
+  }
+
+  /**
+   * Whether the canvas is currently being captured
+   */
+  isCapturing(): boolean {
+    return this.output !== null
+  }
+
+  /**
+   * Stop the canvas capture started by captureStream
+   */
+  stopCapture(): void {
+    if (!this.output) return
+
+    this.output.stop()
+    this.output = null
+    this.emit('capture-stopped')
   }
 
   /**
@@ -509,49 +1303,31 @@ export class CanvasManager {
     }
   }
 
-  /**
-   * Event system
-   */
-  on(eventType: string, listener: CanvasEventListener): void {
-    if (!this.eventListeners.has(eventType)) {
-      this.eventListeners.set(eventType, [])
-    }
-    this.eventListeners.get(eventType)!.push(listener)
-  }
-
-  off(eventType: string, listener: CanvasEventListener): void {
-    const listeners = this.eventListeners.get(eventType)
-    if (listeners) {
-      const index = listeners.indexOf(listener)
-      if (index > -1) {
-        listeners.splice(index, 1)
-      }
-    }
-  }
-
-  private emit(type: string, data?: unknown): void {
-    const listeners = this.eventListeners.get(type)
-    if (listeners) {
-      const event: CanvasEvent = {
-        type: type as CanvasEvent['type'],
-        data,
-        timestamp: Date.now()
-      }
-      listeners.forEach(listener => listener(event))
-    }
-  }
-
   /**
    * Resize canvas
    */
   resize(width: number, height: number): void {
     if (!this.state.app) return
 
+    // Zones keep their place in the layout; attached overlays follow them
+    this.layoutTransition?.finish()
+    const scaleX = width / this.state.width
+    const scaleY = height / this.state.height
+    this.state.layoutZones.forEach(zone => this.setZoneRect(zone, {
+      x: zone.x * scaleX,
+      y: zone.y * scaleY,
+      width: zone.width * scaleX,
+      height: zone.height * scaleY
+    }))
+    this.syncOverlayZones()
+
     this.state.app.renderer.resize(width, height)
     this.state.width = width
     this.state.height = height
     this.config.width = width
     this.config.height = height
+    this.overlayManager?.setViewport(width, height)
+    this.output?.requestFrame()
 
     this.emit('layout-changed', { width, height })
   }
@@ -562,6 +1338,14 @@ export class CanvasManager {
   destroy(): void {
     if (!this.state.isInitialized) return
 
+    // Stop any running layout transition
+    this.layoutTransition?.cancel()
+    this.layoutTransition = null
+    this.disableAutoDirector()
+
+    // Stop canvas capture
+    this.stopCapture()
+
     // Clear performance monitoring
     if (this.performanceMonitor.interval) {
       clearInterval(this.performanceMonitor.interval)
@@ -569,6 +1353,12 @@ export class CanvasManager {
 
     // Destroy video textures
     for (const videoTexture of this.state.videoTextures.values()) {
+      if (videoTexture.shared) {
+        // Detach so destroying the stage leaves the owner's texture intact
+        videoTexture.sprite.parent?.removeChild(videoTexture.sprite)
+        videoTexture.sprite.destroy()
+        continue
+      }
       videoTexture.texture.destroy()
       if (videoTexture.source.element) {
         videoTexture.source.element.srcObject = null
@@ -585,6 +1375,11 @@ export class CanvasManager {
       this.overlayManager.destroy()
     }
 
+    // Stop refitting videos whose elements outlive the canvas
+    this.state.videoTextures.forEach(({ source, onResize }) => {
+      if (onResize) source.element?.removeEventListener('resize', onResize)
+    })
+
     // Destroy Pixi application
     if (this.state.app) {
       this.state.app.destroy(true, true)
@@ -597,6 +1392,7 @@ export class CanvasManager {
     this.state.videoTextures.clear()
     this.state.layoutZones.clear()
     this.texturePool.textures.clear()
+    this.pendingZoneAssignments.clear()
 
     this.emit('destroyed')
   }
@@ -0,0 +1,372 @@
+/**
+ * Cue Scheduler for VueStream
+ *
+ * Runs a preprogrammed show: cues create, update, show, hide and remove
+ * overlays or switch layouts at set times on a show clock that can be
+ * paused, seeked and skipped. Time comes from an injectable clock.
+ */
+
+import { EventEmitter } from '../events'
+import type { CanvasManager } from './CanvasManager'
+import type { AnyOverlayConfig } from './overlays'
+import type { OverlayAnimation } from './overlayAnimations'
+import type { LayoutTransitionOptions } from './transitions'
+
+export type CueAction =
+  | { type: 'create-overlay'; config: AnyOverlayConfig }
+  | { type: 'update-overlay'; overlayId: string; updates: Partial<AnyOverlayConfig> }
+  | { type: 'remove-overlay'; overlayId: string }
+  | { type: 'show-overlay'; overlayId: string; animation?: OverlayAnimation }
+  | { type: 'hide-overlay'; overlayId: string; animation?: OverlayAnimation }
+  | { type: 'apply-layout'; layoutId: string; transition?: LayoutTransitionOptions }
+
+interface CueBase {
+  id: string
+  action: CueAction
+  // Undo the action this many ms after the cue's time: created overlays
+  // are removed and shown ones hidden
+  duration?: number
+}
+
+export type Cue = CueBase & (
+  // Milliseconds from the start of the show
+  | { at: number }
+  // Milliseconds after the previous cue in the timeline
+  | { offset: number }
+  // Fired only through trigger()
+  | { manual: true }
+)
+
+export interface CueClock {
+  // Milliseconds, from any origin
+  now: () => number
+  setInterval: (callback: () => void, ms: number) => number
+  clearInterval: (handle: number) => void
+}
+
+export interface CueSchedulerOptions {
+  clock?: CueClock
+  // How often due cues are checked, in ms
+  interval?: number
+}
+
+// The parts of the canvas cues act on
+export type CueTarget = Pick<
+  CanvasManager,
+  | 'createOverlay'
+  | 'updateOverlay'
+  | 'removeOverlay'
+  | 'showOverlay'
+  | 'hideOverlay'
+  | 'applyLayout'
+  | 'getOverlayConfig'
+>
+
+export const systemClock: CueClock = {
+  now: () => performance.now(),
+  setInterval: (callback, ms) => window.setInterval(callback, ms),
+  clearInterval: handle => window.clearInterval(handle)
+}
+
+/**
+ * Work out when each cue fires, in show time. Offsets count from the
+ * previous cue's time; after a manual cue, from when it was triggered.
+ * Null means not scheduled: manual cues, and offsets after a manual cue
+ * that has not been triggered.
+ */
+export function resolveCueTimes(
+  cues: Cue[],
+  fired: Map<string, number> = new Map()
+): Map<string, number | null> {
+  const times = new Map<string, number | null>()
+  let previous: number | null = 0
+
+  cues.forEach(cue => {
+    let time: number | null
+    if ('at' in cue) {
+      time = cue.at
+    } else if ('offset' in cue) {
+      time = previous === null ? null : previous + cue.offset
+    } else {
+      time = fired.get(cue.id) ?? null
+    }
+    times.set(cue.id, 'manual' in cue ? null : time)
+    previous = time
+  })
+  return times
+}
+
+export class CueScheduler extends EventEmitter {
+  private target: CueTarget
+  private clock: CueClock
+  private interval: number
+  private cues: Cue[] = []
+  // Cue id -> show time it fired at
+  private fired: Map<string, number> = new Map()
+  // Cues with a duration waiting to be undone
+  private ends: Array<{ cue: Cue; time: number }> = []
+  // Show time when the clock was last started, paused or seeked
+  private elapsed = 0
+  // Clock time the show resumed at; null while paused
+  private startedAt: number | null = null
+  private timer: number | null = null
+  // Actions run one at a time so a cue can build on the one before
+  private queue: Promise<void> = Promise.resolve()
+
+  constructor(target: CueTarget, cues: Cue[] = [], options: CueSchedulerOptions = {}) {
+    super()
+    this.target = target
+    this.clock = options.clock ?? systemClock
+    this.interval = options.interval ?? 100
+    this.setCues(cues)
+  }
+
+  /**
+   * Replace the timeline. The show keeps its position; cues that already
+   * fired stay fired.
+   */
+  setCues(cues: Cue[]): void {
+    const ids = new Set<string>()
+    cues.forEach(cue => {
+      if (ids.has(cue.id)) {
+        throw new Error(`Duplicate cue id ${cue.id}`)
+      }
+      ids.add(cue.id)
+    })
+
+    this.cues = cues.map(cue => ({ ...cue }))
+    Array.from(this.fired.keys())
+      .filter(id => !ids.has(id))
+      .forEach(id => this.fired.delete(id))
+    this.ends = this.ends.filter(end => ids.has(end.cue.id))
+    if (this.isRunning()) this.tick()
+  }
+
+  getCues(): Cue[] {
+    return this.cues.map(cue => ({ ...cue }))
+  }
+
+  /**
+   * Get each cue's show time; null for cues that are not scheduled
+   */
+  getSchedule(): Map<string, number | null> {
+    return resolveCueTimes(this.cues, this.fired)
+  }
+
+  hasFired(id: string): boolean {
+    return this.fired.has(id)
+  }
+
+  /**
+   * Current show time in ms
+   */
+  getPosition(): number {
+    return this.startedAt === null
+      ? this.elapsed
+      : this.elapsed + this.clock.now() - this.startedAt
+  }
+
+  isRunning(): boolean {
+    return this.startedAt !== null
+  }
+
+  /**
+   * Start or resume the show clock
+   */
+  start(): void {
+    if (this.isRunning()) return
+
+    this.startedAt = this.clock.now()
+    this.timer = this.clock.setInterval(() => this.tick(), this.interval)
+    this.emit('started', { position: this.elapsed })
+    this.tick()
+  }
+
+  pause(): void {
+    if (!this.isRunning()) return
+
+    this.elapsed = this.getPosition()
+    this.startedAt = null
+    this.stopTimer()
+    this.emit('paused', { position: this.elapsed })
+  }
+
+  /**
+   * Pause and rewind to the start without undoing anything
+   */
+  stop(): void {
+    this.pause()
+    this.elapsed = 0
+    this.fired.clear()
+    this.ends = []
+  }
+
+  /**
+   * Jump to a show time. Cues before it are marked as fired without
+   * running; cues after it fire again when reached. Durations that end
+   * before the new time, and those of cues after it, are undone now.
+   */
+  seek(time: number): void {
+    const position = Math.max(0, time)
+    this.elapsed = position
+    if (this.isRunning()) {
+      this.startedAt = this.clock.now()
+    }
+
+    this.fired.forEach((firedAt, id) => {
+      if (firedAt > position) this.fired.delete(id)
+    })
+    const times = resolveCueTimes(this.cues, this.fired)
+    this.cues.forEach(cue => {
+      const cueTime = times.get(cue.id)
+      if (cueTime != null && cueTime < position && !this.fired.has(cue.id)) {
+        this.fired.set(cue.id, cueTime)
+        this.emit('cue-skipped', { id: cue.id, cue, time: cueTime })
+      }
+    })
+
+    const undone = this.ends.filter(end => end.time <= position || !this.fired.has(end.cue.id))
+    this.ends = this.ends.filter(end => !undone.includes(end))
+    undone.forEach(end => this.end(end.cue))
+
+    this.emit('seeked', { position })
+    if (this.isRunning()) this.tick()
+  }
+
+  /**
+   * Jump to the next scheduled cue and fire it. Returns the cue, or null
+   * when none is left.
+   */
+  skip(): Cue | null {
+    const times = resolveCueTimes(this.cues, this.fired)
+    let next: { cue: Cue; time: number } | null = null
+    for (const cue of this.cues) {
+      const time = times.get(cue.id)
+      if (time == null || this.fired.has(cue.id)) continue
+      if (!next || time < next.time) next = { cue, time }
+    }
+    if (!next) return null
+
+    this.seek(Math.max(next.time, this.getPosition()))
+    this.tick()
+    return next.cue
+  }
+
+  /**
+   * Fire a cue now, whatever its timing. Manual cues only fire this way.
+   */
+  trigger(id: string): void {
+    const cue = this.cues.find(c => c.id === id)
+    if (!cue) {
+      throw new Error(`Cue ${id} not found`)
+    }
+    this.fire(cue, this.getPosition())
+    // Cues at a zero offset from this one follow right away
+    this.tick()
+  }
+
+  /**
+   * Fire due cues and undo expired durations. Runs on the clock's
+   * interval while started.
+   */
+  tick(): void {
+    const position = this.getPosition()
+
+    const expired = this.ends.filter(end => end.time <= position)
+    this.ends = this.ends.filter(end => end.time > position)
+    expired.forEach(end => this.end(end.cue))
+
+    const times = resolveCueTimes(this.cues, this.fired)
+    this.cues.forEach(cue => {
+      const time = times.get(cue.id)
+      if (time != null && time <= position && !this.fired.has(cue.id)) {
+        this.fire(cue, time)
+      }
+    })
+  }
+
+  /**
+   * Resolves once every action fired so far has run
+   */
+  whenIdle(): Promise<void> {
+    return this.queue
+  }
+
+  /**
+   * Stop the clock and forget the timeline
+   */
+  destroy(): void {
+    this.stop()
+    this.cues = []
+  }
+
+  private fire(cue: Cue, time: number): void {
+    this.fired.set(cue.id, time)
+    if (cue.duration !== undefined) {
+      this.ends = this.ends.filter(end => end.cue.id !== cue.id)
+      this.ends.push({ cue, time: time + cue.duration })
+    }
+
+    this.emit('cue-fired', { id: cue.id, cue, time, position: this.getPosition() })
+    this.enqueue(cue, () => this.run(cue.action))
+  }
+
+  /**
+   * Undo a cue once its duration is over
+   */
+  private end(cue: Cue): void {
+    const { action } = cue
+    this.emit('cue-ended', { id: cue.id, cue, position: this.getPosition() })
+    this.enqueue(cue, async () => {
+      if (action.type === 'create-overlay') {
+        await this.target.removeOverlay(action.config.id)
+      } else if (action.type === 'show-overlay') {
+        await this.target.hideOverlay(action.overlayId, action.animation)
+      }
+    })
+  }
+
+  private enqueue(cue: Cue, run: () => Promise<void>): void {
+    this.queue = this.queue.then(run).catch(error => {
+      this.emit('cue-failed', {
+        id: cue.id,
+        cue,
+        error: error instanceof Error ? error.message : String(error)
+      })
+    })
+  }
+
+  private async run(action: CueAction): Promise<void> {
+    switch (action.type) {
+      case 'create-overlay':
+        // Fired again after a seek back; start over instead of duplicating
+        if (this.target.getOverlayConfig(action.config.id)) {
+          await this.target.removeOverlay(action.config.id, false)
+        }
+        await this.target.createOverlay(action.config)
+        break
+      case 'update-overlay':
+        await this.target.updateOverlay(action.overlayId, action.updates)
+        break
+      case 'remove-overlay':
+        await this.target.removeOverlay(action.overlayId)
+        break
+      case 'show-overlay':
+        await this.target.showOverlay(action.overlayId, action.animation)
+        break
+      case 'hide-overlay':
+        await this.target.hideOverlay(action.overlayId, action.animation)
+        break
+      case 'apply-layout':
+        this.target.applyLayout(action.layoutId, action.transition)
+        break
+    }
+  }
+
+  private stopTimer(): void {
+    if (this.timer !== null) {
+      this.clock.clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * Program/Preview Manager for VueStream
+ *
+ * Coordinates a preview canvas for staging and a program canvas that is
+ * on air. Both share the same video textures.
+ */
+
+import { Graphics, Rectangle, Sprite, type Ticker } from 'pixi.js'
+import { CanvasManager } from './CanvasManager'
+import { tween, type Easing, type Tween } from './animation'
+import type { CanvasConfig, VideoTexture, VideoTextureSource } from './types'
+
+export type TakeTransitionType = 'cut' | 'fade' | 'wipe'
+
+export interface TakeOptions {
+  transition?: TakeTransitionType
+  duration?: number
+  easing?: Easing
+  // Edge the wipe starts from
+  direction?: 'left' | 'right'
+  // Move the outgoing program into preview, like a flip-flop switcher
+  swap?: boolean
+}
+
+const DEFAULT_TAKE_OPTIONS: Required<TakeOptions> = {
+  transition: 'cut',
+  duration: 500,
+  easing: 'easeInOut',
+  direction: 'left',
+  swap: true
+}
+
+export class ProgramPreviewManager {
+  readonly program: CanvasManager
+  readonly preview: CanvasManager
+  private takeTween: Tween | null = null
+  private taking = false
+
+  constructor(config: Partial<CanvasConfig> = {}) {
+    this.program = new CanvasManager(config)
+    this.preview = new CanvasManager(config)
+  }
+
+  /**
+   * Initialize both canvases
+   */
+  async initialize(programContainer: HTMLElement, previewContainer: HTMLElement): Promise<void> {
+    await Promise.all([
+      this.program.initialize(programContainer),
+      this.preview.initialize(previewContainer)
+    ])
+  }
+
+  /**
+   * Create a video texture on program and share it with preview
+   */
+  async createVideoTexture(source: VideoTextureSource): Promise<VideoTexture> {
+    const videoTexture = await this.program.createVideoTexture(source)
+    this.preview.attachVideoTexture(videoTexture)
+    return videoTexture
+  }
+
+  /**
+   * Destroy a shared video texture on both canvases
+   */
+  destroyVideoTexture(id: string): void {
+    this.preview.destroyVideoTexture(id)
+    this.program.destroyVideoTexture(id)
+  }
+
+  /**
+   * Whether a take transition is running
+   */
+  isTaking(): boolean {
+    return this.taking
+  }
+
+  /**
+   * Put the preview scene on air. The outgoing program frame is frozen
+   * on top of the new scene and faded or wiped away. Preview overlays go
+   * on air as they are: countdowns, tickers and media keep running.
+   */
+  async take(options: TakeOptions = {}): Promise<void> {
+    if (this.taking) {
+      throw new Error('Take already in progress')
+    }
+
+    const app = this.program.getState().app
+    if (!app) {
+      throw new Error('Program canvas not initialized')
+    }
+
+    this.taking = true
+    try {
+      await this.runTake(app.ticker, { ...DEFAULT_TAKE_OPTIONS, ...options })
+    } finally {
+      this.taking = false
+    }
+  }
+
+  private async runTake(ticker: Ticker, options: Required<TakeOptions>): Promise<void> {
+    const { transition, duration, easing, direction, swap } = options
+    const frozen = transition === 'cut' ? null : this.freezeProgramFrame()
+
+    try {
+      await this.swapScenes(swap)
+      if (frozen) {
+        await this.revealProgram(ticker, frozen, { duration, easing, transition, direction })
+      }
+    } finally {
+      this.takeTween = null
+      if (frozen && !frozen.destroyed) {
+        frozen.destroy({ children: true, texture: true, textureSource: true })
+      }
+    }
+  }
+
+  /**
+   * Put the preview scene and its overlays on program, and the outgoing
+   * program into preview when swapping
+   */
+  private async swapScenes(swap: boolean): Promise<void> {
+    // Overlays move live; the scenes only carry layouts and zones.
+    // Without a swap, the outgoing program overlays are cleared by the import.
+    const previewOverlays = this.preview.detachOverlays()
+    const programOverlays = swap ? this.program.detachOverlays() : []
+    const programScene = this.program.exportScene()
+    const previewScene = this.preview.exportScene()
+
+    try {
+      await this.program.importScene(previewScene)
+      if (swap) {
+        await this.preview.importScene(programScene)
+      }
+    } catch (error) {
+      this.preview.attachOverlays(previewOverlays)
+      this.program.attachOverlays(programOverlays)
+      throw error
+    }
+
+    this.program.attachOverlays(previewOverlays)
+    if (swap) {
+      this.preview.attachOverlays(programOverlays)
+      return
+    }
+
+    // Preview keeps a copy of what went on air, already in place. A copy
+    // that fails is reported by the preview's 'error' event and skipped.
+    for (const { config } of previewOverlays) {
+      await this.preview.createOverlay({ ...config }, { animateIn: false }).catch(() => undefined)
+    }
+  }
+
+  /**
+   * Fade or wipe the frozen outgoing frame away
+   */
+  private async revealProgram(
+    ticker: Ticker,
+    frozen: Sprite,
+    options: Pick<Required<TakeOptions>, 'duration' | 'easing' | 'transition' | 'direction'>
+  ): Promise<void> {
+    const { duration, easing, transition, direction } = options
+    const { width, height } = this.program.getState()
+    let mask: Graphics | null = null
+    if (transition === 'wipe') {
+      mask = new Graphics()
+      frozen.addChild(mask)
+      frozen.mask = mask
+    }
+
+    this.takeTween = tween(ticker, {
+      duration,
+      easing,
+      onUpdate: progress => {
+        if (!mask) {
+          frozen.alpha = 1 - progress
+          return
+        }
+        // The outgoing frame shrinks away from the wipe's starting edge
+        const visible = width * (1 - progress)
+        mask.clear()
+        mask.rect(direction === 'left' ? width - visible : 0, 0, visible, height).fill(0xffffff)
+      },
+      onComplete: () => {
+        this.takeTween = null
+      }
+    })
+    await this.takeTween.promise
+  }
+
+  /**
+   * Render the current program frame into a sprite on the UI layer
+   */
+  private freezeProgramFrame(): Sprite {
+    const { app, width, height, layers } = this.program.getState()
+    const uiLayer = layers.get('ui')
+    if (!app || !uiLayer) {
+      throw new Error('Program canvas not initialized')
+    }
+
+    const texture = app.renderer.generateTexture({
+      target: app.stage,
+      frame: new Rectangle(0, 0, width, height)
+    })
+    const sprite = new Sprite(texture)
+    sprite.label = 'program-freeze-frame'
+    uiLayer.container.addChild(sprite)
+
+    return sprite
+  }
+
+  /**
+   * Destroy both canvases
+   */
+  destroy(): void {
+    this.takeTween?.cancel()
+    this.takeTween = null
+    this.preview.destroy()
+    this.program.destroy()
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Animation Helpers for VueStream Canvas
+ *
+ * Easing curves and tweens driven by the Pixi.js ticker
+ */
+
+import type { Ticker } from 'pixi.js'
+
+export type EasingFunction = (t: number) => number
+
+export type EasingName = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut'
+
+/**
+ * Easing may be a named curve, a CSS `cubic-bezier()` string or a function
+ */
+export type Easing = EasingName | string | EasingFunction
+
+/**
+ * Create an easing function from CSS cubic-bezier control points
+ */
+export function cubicBezier(x1: number, y1: number, x2: number, y2: number): EasingFunction {
+  const sample = (a1: number, a2: number, t: number) =>
+    3 * a1 * t * (1 - t) ** 2 + 3 * a2 * t ** 2 * (1 - t) + t ** 3
+  const slope = (a1: number, a2: number, t: number) =>
+    3 * a1 * (1 - t) ** 2 + 6 * (a2 - a1) * t * (1 - t) + 3 * (1 - a2) * t ** 2
+
+  return (x: number) => {
+    if (x <= 0) return 0
+    if (x >= 1) return 1
+
+    // Newton-Raphson, falling back to bisection on flat slopes
+    let t = x
+    for (let i = 0; i < 8; i++) {
+      const d = slope(x1, x2, t)
+      if (Math.abs(d) < 1e-6) break
+      const next = t - (sample(x1, x2, t) - x) / d
+      if (next < 0 || next > 1) break
+      t = next
+    }
+
+    let low = 0
+    let high = 1
+    while (Math.abs(sample(x1, x2, t) - x) > 1e-5 && high - low > 1e-7) {
+      if (sample(x1, x2, t) < x) low = t
+      else high = t
+      t = (low + high) / 2
+    }
+
+    return sample(y1, y2, t)
+  }
+}
+
+/**
+ * Named curves, matching the `animation.easing` theme tokens
+ */
+export const EASINGS: Record<EasingName, EasingFunction> = {
+  linear: t => t,
+  easeIn: cubicBezier(0.4, 0, 1, 1),
+  easeOut: cubicBezier(0, 0, 0.2, 1),
+  easeInOut: cubicBezier(0.4, 0, 0.2, 1)
+}
+
+/**
+ * Resolve any supported easing value to a function
+ */
+export function resolveEasing(easing: Easing = 'easeInOut'): EasingFunction {
+  if (typeof easing === 'function') return easing
+  if (Object.prototype.hasOwnProperty.call(EASINGS, easing)) return EASINGS[easing as EasingName]
+
+  const match = /^cubic-bezier\(([^)]+)\)$/.exec(easing.trim())
+  if (match) {
+    const points = match[1].split(',').map(Number)
+    if (points.length === 4 && points.every(Number.isFinite)) {
+      const [x1, y1, x2, y2] = points
+      return cubicBezier(x1, y1, x2, y2)
+    }
+  }
+
+  console.warn(`Unknown easing "${easing}", falling back to linear`)
+  return EASINGS.linear
+}
+
+/**
+ * Convert a duration in milliseconds or a CSS time such as the
+ * `animation.duration` theme tokens ('300ms', '0.5s') to milliseconds
+ */
+export function parseDuration(duration: number | string): number {
+  if (typeof duration === 'number') return Math.max(0, duration)
+
+  const match = /^(-?[\d.]+)\s*(ms|s)?$/.exec(duration.trim())
+  if (!match || !Number.isFinite(Number(match[1]))) {
+    console.warn(`Unknown duration "${duration}", falling back to 0`)
+    return 0
+  }
+  const value = Number(match[1])
+  return Math.max(0, match[2] === 's' ? value * 1000 : value)
+}
+
+export interface TweenOptions {
+  duration: number
+  delay?: number
+  easing?: Easing
+  onUpdate: (progress: number) => void
+  onComplete?: () => void
+}
+
+export interface Tween {
+  promise: Promise<void>
+  // Jump to the end state and run completion
+  finish: () => void
+  // Stop where it is, without completion
+  cancel: () => void
+  readonly done: boolean
+}
+
+/**
+ * Run a tween on the given ticker. The promise resolves when the tween
+ * finishes or is cancelled.
+ */
+export function tween(ticker: Ticker, options: TweenOptions): Tween {
+  const ease = resolveEasing(options.easing)
+  const delay = options.delay ?? 0
+  let elapsed = 0
+  let done = false
+  let resolve!: () => void
+  const promise = new Promise<void>(r => (resolve = r))
+
+  const stop = () => {
+    done = true
+    ticker.remove(update)
+    resolve()
+  }
+
+  const finish = () => {
+    if (done) return
+    options.onUpdate(1)
+    stop()
+    options.onComplete?.()
+  }
+
+  const cancel = () => {
+    if (!done) stop()
+  }
+
+  function update(t: Ticker) {
+    elapsed += t.deltaMS
+    if (elapsed < delay) return
+
+    const progress = options.duration > 0 ? (elapsed - delay) / options.duration : 1
+    if (progress >= 1) {
+      finish()
+    } else {
+      options.onUpdate(ease(progress))
+    }
+  }
+
+  if (options.duration <= 0 && delay <= 0) {
+    finish()
+  } else {
+    options.onUpdate(0)
+    ticker.add(update)
+  }
+
+  return {
+    promise,
+    finish,
+    cancel,
+    get done() {
+      return done
+    }
+  }
+}
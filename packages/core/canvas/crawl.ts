@@ -0,0 +1,291 @@
+/**
+ * Ticker Overlay for VueStream Canvas
+ *
+ * News-style crawl: messages scroll right to left across a bar, separated
+ * by a graphic, and loop without a gap. Messages can be added and removed
+ * while it runs.
+ */
+
+import { Container, Graphics, Text } from 'pixi.js'
+import type { OverlayConfig, TextOverlayConfig } from './overlays'
+
+export interface TickerMessage {
+  id: string
+  text: string
+}
+
+export type TickerSeparator =
+  // Text such as '•' or '|', in the message style
+  | string
+  | { shape: 'dot' | 'diamond' | 'bar'; color?: number; size?: number }
+
+export interface TickerOverlayConfig extends OverlayConfig {
+  type: 'ticker'
+  // Strings use their text as id, with '#2', '#3'... added to repeats
+  messages: Array<string | TickerMessage>
+  // Pixels per second
+  speed?: number
+  separator?: TickerSeparator
+  // Space on each side of the separator
+  gap?: number
+  backgroundColor?: number
+  textColor?: number
+  style?: TextOverlayConfig['style']
+  paused?: boolean
+  width: number
+  height: number
+}
+
+export const DEFAULT_TICKER_SPEED = 80
+
+const DEFAULT_SEPARATOR: TickerSeparator = { shape: 'dot' }
+
+interface CrawlItem {
+  messageId: string
+  node: Container
+  width: number
+}
+
+/**
+ * Normalize ticker messages. Strings use their text as id; repeated text
+ * is numbered so every copy stays in the queue.
+ */
+export function toTickerMessages(messages: Array<string | TickerMessage>): TickerMessage[] {
+  const taken = new Set(messages.flatMap(message =>
+    typeof message === 'string' ? [] : [message.id]
+  ))
+
+  return messages.map(message => {
+    if (typeof message !== 'string') return { ...message }
+
+    let id = message
+    for (let count = 2; taken.has(id); count++) {
+      id = `${message}#${count}`
+    }
+    taken.add(id)
+    return { id, text: message }
+  })
+}
+
+/**
+ * Builds and scrolls a ticker overlay. Items are appended at the right
+ * edge in queue order as space frees up, so queue changes only affect
+ * items that have not entered the bar yet.
+ */
+export class TickerCrawl {
+  readonly container: Container
+  private config: TickerOverlayConfig
+  private messages: TickerMessage[] = []
+  private background: Graphics
+  private mask: Graphics
+  private track: Container
+  private items: CrawlItem[] = []
+  // Id of the message to append next
+  private cursor: string | null = null
+  // Offset of the first item from the left edge of the bar
+  private offset = 0
+
+  constructor(config: TickerOverlayConfig) {
+    this.config = { ...config }
+    this.container = new Container()
+    this.container.label = `ticker-overlay-${config.id}`
+
+    this.background = new Graphics()
+    this.track = new Container()
+    this.mask = new Graphics()
+    this.container.addChild(this.background, this.track, this.mask)
+    this.track.mask = this.mask
+
+    this.drawBar()
+    this.setMessages(config.messages)
+    // Start with the bar full rather than empty
+    this.fill()
+  }
+
+  /**
+   * Apply updated settings without restarting the scroll
+   */
+  apply(updates: Partial<TickerOverlayConfig>): void {
+    const previous = this.config
+    this.config = { ...this.config, ...updates, type: 'ticker' }
+
+    const restyled = ['style', 'textColor', 'separator', 'gap', 'height']
+      .some(key => key in updates)
+    if (restyled) {
+      // Rebuild visible items in the new style at their current position
+      this.clearItems()
+    }
+    if (previous.width !== this.config.width || previous.height !== this.config.height ||
+      previous.backgroundColor !== this.config.backgroundColor) {
+      this.drawBar()
+    }
+    if (updates.messages) {
+      this.setMessages(updates.messages)
+    }
+    this.fill()
+  }
+
+  /**
+   * Replace the queue. Items already on the bar scroll off as usual.
+   */
+  setMessages(messages: Array<string | TickerMessage>): void {
+    const next = toTickerMessages(messages)
+
+    // Keep the cursor on the next message that is still queued
+    if (!next.some(message => message.id === this.cursor)) {
+      const start = this.messages.findIndex(message => message.id === this.cursor)
+      const following = start < 0 ? [] : [
+        ...this.messages.slice(start + 1),
+        ...this.messages.slice(0, start)
+      ]
+      this.cursor = following.find(message => next.some(m => m.id === message.id))?.id
+        ?? next[0]?.id
+        ?? null
+    }
+
+    // Changed text is picked up the next time the message enters
+    this.messages = next
+  }
+
+  getMessages(): TickerMessage[] {
+    return this.messages.map(message => ({ ...message }))
+  }
+
+  getConfig(): TickerOverlayConfig {
+    return { ...this.config, messages: this.getMessages() }
+  }
+
+  /**
+   * Advance the crawl by a frame
+   */
+  update(deltaMS: number): void {
+    if (this.config.paused) return
+
+    this.offset -= ((this.config.speed ?? DEFAULT_TICKER_SPEED) * deltaMS) / 1000
+
+    // Drop items that left the bar on the left
+    while (this.items.length > 0 && this.offset + this.items[0].width <= 0) {
+      const [item] = this.items.splice(0, 1)
+      this.offset += item.width
+      item.node.destroy({ children: true })
+    }
+    // Ran out of messages; the next one enters from the right edge
+    if (this.items.length === 0) {
+      this.offset = this.config.width
+    }
+
+    this.fill()
+  }
+
+  destroy(): void {
+    this.clearItems()
+  }
+
+  /**
+   * Append items until the bar is covered up to its right edge
+   */
+  private fill(): void {
+    let end = this.items.reduce((sum, item) => sum + item.width, this.offset)
+    // Blank messages in a row; a whole queue of them means nothing to show
+    let skipped = 0
+
+    while (end < this.config.width && this.cursor !== null && skipped < this.messages.length) {
+      const index = this.messages.findIndex(message => message.id === this.cursor)
+      const message = this.messages[index]
+      this.cursor = this.messages[(index + 1) % this.messages.length].id
+
+      // A blank item has next to no width and would be added hundreds of times
+      if (!message.text.trim()) {
+        skipped++
+        continue
+      }
+      skipped = 0
+
+      const item = this.createItem(message)
+      this.items.push(item)
+      this.track.addChild(item.node)
+      end += item.width
+    }
+
+    this.layout()
+  }
+
+  private layout(): void {
+    let x = this.offset
+    this.items.forEach(item => {
+      item.node.x = x
+      x += item.width
+    })
+  }
+
+  /**
+   * Message text followed by the separator
+   */
+  private createItem(message: TickerMessage): CrawlItem {
+    const { height, gap = 24 } = this.config
+    const node = new Container()
+    node.label = `ticker-item-${message.id}`
+
+    const style = {
+      fontFamily: 'Inter, Arial, sans-serif',
+      fontSize: Math.round(height * 0.5),
+      fill: this.config.textColor ?? 0xffffff,
+      fontWeight: '600',
+      ...this.config.style
+    }
+    const text = new Text(message.text, style as never)
+    text.y = (height - text.height) / 2
+    node.addChild(text)
+
+    const separator = this.createSeparator(style)
+    separator.x = text.width + gap
+    separator.y = (height - separator.height) / 2
+    node.addChild(separator)
+
+    const width = Math.max(1, separator.x + separator.width + gap)
+    return { messageId: message.id, node, width }
+  }
+
+  private createSeparator(style: Record<string, unknown>): Container {
+    const separator = this.config.separator ?? DEFAULT_SEPARATOR
+    if (typeof separator === 'string') {
+      return new Text(separator, style as never)
+    }
+
+    const size = separator.size ?? Math.round(this.config.height * 0.2)
+    const color = separator.color ?? this.config.textColor ?? 0xffffff
+    const graphic = new Graphics()
+    if (separator.shape === 'dot') {
+      graphic.circle(size / 2, size / 2, size / 2)
+    } else if (separator.shape === 'diamond') {
+      graphic.poly([size / 2, 0, size, size / 2, size / 2, size, 0, size / 2])
+    } else {
+      graphic.rect(0, 0, Math.max(2, size / 4), this.config.height * 0.6)
+    }
+    return graphic.fill(color)
+  }
+
+  /**
+   * Background and the mask that clips text to it
+   */
+  private drawBar(): void {
+    const { width, height } = this.config
+    this.background.clear()
+      .rect(0, 0, width, height)
+      .fill(this.config.backgroundColor ?? 0x000000)
+    this.background.alpha = 0.8
+    this.mask.clear().rect(0, 0, width, height).fill(0xffffff)
+  }
+
+  /**
+   * Remove every item; the crawl continues with the next queued message
+   * from where the first removed item was
+   */
+  private clearItems(): void {
+    if (this.items.length > 0 && this.messages.some(m => m.id === this.items[0].messageId)) {
+      this.cursor = this.items[0].messageId
+    }
+    this.items.forEach(item => item.node.destroy({ children: true }))
+    this.items = []
+  }
+}
@@ -0,0 +1,268 @@
+/**
+ * Auto Director for VueStream
+ *
+ * Fills layout zones automatically: manual pins first, then screen shares
+ * in the main zone, the most recent speaker in the spotlight and everyone
+ * else in order
+ */
+
+import type { CanvasManager } from './CanvasManager'
+import type { CanvasEvent, VideoTextureSource } from './types'
+
+export interface AutoDirectorOptions {
+  // Preferred video order; videos not listed follow in creation order
+  order?: string[]
+  screenShareToMain?: boolean
+  spotlightSpeaker?: boolean
+  // Zones tried in order for screen shares and for the active speaker
+  screenShareZones?: string[]
+  spotlightZones?: string[]
+}
+
+export interface ZoneAssignmentInput {
+  // Zone ids in layout order
+  zoneIds: string[]
+  // Videos in creation order
+  videos: Array<{ id: string; type: VideoTextureSource['type'] }>
+  // Zone id -> video currently shown there
+  current: Map<string, string>
+  // Video id -> pinned zone, or null for "pinned first" without a zone
+  pins: Map<string, string | null>
+  // Speakers, most recent first
+  speakers: string[]
+  options: Required<AutoDirectorOptions>
+}
+
+export const DEFAULT_AUTO_DIRECTOR_OPTIONS: Required<AutoDirectorOptions> = {
+  order: [],
+  screenShareToMain: true,
+  spotlightSpeaker: true,
+  screenShareZones: ['main', 'spotlight'],
+  spotlightZones: ['spotlight', 'main']
+}
+
+const REFRESH_EVENTS = ['texture-created', 'layout-changed']
+
+/**
+ * Decide which video goes in which zone. Returns zone id -> video id for
+ * every zone that should show a video.
+ */
+export function planZoneAssignments(input: ZoneAssignmentInput): Map<string, string> {
+  const { zoneIds, videos, current, pins, speakers, options } = input
+  const zones = new Set(zoneIds)
+  const videoIds = new Set(videos.map(video => video.id))
+  const assignments = new Map<string, string>()
+  const placed = new Set<string>()
+
+  const place = (zoneId: string, videoId: string) => {
+    assignments.set(zoneId, videoId)
+    placed.add(videoId)
+  }
+  const firstFreeZone = (candidates: string[]) =>
+    candidates.find(zoneId => zones.has(zoneId) && !assignments.has(zoneId))
+
+  // Manual pins override everything else
+  pins.forEach((zoneId, videoId) => {
+    if (zoneId && zones.has(zoneId) && videoIds.has(videoId) && !assignments.has(zoneId)) {
+      place(zoneId, videoId)
+    }
+  })
+
+  // Screen shares take the main zone, newest first
+  if (options.screenShareToMain) {
+    [...videos].reverse()
+      .filter(video => video.type === 'screen' && !placed.has(video.id))
+      .forEach(video => {
+        const zoneId = firstFreeZone(options.screenShareZones)
+        if (zoneId) place(zoneId, video.id)
+      })
+  }
+
+  // The most recent speaker not already on screen gets the spotlight
+  if (options.spotlightSpeaker) {
+    const speaker = speakers.find(id => videoIds.has(id) && !placed.has(id))
+    const zoneId = speaker ? firstFreeZone(options.spotlightZones) : undefined
+    if (speaker && zoneId) place(zoneId, speaker)
+  }
+
+  // Remaining zones show pinned videos first, then the preferred order
+  const freeZones = zoneIds.filter(zoneId => !assignments.has(zoneId))
+  const candidates = Array.from(new Set([
+    ...pins.keys(),
+    ...options.order,
+    ...videos.map(video => video.id)
+  ])).filter(id => videoIds.has(id) && !placed.has(id))
+  const shown = new Set(candidates.slice(0, freeZones.length))
+
+  // Videos that stay on screen keep their zone instead of reshuffling
+  const openZones = freeZones.filter(zoneId => {
+    const videoId = current.get(zoneId)
+    if (videoId && shown.has(videoId)) {
+      place(zoneId, videoId)
+      return false
+    }
+    return true
+  })
+  Array.from(shown)
+    .filter(id => !placed.has(id))
+    .forEach((videoId, index) => place(openZones[index], videoId))
+
+  return assignments
+}
+
+/**
+ * Swap a video into the first spotlight zone of the current layout; the
+ * zone it leaves takes whoever was in the spotlight. Follows the active
+ * speaker when the auto director is off. Returns whether anything moved.
+ */
+export function moveToSpotlight(
+  canvas: CanvasManager,
+  videoId: string,
+  zoneIds: string[] = DEFAULT_AUTO_DIRECTOR_OPTIONS.spotlightZones
+): boolean {
+  const { layoutZones, videoTextures } = canvas.getState()
+  const zoneId = zoneIds.find(id => layoutZones.has(id))
+  if (!zoneId || !videoTextures.has(videoId)) return false
+
+  const current = layoutZones.get(zoneId)!.videoTexture?.id ?? null
+  if (current === videoId) return false
+
+  const assignments: Record<string, string | null> = { [zoneId]: videoId }
+  layoutZones.forEach((zone, id) => {
+    if (zone.videoTexture?.id === videoId) assignments[id] = current
+  })
+  canvas.assignZones(assignments)
+  return true
+}
+
+export class AutoDirector {
+  private canvas: CanvasManager
+  private options: Required<AutoDirectorOptions>
+  private pins: Map<string, string | null> = new Map()
+  private speakers: string[] = []
+  // Our own zone changes emit layout-changed; don't react to them
+  private applying = false
+  private handleChange = () => this.refresh()
+  // A video that is gone, e.g. because its participant left, loses its
+  // pin and spotlight history so a later video with the same id starts fresh
+  private handleTextureDestroyed = (event: CanvasEvent) => {
+    const { id } = event.data as { id: string }
+    this.pins.delete(id)
+    this.speakers = this.speakers.filter(speaker => speaker !== id)
+    this.refresh()
+  }
+
+  constructor(canvas: CanvasManager, options: AutoDirectorOptions = {}) {
+    this.canvas = canvas
+    this.options = { ...DEFAULT_AUTO_DIRECTOR_OPTIONS, ...options }
+    REFRESH_EVENTS.forEach(eventType => canvas.on(eventType, this.handleChange))
+    canvas.on('texture-destroyed', this.handleTextureDestroyed)
+  }
+
+  /**
+   * Update policies
+   */
+  setOptions(options: AutoDirectorOptions): void {
+    this.options = { ...this.options, ...options }
+    this.refresh()
+  }
+
+  getOptions(): Required<AutoDirectorOptions> {
+    return { ...this.options }
+  }
+
+  /**
+   * Pin a video to a zone, or to the front of the queue when no zone is given
+   */
+  pin(videoId: string, zoneId: string | null = null): void {
+    if (zoneId) {
+      // One pin per zone; the latest wins
+      this.pins.forEach((pinnedZone, pinnedVideo) => {
+        if (pinnedZone === zoneId) this.pins.delete(pinnedVideo)
+      })
+    }
+    this.pins.delete(videoId)
+    this.pins.set(videoId, zoneId)
+    this.refresh()
+  }
+
+  /**
+   * Return a video to automatic placement
+   */
+  unpin(videoId: string): void {
+    if (this.pins.delete(videoId)) {
+      this.refresh()
+    }
+  }
+
+  /**
+   * Get pinned videos and their zones
+   */
+  getPins(): Map<string, string | null> {
+    return new Map(this.pins)
+  }
+
+  /**
+   * Record the current speaker; null keeps the last one in the spotlight
+   */
+  setActiveSpeaker(videoId: string | null): void {
+    if (!videoId || this.speakers[0] === videoId) return
+
+    this.speakers = [videoId, ...this.speakers.filter(id => id !== videoId)].slice(0, 16)
+    this.refresh()
+  }
+
+  /**
+   * Set the preferred video order
+   */
+  setOrder(order: string[]): void {
+    this.options.order = [...order]
+    this.refresh()
+  }
+
+  /**
+   * Reassign zones now
+   */
+  refresh(): void {
+    if (this.applying) return
+
+    const { videoTextures, layoutZones } = this.canvas.getState()
+    if (layoutZones.size === 0) return
+
+    const current = new Map<string, string>()
+    layoutZones.forEach((zone, zoneId) => {
+      if (zone.videoTexture) current.set(zoneId, zone.videoTexture.id)
+    })
+
+    const videos = Array.from(videoTextures.values())
+      .map(({ id, source }) => ({ id, type: source.type }))
+    const plan = planZoneAssignments({
+      zoneIds: Array.from(layoutZones.keys()),
+      videos,
+      current,
+      pins: this.pins,
+      speakers: this.speakers,
+      options: this.options
+    })
+
+    const assignments: Record<string, string | null> = {}
+    layoutZones.forEach((_zone, zoneId) => {
+      assignments[zoneId] = plan.get(zoneId) ?? null
+    })
+
+    this.applying = true
+    try {
+      this.canvas.assignZones(assignments)
+    } finally {
+      this.applying = false
+    }
+  }
+
+  /**
+   * Stop reacting to canvas changes
+   */
+  detach(): void {
+    REFRESH_EVENTS.forEach(eventType => this.canvas.off(eventType, this.handleChange))
+    this.canvas.off('texture-destroyed', this.handleTextureDestroyed)
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Zone Fit Modes for VueStream Canvas
+ *
+ * Scale and position calculations for placing video inside layout zones
+ */
+
+export type ZoneFitMode = 'contain' | 'cover' | 'fill' | 'none'
+
+export interface FocalPoint {
+  // Normalized 0..1 position within the source, kept visible when cropping
+  x: number
+  y: number
+}
+
+export interface ZoneFit {
+  fitMode: ZoneFitMode
+  focalPoint: FocalPoint
+  cornerRadius: number
+}
+
+export interface FitResult {
+  scaleX: number
+  scaleY: number
+  x: number
+  y: number
+}
+
+export const DEFAULT_ZONE_FIT: ZoneFit = {
+  fitMode: 'contain',
+  focalPoint: { x: 0.5, y: 0.5 },
+  cornerRadius: 0
+}
+
+/**
+ * Offset along one axis: centered when the content is smaller than the
+ * zone, otherwise shifted toward the focal point without exposing edges
+ */
+function alignAxis(contentSize: number, zoneSize: number, focal: number): number {
+  if (contentSize <= zoneSize) {
+    return (zoneSize - contentSize) / 2
+  }
+  const offset = zoneSize / 2 - focal * contentSize
+  return Math.min(0, Math.max(zoneSize - contentSize, offset))
+}
+
+/**
+ * Compute sprite scale and offset for a source of the given size
+ */
+export function computeFit(
+  fitMode: ZoneFitMode,
+  sourceWidth: number,
+  sourceHeight: number,
+  zoneWidth: number,
+  zoneHeight: number,
+  focalPoint: FocalPoint = DEFAULT_ZONE_FIT.focalPoint
+): FitResult {
+  if (sourceWidth <= 0 || sourceHeight <= 0) {
+    return { scaleX: 1, scaleY: 1, x: 0, y: 0 }
+  }
+
+  if (fitMode === 'fill') {
+    return { scaleX: zoneWidth / sourceWidth, scaleY: zoneHeight / sourceHeight, x: 0, y: 0 }
+  }
+
+  const widthRatio = zoneWidth / sourceWidth
+  const heightRatio = zoneHeight / sourceHeight
+  const scale =
+    fitMode === 'cover'
+      ? Math.max(widthRatio, heightRatio)
+      : fitMode === 'contain'
+        ? Math.min(widthRatio, heightRatio)
+        : 1
+
+  return {
+    scaleX: scale,
+    scaleY: scale,
+    x: alignAxis(sourceWidth * scale, zoneWidth, focalPoint.x),
+    y: alignAxis(sourceHeight * scale, zoneHeight, focalPoint.y)
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Auto-Grid Layouts for VueStream Canvas
+ *
+ * Generates evenly tiled layout presets for any participant count
+ */
+
+import type { LayoutPreset, LayoutZoneDefinition } from './layouts'
+
+export interface AutoGridOptions {
+  // Canvas width / height, defaults to 16:9
+  canvasAspectRatio?: number
+  // Target tile width / height, defaults to 16:9
+  tileAspectRatio?: number
+  // Space between tiles, as a fraction of the canvas height
+  gutter?: number
+  // Space around the grid, as a fraction of the canvas height
+  margin?: number
+}
+
+export interface GridLayoutOptions extends AutoGridOptions {
+  participantCount: number
+}
+
+interface GridFit {
+  columns: number
+  rows: number
+  tileWidth: number
+  tileHeight: number
+}
+
+/**
+ * Find the column count that gives the largest tiles.
+ * Works in units where the canvas is `aspect` wide and 1 tall.
+ */
+function findBestFit(
+  count: number,
+  aspect: number,
+  tileAspect: number,
+  gutter: number,
+  margin: number
+): GridFit {
+  const availableWidth = aspect - margin * 2
+  const availableHeight = 1 - margin * 2
+  let best: GridFit | null = null
+
+  for (let columns = 1; columns <= count; columns++) {
+    const rows = Math.ceil(count / columns)
+    const maxWidth = (availableWidth - gutter * (columns - 1)) / columns
+    const maxHeight = (availableHeight - gutter * (rows - 1)) / rows
+    if (maxWidth <= 0 || maxHeight <= 0) continue
+
+    const tileWidth = Math.min(maxWidth, maxHeight * tileAspect)
+    const tileHeight = tileWidth / tileAspect
+
+    if (!best || tileWidth * tileHeight > best.tileWidth * best.tileHeight + 1e-9) {
+      best = { columns, rows, tileWidth, tileHeight }
+    }
+  }
+
+  if (!best) {
+    throw new Error('Grid gutter and margin leave no room for tiles')
+  }
+  return best
+}
+
+/**
+ * Generate a layout preset that tiles `participantCount` zones as evenly
+ * as possible. Leftover tiles in the last row are centered.
+ */
+export function createGridLayout(options: GridLayoutOptions): LayoutPreset {
+  const {
+    participantCount,
+    canvasAspectRatio = 16 / 9,
+    tileAspectRatio = 16 / 9,
+    gutter = 0.02,
+    margin = 0.025
+  } = options
+
+  const count = Math.max(1, Math.floor(participantCount))
+  const { columns, rows, tileWidth, tileHeight } = findBestFit(
+    count,
+    canvasAspectRatio,
+    tileAspectRatio,
+    gutter,
+    margin
+  )
+
+  const availableWidth = canvasAspectRatio - margin * 2
+  const gridHeight = rows * tileHeight + (rows - 1) * gutter
+  const top = margin + (1 - margin * 2 - gridHeight) / 2
+
+  const zones: LayoutZoneDefinition[] = []
+  for (let row = 0; row < rows; row++) {
+    const tilesInRow = row < rows - 1 ? columns : count - columns * (rows - 1)
+    const rowWidth = tilesInRow * tileWidth + (tilesInRow - 1) * gutter
+    const left = margin + (availableWidth - rowWidth) / 2
+
+    for (let column = 0; column < tilesInRow; column++) {
+      const index = zones.length + 1
+      zones.push({
+        id: `tile-${index}`,
+        x: (left + column * (tileWidth + gutter)) / canvasAspectRatio,
+        y: top + row * (tileHeight + gutter),
+        width: tileWidth / canvasAspectRatio,
+        height: tileHeight,
+        label: `Tile ${index}`
+      })
+    }
+  }
+
+  return {
+    id: `auto-grid-${count}`,
+    name: `Auto Grid (${count})`,
+    description: `${count} participants tiled in a ${columns}x${rows} grid`,
+    aspectRatio: canvasAspectRatio,
+    maxParticipants: count,
+    zones,
+    autoGrid: { canvasAspectRatio, tileAspectRatio, gutter, margin }
+  }
+}
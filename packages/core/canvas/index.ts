@@ -5,8 +5,72 @@
  */
 
 export { CanvasManager } from './CanvasManager'
-export { OverlayManager, OVERLAY_PRESETS } from './overlays'
-export { LAYOUT_PRESETS, getLayoutPreset, getLayoutsForParticipantCount } from './layouts'
+export { ProgramPreviewManager } from './ProgramPreviewManager'
+export { CanvasOutputStream } from './output'
+export { OverlayManager, OVERLAY_PRESETS, ASSET_SOURCE_PREFIX } from './overlays'
+export {
+  LAYOUT_PRESETS,
+  getLayoutPreset,
+  getLayoutsForParticipantCount,
+  validateLayoutPreset,
+  registerLayout,
+  unregisterLayout,
+  listLayouts,
+  onLayoutsChanged
+} from './layouts'
+export { createGridLayout } from './grid'
+export { DEFAULT_ZONE_FIT, computeFit } from './fit'
+export { EASINGS, cubicBezier, resolveEasing, parseDuration, tween } from './animation'
+export {
+  DEFAULT_OVERLAY_ANIMATION,
+  LOWER_THIRD_ENTER,
+  LOWER_THIRD_EXIT,
+  animateOverlay
+} from './overlayAnimations'
+export { DEFAULT_LAYOUT_TRANSITION } from './transitions'
+export {
+  AutoDirector,
+  DEFAULT_AUTO_DIRECTOR_OPTIONS,
+  planZoneAssignments,
+  moveToSpotlight
+} from './director'
+export {
+  TIMER_OVERLAY_TYPES,
+  DEFAULT_TIMER_FORMATS,
+  TimerDisplay,
+  formatDuration,
+  formatClock,
+  isTimerOverlay
+} from './timers'
+export { TickerCrawl, DEFAULT_TICKER_SPEED, toTickerMessages } from './crawl'
+export {
+  LOWER_THIRD_TEMPLATES,
+  DEFAULT_LOWER_THIRD_THEME,
+  DEFAULT_LOWER_THIRD_MAX_WIDTH,
+  lowerThirdThemeFromTokens,
+  registerLowerThirdTemplate,
+  getLowerThirdTemplate,
+  drawLowerThird
+} from './lowerThirds'
+export { resolveOverlayPosition } from './placement'
+export { MEDIA_OVERLAY_TYPES, MediaPlayback, isMediaOverlay } from './mediaOverlays'
+export { CueScheduler, resolveCueTimes, systemClock } from './CueScheduler'
+export { SCENE_VERSION, SCENE_MIGRATIONS, migrateScene } from './scene'
 export type * from './types'
+export type * from './ProgramPreviewManager'
 export type * from './overlays'
-export type * from './layouts'
\ No newline at end of file
+export type * from './overlayAnimations'
+export type * from './timers'
+export type * from './crawl'
+export type * from './lowerThirds'
+export type * from './placement'
+export type * from './mediaOverlays'
+export type * from './CueScheduler'
+export type * from './layouts'
+export type * from './scene'
+export type * from './grid'
+export type * from './fit'
+export type * from './animation'
+export type * from './transitions'
+export type * from './output'
+export type * from './director'
\ No newline at end of file
@@ -4,6 +4,9 @@
  * Pre-defined layout configurations for common streaming scenarios
  */
 
+import type { AutoGridOptions } from './grid'
+import type { FocalPoint, ZoneFitMode } from './fit'
+
 export interface LayoutZoneDefinition {
   id: string
   x: number
@@ -11,6 +14,9 @@ export interface LayoutZoneDefinition {
   width: number
   height: number
   label?: string
+  fitMode?: ZoneFitMode
+  focalPoint?: FocalPoint
+  cornerRadius?: number
 }
 
 export interface LayoutPreset {
@@ -20,8 +26,28 @@ export interface LayoutPreset {
   zones: LayoutZoneDefinition[]
   aspectRatio: number
   maxParticipants: number
+  // Set on generated grids; the canvas regenerates them as videos come and go
+  autoGrid?: AutoGridOptions
+}
+
+export interface LayoutValidationOptions {
+  // Report overlapping zones as warnings
+  checkOverlap?: boolean
+}
+
+export interface LayoutValidationResult {
+  valid: boolean
+  errors: string[]
+  warnings: string[]
+}
+
+export interface RegisterLayoutOptions extends LayoutValidationOptions {
+  // Allow overwriting a custom layout with the same id
+  replace?: boolean
 }
 
+export type LayoutRegistryListener = (layouts: LayoutPreset[]) => void
+
 /**
  * Calculate responsive zone positions based on canvas size
  */
@@ -243,16 +269,164 @@ export const LAYOUT_PRESETS: LayoutPreset[] = [
   SPOTLIGHT_GALLERY_LAYOUT
 ]
 
+const EPSILON = 1e-6
+
+const layoutRegistry = new Map<string, LayoutPreset>(
+  LAYOUT_PRESETS.map(preset => [preset.id, preset])
+)
+const registryListeners = new Set<LayoutRegistryListener>()
+
+/**
+ * Validate a layout preset. Zone coordinates are fractions of the canvas
+ * and must stay inside 0..1.
+ */
+export function validateLayoutPreset(
+  preset: LayoutPreset,
+  options: LayoutValidationOptions = {}
+): LayoutValidationResult {
+  const errors: string[] = []
+  const warnings: string[] = []
+
+  if (!preset.id) errors.push('Layout id is required')
+  if (!preset.name) errors.push('Layout name is required')
+  if (!(preset.aspectRatio > 0)) errors.push('Aspect ratio must be positive')
+
+  const zones = Array.isArray(preset.zones) ? preset.zones : []
+  if (zones.length === 0) errors.push('Layout must define at least one zone')
+
+  const seen = new Set<string>()
+  zones.forEach(zone => {
+    if (!zone.id) {
+      errors.push('Every zone needs an id')
+    } else if (seen.has(zone.id)) {
+      errors.push(`Duplicate zone id "${zone.id}"`)
+    }
+    seen.add(zone.id)
+
+    const values = [zone.x, zone.y, zone.width, zone.height]
+    if (!values.every(Number.isFinite)) {
+      errors.push(`Zone "${zone.id}" has non-numeric coordinates`)
+      return
+    }
+    if (zone.width <= 0 || zone.height <= 0) {
+      errors.push(`Zone "${zone.id}" must have a positive size`)
+    }
+    if (zone.focalPoint) {
+      const { x, y } = zone.focalPoint
+      if (!(x >= 0 && x <= 1 && y >= 0 && y <= 1)) {
+        errors.push(`Zone "${zone.id}" focal point must lie within 0..1`)
+      }
+    }
+    if (zone.cornerRadius !== undefined && !(zone.cornerRadius >= 0)) {
+      errors.push(`Zone "${zone.id}" corner radius cannot be negative`)
+    }
+    if (
+      zone.x < -EPSILON ||
+      zone.y < -EPSILON ||
+      zone.x + zone.width > 1 + EPSILON ||
+      zone.y + zone.height > 1 + EPSILON
+    ) {
+      errors.push(`Zone "${zone.id}" must lie within 0..1 of the canvas`)
+    }
+  })
+
+  if (preset.maxParticipants !== zones.length) {
+    errors.push(
+      `maxParticipants (${preset.maxParticipants}) must match the zone count (${zones.length})`
+    )
+  }
+
+  if (options.checkOverlap) {
+    zones.forEach((a, i) => {
+      zones.slice(i + 1).forEach(b => {
+        const overlapX = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x)
+        const overlapY = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y)
+        if (overlapX > EPSILON && overlapY > EPSILON) {
+          warnings.push(`Zones "${a.id}" and "${b.id}" overlap`)
+        }
+      })
+    })
+  }
+
+  return { valid: errors.length === 0, errors, warnings }
+}
+
+/**
+ * Register a custom layout. Throws if the preset is invalid, replaces a
+ * built-in preset, or the id is taken and `replace` is not set. The
+ * registry keeps its own copy; warnings come back in the result.
+ */
+export function registerLayout(
+  preset: LayoutPreset,
+  options: RegisterLayoutOptions = {}
+): LayoutValidationResult {
+  const result = validateLayoutPreset(preset, options)
+  if (!result.valid) {
+    throw new Error(`Invalid layout ${preset.id}: ${result.errors.join('; ')}`)
+  }
+  if (isBuiltInLayout(preset.id)) {
+    throw new Error(`Built-in layout ${preset.id} cannot be replaced`)
+  }
+  if (layoutRegistry.has(preset.id) && !options.replace) {
+    throw new Error(`Layout ${preset.id} is already registered`)
+  }
+
+  layoutRegistry.set(preset.id, structuredClone(preset))
+  notifyLayoutListeners()
+  return result
+}
+
+/**
+ * Remove a custom layout. Built-in presets cannot be removed.
+ */
+export function unregisterLayout(id: string): boolean {
+  if (isBuiltInLayout(id)) {
+    throw new Error(`Built-in layout ${id} cannot be unregistered`)
+  }
+
+  const removed = layoutRegistry.delete(id)
+  if (removed) {
+    notifyLayoutListeners()
+  }
+  return removed
+}
+
+/**
+ * List all registered layouts, built-in presets first
+ */
+export function listLayouts(): LayoutPreset[] {
+  return Array.from(layoutRegistry.values())
+}
+
+/**
+ * Subscribe to registry changes. Returns an unsubscribe function.
+ */
+export function onLayoutsChanged(listener: LayoutRegistryListener): () => void {
+  registryListeners.add(listener)
+  return () => {
+    registryListeners.delete(listener)
+  }
+}
+
+function isBuiltInLayout(id: string): boolean {
+  return LAYOUT_PRESETS.some(preset => preset.id === id)
+}
+
+function notifyLayoutListeners(): void {
+  const layouts = listLayouts()
+  registryListeners.forEach(listener => listener(layouts))
+}
+
 /**
  * Get layout preset by ID
  */
 export function getLayoutPreset(id: string): LayoutPreset | undefined {
-  return LAYOUT_PRESETS.find(preset => preset.id === id)
+  return layoutRegistry.get(id)
 }
 
 /**
  * Get suitable layout presets for participant count
  */
 export function getLayoutsForParticipantCount(count: number): LayoutPreset[] {
-  return LAYOUT_PRESETS.filter(preset => preset.maxParticipants >= count)
+  return listLayouts().filter(preset => preset.maxParticipants >= count)
 }
\ No newline at end of file
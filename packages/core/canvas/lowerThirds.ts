@@ -0,0 +1,242 @@
+/**
+ * Lower Thirds for VueStream Canvas
+ *
+ * Lower third templates. The title and subtitle are wrapped and measured
+ * first, then the template draws a box that fits them. Colors and fonts
+ * come from a theme built from the design tokens.
+ */
+
+import { Color, Container, FillGradient, Graphics, Text, type ColorSource } from 'pixi.js'
+import { darkTheme, type ThemeTokens } from '../../themes'
+import type { LowerThirdConfig } from './overlays'
+
+export type LowerThirdTemplateName = 'classic' | 'accent-bar' | 'two-tone' | 'pill' | 'gradient'
+
+export interface LowerThirdTheme {
+  background: ColorSource
+  accent: ColorSource
+  // Text on the background
+  text: ColorSource
+  secondaryText: ColorSource
+  // Text on the accent color
+  accentText: ColorSource
+  fontFamily: string
+  titleSize: number
+  subtitleSize: number
+  titleWeight: string
+  subtitleWeight: string
+  padding: number
+}
+
+export interface LowerThirdBox {
+  width: number
+  height: number
+  // Boundary between the title and subtitle areas; the height without a subtitle
+  split: number
+}
+
+export interface LowerThirdTemplate {
+  // Extra space between the box edges and the text, on top of the padding
+  inset?: { left?: number; right?: number }
+  // Space between title and subtitle
+  gap?: number
+  // Draw the title in the accent text color
+  titleOnAccent?: boolean
+  // Draw the background into an empty graphic behind the text
+  draw: (graphics: Graphics, box: LowerThirdBox, theme: LowerThirdTheme) => void
+}
+
+export const DEFAULT_LOWER_THIRD_MAX_WIDTH = 720
+
+const ACCENT_BAR_WIDTH = 8
+
+/**
+ * Convert a CSS length token such as '1.5rem' or '24px' to pixels
+ */
+function toPixels(value: string, rootSize = 16): number {
+  const size = parseFloat(value)
+  return /r?em$/.test(value) ? size * rootSize : size
+}
+
+/**
+ * Build a lower third theme from design tokens: surface and text colors
+ * for the box, the primary color as accent and the sans font
+ */
+export function lowerThirdThemeFromTokens(tokens: ThemeTokens): LowerThirdTheme {
+  const { colors, typography, spacing } = tokens
+  return {
+    background: colors.surface[0],
+    accent: colors.primary[500],
+    text: colors.text.primary,
+    secondaryText: colors.text.secondary,
+    accentText: '#ffffff',
+    fontFamily: typography.fontFamily.sans.join(', '),
+    titleSize: toPixels(typography.fontSize.headline[0]),
+    subtitleSize: toPixels(typography.fontSize.body[0]),
+    titleWeight: String(typography.fontWeight.bold),
+    subtitleWeight: String(typography.fontWeight.normal),
+    padding: toPixels(spacing.md)
+  }
+}
+
+// Broadcast graphics read best light on dark, whatever the app theme
+export const DEFAULT_LOWER_THIRD_THEME = lowerThirdThemeFromTokens(darkTheme)
+
+export const LOWER_THIRD_TEMPLATES: Record<LowerThirdTemplateName, LowerThirdTemplate> = {
+  classic: {
+    draw: (graphics, { width, height }, theme) => {
+      graphics.rect(0, 0, width, height).fill({ color: theme.background, alpha: 0.8 })
+    }
+  },
+  'accent-bar': {
+    inset: { left: ACCENT_BAR_WIDTH },
+    draw: (graphics, { width, height }, theme) => {
+      graphics.rect(0, 0, width, height).fill({ color: theme.background, alpha: 0.9 })
+      graphics.rect(0, 0, ACCENT_BAR_WIDTH, height).fill(theme.accent)
+    }
+  },
+  'two-tone': {
+    gap: 16,
+    titleOnAccent: true,
+    draw: (graphics, { width, height, split }, theme) => {
+      graphics.rect(0, 0, width, split).fill(theme.accent)
+      if (split < height) {
+        graphics.rect(0, split, width, height - split).fill({ color: theme.background, alpha: 0.9 })
+      }
+    }
+  },
+  pill: {
+    inset: { left: 12, right: 12 },
+    draw: (graphics, { width, height }, theme) => {
+      graphics
+        .roundRect(0, 0, width, height, height / 2)
+        .fill({ color: theme.background, alpha: 0.9 })
+    }
+  },
+  gradient: {
+    titleOnAccent: true,
+    draw: (graphics, { width, height }, theme) => {
+      // Accent on the left, fading out through the background color
+      const gradient = new FillGradient({
+        type: 'linear',
+        start: { x: 0, y: 0 },
+        end: { x: 1, y: 0 },
+        colorStops: [
+          { offset: 0, color: theme.accent },
+          { offset: 0.6, color: new Color(theme.background).setAlpha(0.8) },
+          { offset: 1, color: new Color(theme.background).setAlpha(0) }
+        ],
+        textureSpace: 'local'
+      })
+      graphics.rect(0, 0, width, height).fill(gradient)
+    }
+  }
+}
+
+const templateRegistry: Map<string, LowerThirdTemplate> = new Map(
+  Object.entries(LOWER_THIRD_TEMPLATES)
+)
+
+/**
+ * Register a custom template under a name usable as `template` in lower
+ * third configs. Throws if the name is taken and `replace` is not set.
+ */
+export function registerLowerThirdTemplate(
+  name: string,
+  template: LowerThirdTemplate,
+  replace = false
+): void {
+  if (templateRegistry.has(name) && !replace) {
+    throw new Error(`Lower third template ${name} is already registered`)
+  }
+  templateRegistry.set(name, template)
+}
+
+export function getLowerThirdTemplate(name: string): LowerThirdTemplate | undefined {
+  return templateRegistry.get(name)
+}
+
+const CONTENT_LABEL = 'lower-third-content'
+
+/**
+ * Replace a lower third's contents with a fresh drawing of its config.
+ * The box grows to fit the text, wrapping lines at `maxWidth`; `width` and
+ * `height` are minimums. Only the content child is redrawn, so other
+ * children such as a wipe mask are kept.
+ */
+export function drawLowerThird(
+  overlay: Container,
+  config: LowerThirdConfig,
+  baseTheme: LowerThirdTheme = DEFAULT_LOWER_THIRD_THEME
+): void {
+  const name = config.template ?? 'classic'
+  const template = templateRegistry.get(name)
+  if (!template) {
+    throw new Error(`Lower third template ${name} not found`)
+  }
+
+  const theme: LowerThirdTheme = { ...baseTheme, ...config.theme }
+  if (config.backgroundColor !== undefined) theme.background = config.backgroundColor
+  if (config.accentColor !== undefined) theme.accent = config.accentColor
+
+  const padding = config.padding ?? theme.padding
+  const left = padding + (template.inset?.left ?? 0)
+  const right = padding + (template.inset?.right ?? 0)
+  const gap = template.gap ?? 5
+  const wrapWidth = Math.max(1, (config.maxWidth ?? DEFAULT_LOWER_THIRD_MAX_WIDTH) - left - right)
+
+  const createText = (text: string, size: number, weight: string, fill: ColorSource) =>
+    new Text(text, {
+      fontFamily: theme.fontFamily,
+      fontSize: size,
+      fontWeight: weight,
+      fill,
+      wordWrap: true,
+      wordWrapWidth: wrapWidth,
+      breakWords: true
+    } as never)
+
+  const titleColor = template.titleOnAccent ? theme.accentText : theme.text
+  const titleText = createText(
+    config.title,
+    theme.titleSize,
+    theme.titleWeight,
+    config.textColor ?? titleColor
+  )
+  const subtitleText = config.subtitle
+    ? createText(
+      config.subtitle,
+      theme.subtitleSize,
+      theme.subtitleWeight,
+      config.textColor ?? theme.secondaryText
+    )
+    : null
+
+  // Size the box to the text, then center the text in it
+  const contentWidth = Math.max(titleText.width, subtitleText?.width ?? 0)
+  const contentHeight = titleText.height + (subtitleText ? gap + subtitleText.height : 0)
+  const width = Math.max(config.width ?? 0, Math.ceil(contentWidth + left + right))
+  const height = Math.max(config.height ?? 0, Math.ceil(contentHeight + padding * 2))
+
+  titleText.x = left
+  titleText.y = (height - contentHeight) / 2
+  const split = subtitleText ? titleText.y + titleText.height + gap / 2 : height
+
+  const background = new Graphics()
+  template.draw(background, { width, height, split }, theme)
+
+  let content = overlay.getChildByLabel(CONTENT_LABEL)
+  if (!content) {
+    content = new Container()
+    content.label = CONTENT_LABEL
+    overlay.addChildAt(content, 0)
+  }
+  content.removeChildren().forEach(child => child.destroy())
+  content.addChild(background, titleText)
+
+  if (subtitleText) {
+    subtitleText.x = left
+    subtitleText.y = split + gap / 2
+    content.addChild(subtitleText)
+  }
+}
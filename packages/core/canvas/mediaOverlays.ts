@@ -0,0 +1,296 @@
+/**
+ * Media Overlays for VueStream Canvas
+ *
+ * Video overlays, such as WebM with alpha for stingers and bumpers, and
+ * animated GIF or APNG overlays, with play, pause and loop controls
+ */
+
+import { CanvasSource, Sprite, Texture, VideoSource } from 'pixi.js'
+import { GifSource, GifSprite, type GifFrame } from 'pixi.js/gif'
+import type { OverlayConfig } from './overlays'
+import type { OverlayAction } from './timers'
+
+interface MediaOverlayBase extends OverlayConfig {
+  // URL or `asset:<id>` reference
+  source: string
+  // Start over at the end; defaults to true
+  loop?: boolean
+  paused?: boolean
+  // Play from the start when passed to updateOverlay; never stored
+  restart?: boolean
+  // Run each time a one-shot overlay reaches its end
+  onEnd?: OverlayAction
+  // Speed multiplier
+  playbackRate?: number
+  opacity?: number
+  scale?: number
+}
+
+export interface VideoOverlayConfig extends MediaOverlayBase {
+  type: 'video'
+  // 0-1. Heard through an AudioMixer channel when a mixer follows the
+  // canvas, otherwise through the speakers.
+  volume?: number
+  muted?: boolean
+}
+
+export interface AnimatedImageOverlayConfig extends MediaOverlayBase {
+  type: 'animated-image'
+}
+
+export type MediaOverlayConfig = VideoOverlayConfig | AnimatedImageOverlayConfig
+
+export const MEDIA_OVERLAY_TYPES = ['video', 'animated-image'] as const
+
+export interface MediaPlaybackHandlers {
+  // Runs each time a one-shot overlay reaches its end
+  onEnded: () => void
+  // Runs when the browser refuses to play, e.g. a video with sound before
+  // the page has had a user gesture. Playback is paused by then.
+  onBlocked: (error: Error) => void
+}
+
+/**
+ * Check whether an overlay config is a video or animated image
+ */
+export function isMediaOverlay(config: { type: string }): config is MediaOverlayConfig {
+  return (MEDIA_OVERLAY_TYPES as readonly string[]).includes(config.type)
+}
+
+/**
+ * Load a video that is ready to show its first frame
+ */
+async function loadVideo(url: string, config: VideoOverlayConfig): Promise<HTMLVideoElement> {
+  const video = document.createElement('video')
+  video.crossOrigin = 'anonymous'
+  video.playsInline = true
+  video.preload = 'auto'
+  video.loop = config.loop ?? true
+  video.muted = config.muted ?? false
+  video.volume = Math.max(0, Math.min(1, config.volume ?? 1))
+  video.playbackRate = config.playbackRate ?? 1
+  video.src = url
+
+  let timeout: ReturnType<typeof setTimeout> | undefined
+  try {
+    await new Promise<void>((resolve, reject) => {
+      video.onloadeddata = () => resolve()
+      video.onerror = () => reject(new Error(`Failed to load video ${url}`))
+      timeout = setTimeout(() => reject(new Error('Video load timeout')), 10000)
+    })
+  } catch (error) {
+    // Stop the download, as destroy() does
+    video.removeAttribute('src')
+    video.load()
+    throw error
+  } finally {
+    clearTimeout(timeout)
+    video.onloadeddata = null
+    video.onerror = null
+  }
+  return video
+}
+
+/**
+ * Decode an animated PNG or WebP into frames. ImageDecoder composites
+ * each frame, so frames can be shown as they are.
+ */
+async function decodeAnimatedImage(buffer: ArrayBuffer, type: string): Promise<GifSource> {
+  if (typeof ImageDecoder === 'undefined') {
+    throw new Error(`Animated ${type} overlays are not supported in this browser`)
+  }
+
+  const decoder = new ImageDecoder({ data: buffer, type })
+  try {
+    await decoder.tracks.ready
+    const frameCount = decoder.tracks.selectedTrack?.frameCount ?? 1
+    const frames: GifFrame[] = []
+    let time = 0
+
+    for (let frameIndex = 0; frameIndex < frameCount; frameIndex++) {
+      const { image } = await decoder.decode({ frameIndex })
+      const canvas = document.createElement('canvas')
+      canvas.width = image.displayWidth
+      canvas.height = image.displayHeight
+      canvas.getContext('2d')?.drawImage(image, 0, 0)
+      // Durations are in microseconds; still images have none
+      const duration = (image.duration ?? 100_000) / 1000
+      image.close()
+
+      const texture = new Texture({ source: new CanvasSource({ resource: canvas }) })
+      frames.push({ texture, start: time, end: time + duration })
+      time += duration
+    }
+    return new GifSource(frames)
+  } finally {
+    decoder.close()
+  }
+}
+
+/**
+ * Load an animated image, picking the decoder from its contents since
+ * object URLs have no file extension
+ */
+async function loadAnimatedImage(url: string): Promise<GifSource> {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Failed to load animated image ${url}`)
+  }
+  const buffer = await response.arrayBuffer()
+  const header = new Uint8Array(buffer, 0, Math.min(12, buffer.byteLength))
+  const signature = String.fromCharCode(...header)
+
+  if (signature.startsWith('GIF8')) {
+    return GifSource.from(buffer)
+  }
+  const type = signature.startsWith('RIFF') && signature.slice(8) === 'WEBP'
+    ? 'image/webp'
+    : 'image/png'
+  return decodeAnimatedImage(buffer, type)
+}
+
+/**
+ * Plays a video or animated image overlay and tracks its controls
+ */
+export class MediaPlayback {
+  readonly sprite: Sprite
+  // The video element, e.g. to route its audio; null for animated images
+  readonly element: HTMLVideoElement | null
+  private config: MediaOverlayConfig
+  private gif: GifSprite | null
+  private handlers: MediaPlaybackHandlers
+
+  private constructor(
+    config: MediaOverlayConfig,
+    sprite: Sprite,
+    element: HTMLVideoElement | null,
+    gif: GifSprite | null,
+    handlers: MediaPlaybackHandlers
+  ) {
+    this.config = { ...config }
+    delete this.config.restart
+    this.sprite = sprite
+    this.element = element
+    this.gif = gif
+    this.handlers = handlers
+  }
+
+  /**
+   * Load the media at `url` and start playing unless paused
+   */
+  static async load(
+    config: MediaOverlayConfig,
+    url: string,
+    handlers: MediaPlaybackHandlers
+  ): Promise<MediaPlayback> {
+    let playback: MediaPlayback
+    const ended = () => playback.handlers.onEnded()
+
+    if (config.type === 'video') {
+      const video = await loadVideo(url, config)
+      const texture = new Texture({ source: new VideoSource({ resource: video, autoPlay: false }) })
+      // Looping videos never end
+      video.addEventListener('ended', ended)
+      playback = new MediaPlayback(config, new Sprite(texture), video, null, handlers)
+    } else {
+      const gif = new GifSprite({
+        source: await loadAnimatedImage(url),
+        loop: config.loop ?? true,
+        animationSpeed: config.playbackRate ?? 1,
+        autoPlay: false,
+        onComplete: ended
+      })
+      playback = new MediaPlayback(config, gif, null, gif, handlers)
+    }
+
+    if (!config.paused) {
+      playback.play()
+    }
+    return playback
+  }
+
+  /**
+   * Apply updated settings: `paused` pauses or resumes, `restart` plays
+   * from the start
+   */
+  apply(updates: Partial<MediaOverlayConfig>): void {
+    const { restart, paused, ...settings } = updates
+    this.config = { ...this.config, ...settings } as MediaOverlayConfig
+    const { config, element, gif } = this
+
+    if (element && config.type === 'video') {
+      element.loop = config.loop ?? true
+      element.muted = config.muted ?? false
+      element.volume = Math.max(0, Math.min(1, config.volume ?? 1))
+      element.playbackRate = config.playbackRate ?? 1
+    }
+    if (gif) {
+      gif.loop = config.loop ?? true
+      gif.animationSpeed = config.playbackRate ?? 1
+    }
+
+    if (restart) {
+      if (element) element.currentTime = 0
+      if (gif) gif.currentFrame = 0
+    }
+    if (paused !== undefined) {
+      this.config.paused = paused
+    }
+    if (this.config.paused) {
+      this.pause()
+    } else if (restart || paused === false) {
+      this.play()
+    }
+  }
+
+  play(): void {
+    this.config.paused = false
+    // Ended one-shots start over
+    this.gif?.play()
+    // Rejected until the page has had a user gesture if the video has sound
+    this.element?.play().catch((error: Error) => {
+      // A pause() or a new source interrupted the request; not a refusal
+      if (error.name === 'AbortError') return
+      this.pause()
+      this.handlers.onBlocked(error)
+    })
+  }
+
+  pause(): void {
+    this.config.paused = true
+    this.gif?.stop()
+    this.element?.pause()
+  }
+
+  isPaused(): boolean {
+    return this.config.paused ?? false
+  }
+
+  /**
+   * Replace the end and blocked callbacks, e.g. once the overlay has
+   * moved to another canvas
+   */
+  setHandlers(handlers: MediaPlaybackHandlers): void {
+    this.handlers = handlers
+  }
+
+  getConfig(): MediaOverlayConfig {
+    return { ...this.config }
+  }
+
+  /**
+   * Stop playback and release the sprite, frames and video element
+   */
+  destroy(): void {
+    if (this.element) {
+      const video = this.element
+      video.pause()
+      // First, as the video source leaves an empty src behind
+      this.sprite.destroy({ texture: true, textureSource: true })
+      video.removeAttribute('src')
+      // Frees the decoder and any buffered data
+      video.load()
+    }
+    this.gif?.destroy(true)
+  }
+}
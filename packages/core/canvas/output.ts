@@ -0,0 +1,116 @@
+/**
+ * Canvas Output for VueStream
+ *
+ * Captures the rendered canvas as a MediaStream, optionally mixed with
+ * audio from video texture sources
+ */
+
+export interface CaptureStreamOptions {
+  // Frames per second; 0 captures only when requestFrame() is called
+  frameRate?: number
+  // Mix source audio into the output: true for every source, or a list of source ids
+  audio?: boolean | string[]
+  // Extra tracks added as-is, e.g. the output of an audio mixer
+  audioTracks?: MediaStreamTrack[]
+}
+
+export class CanvasOutputStream {
+  readonly stream: MediaStream
+  private videoTrack: MediaStreamTrack
+  private frameRate: number
+  private audio: boolean | string[]
+  private audioContext: AudioContext | null = null
+  private destination: MediaStreamAudioDestinationNode | null = null
+  private audioInputs: Map<string, MediaStreamAudioSourceNode> = new Map()
+
+  constructor(canvas: HTMLCanvasElement, options: CaptureStreamOptions = {}) {
+    if (typeof canvas.captureStream !== 'function') {
+      throw new Error('Canvas capture is not supported in this browser')
+    }
+
+    this.frameRate = options.frameRate ?? 30
+    this.stream = canvas.captureStream(this.frameRate)
+    this.videoTrack = this.stream.getVideoTracks()[0]
+    this.audio = options.audio ?? false
+
+    options.audioTracks?.forEach(track => this.stream.addTrack(track))
+  }
+
+  /**
+   * Serve another consumer of the running capture: its audio selection is
+   * added to the current one and its extra tracks to the stream. Throws
+   * if it asks for a different frame rate.
+   */
+  extend(options: CaptureStreamOptions): void {
+    if (options.frameRate !== undefined && options.frameRate !== this.frameRate) {
+      throw new Error(
+        `Canvas is already captured at ${this.frameRate} fps, not ${options.frameRate}`
+      )
+    }
+
+    const { audio = false } = options
+    if (audio === true || this.audio === true) {
+      this.audio = true
+    } else if (Array.isArray(audio)) {
+      this.audio = Array.from(new Set([...(this.audio || []), ...audio]))
+    }
+
+    const current = this.stream.getTracks()
+    options.audioTracks
+      ?.filter(track => !current.includes(track))
+      .forEach(track => this.stream.addTrack(track))
+  }
+
+  /**
+   * Mix a source's audio into the output if it is selected
+   */
+  addAudioSource(id: string, stream: MediaStream): void {
+    if (this.audioInputs.has(id) || stream.getAudioTracks().length === 0) return
+    if (this.audio === false || (Array.isArray(this.audio) && !this.audio.includes(id))) return
+
+    if (!this.audioContext || !this.destination) {
+      this.audioContext = new AudioContext()
+      this.destination = this.audioContext.createMediaStreamDestination()
+      this.destination.stream.getAudioTracks().forEach(track => this.stream.addTrack(track))
+      // Contexts created before a user gesture start suspended
+      this.audioContext.resume().catch(() => undefined)
+    }
+
+    const input = this.audioContext.createMediaStreamSource(stream)
+    input.connect(this.destination)
+    this.audioInputs.set(id, input)
+  }
+
+  /**
+   * Stop mixing a source's audio
+   */
+  removeAudioSource(id: string): void {
+    const input = this.audioInputs.get(id)
+    if (input) {
+      input.disconnect()
+      this.audioInputs.delete(id)
+    }
+  }
+
+  /**
+   * Push a frame immediately, e.g. right after the canvas was resized
+   */
+  requestFrame(): void {
+    const track = this.videoTrack as MediaStreamTrack & { requestFrame?: () => void }
+    track.requestFrame?.()
+  }
+
+  /**
+   * Stop the tracks this output created and release the audio graph.
+   * Tracks passed in through `audioTracks` are left running.
+   */
+  stop(): void {
+    this.videoTrack.stop()
+    this.destination?.stream.getTracks().forEach(track => track.stop())
+    this.audioInputs.forEach(input => input.disconnect())
+    this.audioInputs.clear()
+    this.audioContext?.close().catch(() => undefined)
+    this.audioContext = null
+    this.destination = null
+  }
+}
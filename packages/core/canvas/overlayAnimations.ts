@@ -0,0 +1,196 @@
+/**
+ * Overlay Animations for VueStream Canvas
+ *
+ * Enter and exit animations for overlays: fade, slide, scale and wipe
+ */
+
+import { Graphics, type Container, type Ticker } from 'pixi.js'
+import { parseDuration, tween, type Easing, type Tween } from './animation'
+
+export type OverlayAnimationType = 'none' | 'fade' | 'slide' | 'scale' | 'wipe'
+
+export type OverlayEdge = 'left' | 'right' | 'top' | 'bottom'
+
+export interface OverlayAnimation {
+  type: OverlayAnimationType
+  // Milliseconds or a CSS time such as the `animation.duration` theme tokens
+  duration?: number | string
+  // Named curve or cubic-bezier(), e.g. the `animation.easing` theme tokens
+  easing?: Easing
+  delay?: number | string
+  // Edge a slide comes from or a wipe starts at
+  from?: OverlayEdge
+  // Slide distance in pixels; defaults to just past the canvas edge
+  distance?: number
+  // Starting scale for 'scale'
+  scale?: number
+  // Fade along with the motion; on by default for 'scale'
+  fade?: boolean
+}
+
+export interface OverlayViewport {
+  width: number
+  height: number
+}
+
+export const DEFAULT_OVERLAY_ANIMATION = {
+  duration: 300,
+  easing: 'easeOut',
+  delay: 0,
+  from: 'left',
+  scale: 0.8
+} satisfies Partial<OverlayAnimation>
+
+/**
+ * Branded slide-in used by lower thirds unless they set their own
+ */
+export const LOWER_THIRD_ENTER: OverlayAnimation = {
+  type: 'slide',
+  from: 'left',
+  duration: 500,
+  easing: 'cubic-bezier(0.16, 1, 0.3, 1)',
+  fade: true
+}
+
+export const LOWER_THIRD_EXIT: OverlayAnimation = {
+  type: 'slide',
+  from: 'left',
+  duration: 300,
+  easing: 'easeIn',
+  fade: true
+}
+
+const COMPLETED: Tween = {
+  promise: Promise.resolve(),
+  finish: () => undefined,
+  cancel: () => undefined,
+  done: true
+}
+
+/**
+ * Animate an overlay in or out of its resting state. The resting state is
+ * restored when the animation ends or is cancelled, so the overlay can be
+ * animated again; a finished exit leaves it hidden. Without a ticker the
+ * end state is applied at once.
+ */
+export function animateOverlay(
+  ticker: Ticker | null,
+  overlay: Container,
+  animation: OverlayAnimation,
+  direction: 'in' | 'out',
+  viewport: OverlayViewport,
+  onComplete?: () => void
+): Tween {
+  const rest = {
+    x: overlay.x,
+    y: overlay.y,
+    scaleX: overlay.scale.x,
+    scaleY: overlay.scale.y,
+    alpha: overlay.alpha
+  }
+  const bounds = overlay.getLocalBounds()
+  const previousMask = overlay.mask
+  let wipeMask: Graphics | null = null
+
+  const cleanup = (completed: boolean) => {
+    // Destroyed with the animation still running; nothing left to restore
+    if (overlay.destroyed) return
+
+    overlay.position.set(rest.x, rest.y)
+    overlay.scale.set(rest.scaleX, rest.scaleY)
+    overlay.alpha = rest.alpha
+    if (wipeMask) {
+      overlay.mask = previousMask
+      overlay.removeChild(wipeMask)
+      wipeMask.destroy()
+      wipeMask = null
+    }
+    if (completed) {
+      if (direction === 'out') overlay.visible = false
+      onComplete?.()
+    }
+  }
+
+  if (!ticker || animation.type === 'none') {
+    cleanup(true)
+    return COMPLETED
+  }
+
+  const settings = { ...DEFAULT_OVERLAY_ANIMATION, ...animation }
+  const fade = settings.fade ?? (settings.type === 'fade' || settings.type === 'scale')
+
+  // Offset that puts the overlay just past the edge it slides from
+  const width = overlay.width
+  const height = overlay.height
+  const offset = {
+    left: { x: -(settings.distance ?? rest.x + width), y: 0 },
+    right: { x: settings.distance ?? viewport.width - rest.x, y: 0 },
+    top: { x: 0, y: -(settings.distance ?? rest.y + height) },
+    bottom: { x: 0, y: settings.distance ?? viewport.height - rest.y }
+  }[settings.from]
+
+  // Scale around the center instead of the top-left corner
+  const centerX = bounds.x + bounds.width / 2
+  const centerY = bounds.y + bounds.height / 2
+
+  if (settings.type === 'wipe') {
+    wipeMask = new Graphics()
+    overlay.addChild(wipeMask)
+    overlay.mask = wipeMask
+  }
+
+  // Set once the tween starts, so an overlay destroyed by code that
+  // didn't cancel its animation stops it on the next frame
+  let running: Tween | null = null
+
+  const apply = (progress: number) => {
+    if (overlay.destroyed) {
+      running?.cancel()
+      return
+    }
+
+    // How much of the overlay is shown, 0-1
+    const shown = direction === 'in' ? progress : 1 - progress
+    overlay.alpha = fade ? rest.alpha * shown : rest.alpha
+
+    if (settings.type === 'slide') {
+      overlay.x = rest.x + offset.x * (1 - shown)
+      overlay.y = rest.y + offset.y * (1 - shown)
+    } else if (settings.type === 'scale') {
+      const scale = settings.scale + (1 - settings.scale) * shown
+      overlay.scale.set(rest.scaleX * scale, rest.scaleY * scale)
+      overlay.x = rest.x + centerX * rest.scaleX * (1 - scale)
+      overlay.y = rest.y + centerY * rest.scaleY * (1 - scale)
+    } else if (wipeMask) {
+      const { x, y, width: w, height: h } = bounds
+      wipeMask.clear()
+      if (settings.from === 'left') wipeMask.rect(x, y, w * shown, h)
+      else if (settings.from === 'right') wipeMask.rect(x + w * (1 - shown), y, w * shown, h)
+      else if (settings.from === 'top') wipeMask.rect(x, y, w, h * shown)
+      else wipeMask.rect(x, y + h * (1 - shown), w, h * shown)
+      wipeMask.fill(0xffffff)
+    }
+  }
+
+  const started = tween(ticker, {
+    duration: parseDuration(settings.duration),
+    delay: parseDuration(settings.delay),
+    easing: settings.easing,
+    onUpdate: apply,
+    onComplete: () => cleanup(true)
+  })
+  running = started
+
+  return {
+    promise: started.promise,
+    finish: started.finish,
+    cancel: () => {
+      if (started.done) return
+      started.cancel()
+      cleanup(false)
+    },
+    get done() {
+      return started.done
+    }
+  }
+}
@@ -4,17 +4,85 @@
  * Text overlays, logos, and branding elements for professional streaming
  */
 
-import { Container, Text, Sprite, Texture, Graphics } from 'pixi.js'
+import { Assets, Container, Text, Sprite, Texture, type Ticker } from 'pixi.js'
+import {
+  LOWER_THIRD_ENTER,
+  LOWER_THIRD_EXIT,
+  animateOverlay,
+  type OverlayAnimation,
+  type OverlayViewport
+} from './overlayAnimations'
+import {
+  DEFAULT_TIMER_FORMATS,
+  TimerDisplay,
+  formatClock,
+  isTimerOverlay,
+  type CountdownOverlayConfig,
+  type OverlayAction,
+  type TimerOverlayConfig
+} from './timers'
+import {
+  DEFAULT_LOWER_THIRD_THEME,
+  drawLowerThird,
+  getLowerThirdTemplate,
+  lowerThirdThemeFromTokens,
+  type LowerThirdTemplateName,
+  type LowerThirdTheme
+} from './lowerThirds'
+import { resolveOverlayPosition, type OverlayAnchor, type OverlayUnits } from './placement'
+import { TickerCrawl, type TickerOverlayConfig } from './crawl'
+import { getLayoutPreset } from './layouts'
+import {
+  MediaPlayback,
+  isMediaOverlay,
+  type MediaOverlayConfig,
+  type MediaPlaybackHandlers
+} from './mediaOverlays'
+import { EventEmitter } from '../events'
+import type { Tween } from './animation'
+import type { ZoneRect } from './transitions'
+import type { ThemeTokens } from '../../themes'
+
+/**
+ * Prefix for image sources that reference a stored asset, e.g. `asset:<id>`
+ */
+export const ASSET_SOURCE_PREFIX = 'asset:'
+
+/**
+ * Resolves a stored asset id to a loadable URL
+ */
+export type AssetResolver = (id: string) => Promise<string | null>
 
 export interface OverlayConfig {
   id: string
-  type: 'text' | 'image' | 'logo' | 'lower-third'
+  type:
+    | 'text'
+    | 'image'
+    | 'logo'
+    | 'lower-third'
+    | 'countdown'
+    | 'stopwatch'
+    | 'clock'
+    | 'ticker'
+    | 'video'
+    | 'animated-image'
+  // Offset from the anchor; see resolveOverlayPosition
   x: number
   y: number
+  anchor?: OverlayAnchor
+  units?: OverlayUnits
+  margin?: number
+  // Place within this layout zone instead of the canvas, e.g. a nameplate.
+  // Hidden while the current layout has no such zone.
+  zoneId?: string
   width?: number
   height?: number
   zIndex?: number
   visible?: boolean
+  // Played when the overlay is created visible or shown, and when it is
+  // hidden or removed
+  enter?: OverlayAnimation
+  exit?: OverlayAnimation
 }
 
 export interface TextOverlayConfig extends OverlayConfig {
@@ -33,6 +101,7 @@ export interface TextOverlayConfig extends OverlayConfig {
 
 export interface ImageOverlayConfig extends OverlayConfig {
   type: 'image' | 'logo'
+  // URL, `asset:<id>` reference or a live texture
   source: string | Texture
   opacity?: number
   scale?: number
@@ -42,75 +111,352 @@ export interface LowerThirdConfig extends OverlayConfig {
   type: 'lower-third'
   title: string
   subtitle?: string
+  // Built-in or registered template; defaults to 'classic'
+  template?: LowerThirdTemplateName | (string & {})
   backgroundColor?: number
   textColor?: number
-  width: number
-  height: number
+  accentColor?: number
+  // Overrides of the theme set on the overlay manager
+  theme?: Partial<LowerThirdTheme>
+  padding?: number
+  // Text wraps to keep the box within this width
+  maxWidth?: number
+  // Minimum size; the box grows to fit its text
+  width?: number
+  height?: number
 }
 
-export type AnyOverlayConfig = TextOverlayConfig | ImageOverlayConfig | LowerThirdConfig
+export type AnyOverlayConfig =
+  | TextOverlayConfig
+  | ImageOverlayConfig
+  | LowerThirdConfig
+  | TimerOverlayConfig
+  | TickerOverlayConfig
+  | MediaOverlayConfig
+
+export interface CreateOverlayOptions {
+  // Play the enter animation of an overlay created visible (default true)
+  animateIn?: boolean
+}
 
-export class OverlayManager {
+/**
+ * An overlay taken off one manager with its live state, ready to attach
+ * to another
+ */
+export interface DetachedOverlay {
+  config: AnyOverlayConfig
+  container: Container
+  timer?: TimerDisplay
+  crawl?: TickerCrawl
+  media?: MediaPlayback
+}
+
+const DEFAULT_TEXT_STYLE = {
+  fontFamily: 'Inter, Arial, sans-serif',
+  fontSize: 24,
+  fill: 0xffffff,
+  align: 'left' as const,
+  fontWeight: '600',
+  stroke: 0x000000,
+  strokeThickness: 2
+}
+
+export class OverlayManager extends EventEmitter {
   private container: Container
   private overlays: Map<string, Container>
+  private configs: Map<string, AnyOverlayConfig>
+  private assetResolver: AssetResolver | null = null
+  private ticker: Ticker | null
+  private viewport: OverlayViewport = { width: 0, height: 0 }
+  private lowerThirdTheme: LowerThirdTheme = DEFAULT_LOWER_THIRD_THEME
+  // Layout zones that overlays can be attached to, by zone id
+  private zones: Map<string, ZoneRect> = new Map()
+  // Running enter/exit animations by overlay id
+  private animations: Map<string, Tween> = new Map()
+  // Exit animations of overlays that are destroyed when they finish
+  private removing: Set<Tween> = new Set()
+  private timers: Map<string, TimerDisplay> = new Map()
+  private crawls: Map<string, TickerCrawl> = new Map()
+  private media: Map<string, MediaPlayback> = new Map()
+  // Per-frame updates of timers and tickers, by overlay id
+  private frameUpdates: Map<string, (deltaMS: number) => void> = new Map()
 
-  constructor(parentContainer: Container) {
+  constructor(parentContainer: Container, ticker: Ticker | null = null) {
+    super()
     this.container = new Container()
     this.container.label = 'overlays'
     this.overlays = new Map()
+    this.configs = new Map()
+    this.ticker = ticker
+    // Overlays stack by their zIndex
+    this.container.sortableChildren = true
     
     parentContainer.addChild(this.container)
   }
 
+  /**
+   * Set the canvas size, used to slide overlays in from its edges. Every
+   * overlay is placed again for the new size.
+   */
+  setViewport(width: number, height: number): void {
+    this.viewport = { width, height }
+    this.overlays.forEach((_overlay, id) => {
+      // Animations return overlays to where they were before the resize
+      this.animations.get(id)?.finish()
+      this.placeOverlay(id)
+    })
+  }
+
+  /**
+   * Set the layout zones overlays can be attached to. Attached overlays
+   * follow their zone and are hidden while it is missing.
+   */
+  setZones(zones: Iterable<ZoneRect & { id: string }>): void {
+    this.zones = new Map(Array.from(zones, ({ id, x, y, width, height }) => (
+      [id, { x, y, width, height }]
+    )))
+    this.configs.forEach((config, id) => {
+      if (config.zoneId !== undefined) this.placeOverlay(id)
+    })
+  }
+
+  /**
+   * Theme lower thirds from design tokens; existing ones are redrawn
+   */
+  setTheme(tokens: ThemeTokens): void {
+    this.lowerThirdTheme = lowerThirdThemeFromTokens(tokens)
+    this.configs.forEach((config, id) => {
+      if (config.type !== 'lower-third') return
+      drawLowerThird(this.overlays.get(id)!, config, this.lowerThirdTheme)
+      this.placeOverlay(id)
+    })
+  }
+
+  /**
+   * Put an overlay at its configured position, resolving its anchor, units
+   * and margin against the canvas or its zone. Skipped while an enter or
+   * exit animation moves the overlay.
+   */
+  private placeOverlay(id: string): void {
+    const overlay = this.overlays.get(id)
+    const config = this.configs.get(id)
+    if (!overlay || !config) return
+
+    // Not rendering keeps `visible` and show/hide animations untouched
+    const zone = config.zoneId !== undefined ? this.zones.get(config.zoneId) : undefined
+    overlay.renderable = config.zoneId === undefined || zone !== undefined
+
+    const running = this.animations.get(id)
+    if (running && !running.done) return
+
+    const bounds = zone ?? { x: 0, y: 0, ...this.viewport }
+    // A ticker's track extends past its bar
+    const size = config.type === 'ticker' ? config : overlay
+    const { x, y } = resolveOverlayPosition(config, size, bounds)
+    overlay.position.set(bounds.x + x, bounds.y + y)
+  }
+
+  /**
+   * Track a new overlay and play its enter animation if it starts visible
+   */
+  private addOverlay(
+    config: AnyOverlayConfig,
+    overlay: Container,
+    options: CreateOverlayOptions
+  ): void {
+    this.container.addChild(overlay)
+    this.overlays.set(config.id, overlay)
+    this.configs.set(config.id, { ...config, zIndex: overlay.zIndex, visible: overlay.visible })
+    this.placeOverlay(config.id)
+
+    if (overlay.visible && config.enter && options.animateIn !== false) {
+      this.play(config.id, overlay, config.enter, 'in')
+    }
+  }
+
   /**
    * Create text overlay
    */
-  createTextOverlay(config: TextOverlayConfig): Container {
+  createTextOverlay(config: TextOverlayConfig, options: CreateOverlayOptions = {}): Container {
     const overlay = new Container()
     overlay.label = `text-overlay-${config.id}`
 
-    const textStyle = {
-      fontFamily: 'Inter, Arial, sans-serif',
-      fontSize: 24,
-      fill: 0xffffff,
-      align: 'left' as const,
-      fontWeight: '600',
-      stroke: 0x000000,
-      strokeThickness: 2,
-      ...config.style
-    }
+    const textStyle = { ...DEFAULT_TEXT_STYLE, ...config.style }
 
     const textElement = new Text(config.content, textStyle as never)
 
     overlay.addChild(textElement)
-    overlay.x = config.x
-    overlay.y = config.y
     overlay.zIndex = config.zIndex ?? 100
     overlay.visible = config.visible ?? true
 
-    this.container.addChild(overlay)
-    this.overlays.set(config.id, overlay)
+    this.addOverlay(config, overlay, options)
+
+    return overlay
+  }
+
+  /**
+   * Create countdown, stopwatch or clock overlay
+   */
+  createTimerOverlay(input: TimerOverlayConfig, options: CreateOverlayOptions = {}): Container {
+    this.assertActions(input)
+    const config = { ...input }
+    delete config.reset
 
+    const overlay = new Container()
+    overlay.label = `${config.type}-overlay-${config.id}`
+
+    const textElement = new Text('', { ...DEFAULT_TEXT_STYLE, ...config.style } as never)
+    overlay.addChild(textElement)
+    overlay.zIndex = config.zIndex ?? 100
+    overlay.visible = config.visible ?? true
+
+    // Renders the initial text; a countdown already at zero finishes on
+    // the first frame, after the overlay has been announced
+    const display = new TimerDisplay(config, textElement, this.handleCountdownFinished)
+    this.addOverlay(config, overlay, options)
+    this.trackTimer(config.id, display)
     return overlay
   }
 
+  private handleCountdownFinished = (countdown: CountdownOverlayConfig): void => {
+    this.emit('countdown-finished', { id: countdown.id, onFinish: countdown.onFinish ?? null })
+  }
+
+  /**
+   * Keep a timer's text current on every frame
+   */
+  private trackTimer(id: string, display: TimerDisplay): void {
+    this.timers.set(id, display)
+    this.onFrame(id, () => {
+      // Keep right and center anchored timers aligned as the text changes
+      if (display.update()) {
+        this.placeOverlay(id)
+      }
+    })
+  }
+
+  /**
+   * Create scrolling ticker overlay
+   */
+  createTickerOverlay(
+    config: TickerOverlayConfig,
+    options: CreateOverlayOptions = {}
+  ): Container {
+    const crawl = new TickerCrawl(config)
+    const overlay = crawl.container
+    overlay.zIndex = config.zIndex ?? 75
+    overlay.visible = config.visible ?? true
+
+    this.addOverlay(crawl.getConfig(), overlay, options)
+    this.trackCrawl(config.id, crawl)
+    return overlay
+  }
+
+  /**
+   * Scroll a ticker on every frame
+   */
+  private trackCrawl(id: string, crawl: TickerCrawl): void {
+    this.crawls.set(id, crawl)
+    this.onFrame(id, deltaMS => crawl.update(deltaMS))
+  }
+
+  /**
+   * Run a callback on every frame until the overlay is removed
+   */
+  private onFrame(id: string, update: (deltaMS: number) => void): void {
+    this.frameUpdates.set(id, update)
+    if (this.frameUpdates.size === 1) {
+      this.ticker?.add(this.updateFrame)
+    }
+  }
+
+  private updateFrame = (ticker: Ticker): void => {
+    this.frameUpdates.forEach(update => update(ticker.deltaMS))
+  }
+
   /**
    * Create image/logo overlay
    */
-  async createImageOverlay(config: ImageOverlayConfig): Promise<Container> {
+  async createImageOverlay(
+    config: ImageOverlayConfig,
+    options: CreateOverlayOptions = {}
+  ): Promise<Container> {
     const overlay = new Container()
     overlay.label = `image-overlay-${config.id}`
 
-    let texture: Texture
-    if (typeof config.source === 'string') {
-      // Load texture from URL
-      texture = await Texture.from(config.source)
-    } else {
-      texture = config.source
-    }
+    const texture = await this.loadTexture(config.source)
 
     const sprite = new Sprite(texture)
-    
+    this.sizeSprite(sprite, config)
+
+    overlay.addChild(sprite)
+    overlay.zIndex = config.zIndex ?? 50
+    overlay.visible = config.visible ?? true
+
+    this.addOverlay(config, overlay, options)
+
+    return overlay
+  }
+
+  /**
+   * Create video or animated image overlay. It plays from the start
+   * unless created paused.
+   */
+  async createMediaOverlay(
+    input: MediaOverlayConfig,
+    options: CreateOverlayOptions = {}
+  ): Promise<Container> {
+    this.assertActions(input)
+    const config = { ...input }
+    delete config.restart
+
+    const overlay = new Container()
+    overlay.label = `${config.type}-overlay-${config.id}`
+
+    const playback = await this.loadMedia(config)
+    this.sizeSprite(playback.sprite, config)
+
+    overlay.addChild(playback.sprite)
+    overlay.zIndex = config.zIndex ?? 50
+    overlay.visible = config.visible ?? true
+
+    this.media.set(config.id, playback)
+    this.addOverlay(playback.getConfig(), overlay, options)
+    if (playback.element) {
+      this.emit('media-created', { id: config.id, element: playback.element })
+    }
+
+    return overlay
+  }
+
+  /**
+   * Load an overlay's video or animated image, reporting when it ends or
+   * the browser refuses to play it
+   */
+  private async loadMedia(config: MediaOverlayConfig): Promise<MediaPlayback> {
+    const url = await this.resolveSource(config.source)
+    return MediaPlayback.load(config, url, this.mediaHandlers(config.id))
+  }
+
+  private mediaHandlers(id: string): MediaPlaybackHandlers {
+    return {
+      onEnded: () => {
+        const latest = this.configs.get(id) as MediaOverlayConfig | undefined
+        this.emit('media-ended', { id, onEnd: latest?.onEnd ?? null })
+      },
+      onBlocked: error => {
+        this.patchConfig(id, { paused: true })
+        this.emit('media-blocked', { id, reason: error.name, message: error.message })
+      }
+    }
+  }
+
+  /**
+   * Apply an image or media overlay's scale or size and opacity
+   */
+  private sizeSprite(sprite: Sprite, config: ImageOverlayConfig | MediaOverlayConfig): void {
+    sprite.scale.set(1)
+
     // Apply scaling if specified
     if (config.scale) {
       sprite.scale.set(config.scale)
@@ -121,144 +467,526 @@ export class OverlayManager {
     }
 
     sprite.alpha = config.opacity ?? 1
+  }
 
-    overlay.addChild(sprite)
-    overlay.x = config.x
-    overlay.y = config.y
-    overlay.zIndex = config.zIndex ?? 50
-    overlay.visible = config.visible ?? true
+  /**
+   * Set the resolver used for `asset:<id>` image and media sources
+   */
+  setAssetResolver(resolver: AssetResolver | null): void {
+    this.assetResolver = resolver
+  }
 
-    this.container.addChild(overlay)
-    this.overlays.set(config.id, overlay)
+  /**
+   * Load a texture from a URL or stored asset reference
+   */
+  private async loadTexture(source: string | Texture): Promise<Texture> {
+    if (typeof source !== 'string') {
+      return source
+    }
 
-    return overlay
+    if (!source.startsWith(ASSET_SOURCE_PREFIX)) {
+      return Assets.load<Texture>(source)
+    }
+
+    // Object URLs have no file extension to pick a parser from
+    const url = await this.resolveSource(source)
+    return Assets.load<Texture>({ src: url, parser: 'texture' })
+  }
+
+  /**
+   * Turn a source into a loadable URL, resolving stored asset references
+   */
+  private async resolveSource(source: string): Promise<string> {
+    if (!source.startsWith(ASSET_SOURCE_PREFIX)) {
+      return source
+    }
+
+    const assetId = source.slice(ASSET_SOURCE_PREFIX.length)
+    if (!this.assetResolver) {
+      throw new Error(`No asset resolver set to load ${source}`)
+    }
+    const url = await this.assetResolver(assetId)
+    if (!url) {
+      throw new Error(`Asset ${assetId} not found`)
+    }
+    return url
   }
 
   /**
    * Create lower third overlay
    */
-  createLowerThird(config: LowerThirdConfig): Container {
+  createLowerThird(input: LowerThirdConfig, options: CreateOverlayOptions = {}): Container {
+    const config: LowerThirdConfig = { enter: LOWER_THIRD_ENTER, exit: LOWER_THIRD_EXIT, ...input }
     const overlay = new Container()
     overlay.label = `lower-third-${config.id}`
+    drawLowerThird(overlay, config, this.lowerThirdTheme)
 
-    // Background
-    const background = new Graphics()
-    background
-      .rect(0, 0, config.width, config.height)
-      .fill(config.backgroundColor ?? 0x000000)
-    background.alpha = 0.8
-
-    // Title text
-    const titleStyle = {
-      fontFamily: 'Inter, Arial, sans-serif',
-      fontSize: 24,
-      fill: config.textColor ?? 0xffffff,
-      fontWeight: '700'
-    }
-
-    const titleText = new Text(config.title, titleStyle as never)
-    titleText.x = 20
-    titleText.y = config.subtitle ? 10 : (config.height - titleText.height) / 2
-
-    overlay.addChild(background)
-    overlay.addChild(titleText)
-
-    // Subtitle if provided
-    if (config.subtitle) {
-      const subtitleStyle = {
-        fontFamily: 'Inter, Arial, sans-serif',
-        fontSize: 16,
-        fill: config.textColor ?? 0xcccccc,
-        fontWeight: '400'
-      }
-
-      const subtitleText = new Text(config.subtitle, subtitleStyle as never)
-      subtitleText.x = 20
-      subtitleText.y = titleText.y + titleText.height + 5
-
-      overlay.addChild(subtitleText)
-    }
-
-    overlay.x = config.x
-    overlay.y = config.y
     overlay.zIndex = config.zIndex ?? 75
     overlay.visible = config.visible ?? true
 
-    this.container.addChild(overlay)
-    this.overlays.set(config.id, overlay)
+    this.addOverlay(config, overlay, options)
 
     return overlay
   }
 
   /**
-   * Update text overlay content
+   * Apply a partial config. Only what changed is redrawn: text is
+   * restyled, lower thirds re-laid out, image textures swapped and the
+   * stacking order follows zIndex. Timers pause, resume and reset,
+   * tickers keep scrolling and media keeps its playback position unless
+   * its source changes. Style patches merge into the current style.
+   * Resolves once a new image or media source has loaded and a show or
+   * hide animation has played.
    */
-  updateTextOverlay(id: string, content: string): void {
+  async updateOverlay(id: string, patch: Partial<AnyOverlayConfig>): Promise<void> {
     const overlay = this.overlays.get(id)
-    if (overlay) {
-      const textElement = overlay.children.find(child => child instanceof Text) as Text
-      if (textElement) {
-        textElement.text = content
+    const current = this.configs.get(id)
+    if (!overlay || !current) {
+      throw new Error(`Overlay ${id} not found`)
+    }
+    if (patch.type !== undefined && patch.type !== current.type) {
+      throw new Error(`Overlay ${id} is a ${current.type} overlay, not ${patch.type}`)
+    }
+
+    const previous = current as unknown as Record<string, unknown>
+    const changed = (...keys: string[]) =>
+      keys.some(key => key in patch && patch[key as keyof typeof patch] !== previous[key])
+
+    const merged = { ...patch } as Partial<AnyOverlayConfig> & { style?: object }
+    if ('style' in current && 'style' in patch && patch.style) {
+      merged.style = { ...current.style, ...patch.style }
+    }
+    const next = { ...current, ...merged } as AnyOverlayConfig
+    if (isTimerOverlay(next)) {
+      delete next.reset
+    }
+    if (isMediaOverlay(next)) {
+      delete next.restart
+    }
+    this.assertDrawable(next)
+    this.assertActions(next)
+    this.configs.set(id, next)
+
+    if (changed('x', 'y', 'anchor', 'units', 'margin', 'zoneId')) {
+      // Settle a running animation so it doesn't move the overlay back
+      this.animations.get(id)?.finish()
+    }
+    if (changed('zIndex') && next.zIndex !== undefined) {
+      overlay.zIndex = next.zIndex
+    }
+
+    const pending: Promise<void>[] = []
+
+    switch (next.type) {
+      case 'text': {
+        const textElement = overlay.children.find(child => child instanceof Text) as Text
+        if (changed('content')) textElement.text = next.content
+        if (changed('style')) textElement.style = { ...DEFAULT_TEXT_STYLE, ...next.style } as never
+        break
+      }
+      case 'image':
+      case 'logo': {
+        const sprite = overlay.children[0] as Sprite
+        if (changed('scale', 'width', 'height', 'opacity')) this.sizeSprite(sprite, next)
+        if (changed('source')) {
+          const { source } = current as ImageOverlayConfig
+          pending.push(this.swapTexture(id, sprite, next, source))
+        }
+        break
+      }
+      case 'lower-third':
+        if (changed(
+          'title', 'subtitle', 'template', 'backgroundColor', 'textColor', 'accentColor',
+          'theme', 'padding', 'maxWidth', 'width', 'height'
+        )) {
+          drawLowerThird(overlay, next, this.lowerThirdTheme)
+        }
+        break
+      case 'countdown':
+      case 'stopwatch':
+      case 'clock': {
+        if (changed('style')) {
+          const textElement = overlay.children[0] as Text
+          textElement.style = { ...DEFAULT_TEXT_STYLE, ...next.style } as never
+        }
+        const display = this.timers.get(id)!
+        display.apply(merged as Partial<TimerOverlayConfig>)
+        this.patchConfig(id, { paused: display.getConfig().paused })
+        break
       }
+      case 'ticker': {
+        const crawl = this.crawls.get(id)!
+        crawl.apply(merged as Partial<TickerOverlayConfig>)
+        this.patchConfig(id, { messages: crawl.getMessages() })
+        break
+      }
+      case 'video':
+      case 'animated-image': {
+        const playback = this.media.get(id)!
+        if (changed('source')) {
+          const { source } = current as MediaOverlayConfig
+          pending.push(this.swapMedia(id, overlay, next, source))
+          break
+        }
+        playback.apply(merged as Partial<MediaOverlayConfig>)
+        if (changed('scale', 'width', 'height', 'opacity')) this.sizeSprite(playback.sprite, next)
+        this.patchConfig(id, { paused: playback.isPaused() })
+        break
+      }
+    }
+    // Content changes resize overlays that are not anchored top-left
+    this.placeOverlay(id)
+
+    if (changed('visible')) {
+      pending.push(next.visible === false ? this.hideOverlay(id) : this.showOverlay(id))
     }
+
+    await Promise.all(pending)
   }
 
   /**
-   * Update lower third content
+   * Throw for settings that cannot be drawn, before a patch is stored
    */
-  updateLowerThird(id: string, title: string, subtitle?: string): void {
-    const overlay = this.overlays.get(id)
-    if (overlay) {
-      const texts = overlay.children.filter(child => child instanceof Text) as Text[]
-      if (texts.length > 0) {
-        texts[0].text = title // Title
-        if (texts.length > 1 && subtitle) {
-          texts[1].text = subtitle // Subtitle
-        }
+  private assertDrawable(config: AnyOverlayConfig): void {
+    if (config.type === 'lower-third') {
+      const name = config.template ?? 'classic'
+      if (!getLowerThirdTemplate(name)) {
+        throw new Error(`Lower third template ${name} not found`)
       }
+    } else if (config.type === 'clock') {
+      // Throws a RangeError for an unknown timezone
+      formatClock(new Date(), config.format ?? DEFAULT_TIMER_FORMATS.clock, config)
     }
   }
 
   /**
-   * Show/hide overlay
+   * Throw for a finish or end action that could not run, so it fails when
+   * set instead of on the ticker when the countdown or video ends
    */
-  setOverlayVisibility(id: string, visible: boolean): void {
-    const overlay = this.overlays.get(id)
-    if (overlay) {
-      overlay.visible = visible
+  private assertActions(config: AnyOverlayConfig): void {
+    let action: OverlayAction | undefined
+    if (config.type === 'countdown') {
+      action = config.onFinish
+    } else if (isMediaOverlay(config)) {
+      action = config.onEnd
+    }
+
+    if (action?.type === 'apply-layout' && !getLayoutPreset(action.layoutId)) {
+      throw new Error(`Layout ${action.layoutId} not found`)
+    }
+  }
+
+  /**
+   * Load a new image source and swap it in, keeping the old texture and
+   * source if loading fails
+   */
+  private async swapTexture(
+    id: string,
+    sprite: Sprite,
+    config: ImageOverlayConfig,
+    previousSource: ImageOverlayConfig['source']
+  ): Promise<void> {
+    try {
+      const texture = await this.loadTexture(config.source)
+      // The overlay may have been removed or updated again while loading
+      const latest = this.configs.get(id) as ImageOverlayConfig | undefined
+      if (sprite.destroyed || latest?.source !== config.source) return
+      sprite.texture = texture
+      this.sizeSprite(sprite, latest)
+      this.placeOverlay(id)
+    } catch (error) {
+      this.patchConfig(id, { source: previousSource })
+      throw error
+    }
+  }
+
+  /**
+   * Load a new video or animated image and swap it in, keeping the old
+   * one playing and its source if loading fails
+   */
+  private async swapMedia(
+    id: string,
+    overlay: Container,
+    config: MediaOverlayConfig,
+    previousSource: string
+  ): Promise<void> {
+    let playback: MediaPlayback
+    try {
+      playback = await this.loadMedia(config)
+    } catch (error) {
+      this.patchConfig(id, { source: previousSource })
+      throw error
+    }
+
+    // The overlay may have been removed or updated again while loading
+    const latest = this.configs.get(id) as MediaOverlayConfig | undefined
+    if (overlay.destroyed || latest?.source !== config.source) {
+      playback.destroy()
+      return
+    }
+
+    const previous = this.media.get(id)
+    if (previous) {
+      this.releaseMedia(id, previous)
+    }
+    this.media.set(id, playback)
+    overlay.addChild(playback.sprite)
+    this.sizeSprite(playback.sprite, latest)
+    this.patchConfig(id, { paused: playback.isPaused() })
+    this.placeOverlay(id)
+    if (playback.element) {
+      this.emit('media-created', { id, element: playback.element })
     }
   }
 
+  /**
+   * Stop a media overlay's playback and free its video element
+   */
+  private releaseMedia(id: string, playback: MediaPlayback): void {
+    playback.destroy()
+    if (playback.element) {
+      this.emit('media-removed', { id, element: playback.element })
+    }
+  }
+
+  /**
+   * Play a paused video or animated image overlay
+   */
+  playOverlay(id: string): Promise<void> {
+    return this.updateOverlay(id, { paused: false })
+  }
+
+  /**
+   * Pause a video or animated image overlay on its current frame
+   */
+  pauseOverlay(id: string): Promise<void> {
+    return this.updateOverlay(id, { paused: true })
+  }
+
+  /**
+   * Get an overlay's effective config, including every update applied
+   */
+  getOverlayConfig(id: string): AnyOverlayConfig | undefined {
+    const config = this.configs.get(id)
+    return config ? { ...config } : undefined
+  }
+
+  /**
+   * Update text overlay content
+   */
+  updateTextOverlay(id: string, content: string): Promise<void> {
+    return this.updateOverlay(id, { content })
+  }
+
+  /**
+   * Update lower third content
+   */
+  updateLowerThird(id: string, title: string, subtitle?: string): Promise<void> {
+    return this.updateOverlay(id, subtitle ? { title, subtitle } : { title })
+  }
+
+  /**
+   * Show/hide overlay, playing its enter or exit animation
+   */
+  setOverlayVisibility(id: string, visible: boolean): Promise<void> {
+    return visible ? this.showOverlay(id) : this.hideOverlay(id)
+  }
+
+  /**
+   * Show an overlay with its enter animation or the one given. Resolves
+   * when the animation finishes.
+   */
+  showOverlay(id: string, animation?: OverlayAnimation): Promise<void> {
+    const overlay = this.overlays.get(id)
+    if (!overlay) return Promise.resolve()
+
+    const wasShown = overlay.visible && !this.animations.has(id)
+    this.animations.get(id)?.cancel()
+    overlay.visible = true
+    this.patchConfig(id, { visible: true })
+    if (wasShown) return Promise.resolve()
+
+    return this.play(id, overlay, animation ?? this.configs.get(id)?.enter, 'in')
+  }
+
+  /**
+   * Hide an overlay with its exit animation or the one given. Resolves
+   * when the animation finishes.
+   */
+  hideOverlay(id: string, animation?: OverlayAnimation): Promise<void> {
+    const overlay = this.overlays.get(id)
+    if (!overlay) return Promise.resolve()
+
+    this.animations.get(id)?.cancel()
+    this.patchConfig(id, { visible: false })
+    if (!overlay.visible) return Promise.resolve()
+
+    return this.play(id, overlay, animation ?? this.configs.get(id)?.exit, 'out')
+  }
+
+  /**
+   * Run an enter or exit animation, replacing any running on the overlay
+   */
+  private play(
+    id: string,
+    overlay: Container,
+    animation: OverlayAnimation | undefined,
+    direction: 'in' | 'out'
+  ): Promise<void> {
+    const running = animateOverlay(
+      this.ticker,
+      overlay,
+      animation ?? { type: 'none' },
+      direction,
+      this.viewport
+    )
+    if (running.done) return running.promise
+
+    this.animations.set(id, running)
+    return running.promise.then(() => {
+      if (this.animations.get(id) === running) {
+        this.animations.delete(id)
+      }
+    })
+  }
+
   /**
    * Move overlay to new position
    */
   moveOverlay(id: string, x: number, y: number): void {
     const overlay = this.overlays.get(id)
     if (overlay) {
-      overlay.x = x
-      overlay.y = y
+      // Settle a running animation so it doesn't move the overlay back
+      this.animations.get(id)?.finish()
+      this.patchConfig(id, { x, y })
+      this.placeOverlay(id)
     }
   }
 
   /**
-   * Remove overlay
+   * Remove overlay after playing its exit animation, unless `animate` is
+   * false. The id is free for a new overlay right away.
    */
-  removeOverlay(id: string): void {
+  removeOverlay(id: string, animate = true): Promise<void> {
     const overlay = this.overlays.get(id)
-    if (overlay) {
+    if (!overlay) return Promise.resolve()
+
+    const exit = this.configs.get(id)?.exit
+    const crawl = this.crawls.get(id)
+    const playback = this.media.get(id)
+    this.animations.get(id)?.cancel()
+    this.animations.delete(id)
+    this.overlays.delete(id)
+    this.configs.delete(id)
+    this.timers.delete(id)
+    this.crawls.delete(id)
+    this.media.delete(id)
+    if (this.frameUpdates.delete(id) && this.frameUpdates.size === 0) {
+      this.ticker?.remove(this.updateFrame)
+    }
+
+    // A ticker keeps scrolling while it animates out
+    const scroll = crawl ? (ticker: Ticker) => crawl.update(ticker.deltaMS) : null
+    const destroy = () => {
+      if (scroll) this.ticker?.remove(scroll)
+      crawl?.destroy()
+      if (playback) this.releaseMedia(id, playback)
       this.container.removeChild(overlay)
       overlay.destroy()
-      this.overlays.delete(id)
     }
+
+    if (!animate || !exit || !overlay.visible) {
+      destroy()
+      return Promise.resolve()
+    }
+
+    if (scroll) this.ticker?.add(scroll)
+    const running = animateOverlay(this.ticker, overlay, exit, 'out', this.viewport, destroy)
+    this.removing.add(running)
+    return running.promise.then(() => {
+      this.removing.delete(running)
+    })
+  }
+
+  /**
+   * Take every overlay off this manager without destroying it, so it can
+   * move to another canvas with its playback, timer and crawl state.
+   * Running animations are settled first.
+   */
+  detachOverlays(): DetachedOverlay[] {
+    this.animations.forEach(running => running.finish())
+    this.animations.clear()
+    this.removing.forEach(running => running.finish())
+    this.removing.clear()
+
+    const detached = Array.from(this.overlays, ([id, container]): DetachedOverlay => ({
+      config: this.configs.get(id)!,
+      container,
+      timer: this.timers.get(id),
+      crawl: this.crawls.get(id),
+      media: this.media.get(id)
+    }))
+    detached.forEach(({ config, container, media }) => {
+      this.container.removeChild(container)
+      if (media?.element) {
+        this.emit('media-removed', { id: config.id, element: media.element })
+      }
+    })
+
+    this.overlays.clear()
+    this.configs.clear()
+    this.timers.clear()
+    this.crawls.clear()
+    this.media.clear()
+    if (this.frameUpdates.size > 0) {
+      this.frameUpdates.clear()
+      this.ticker?.remove(this.updateFrame)
+    }
+    return detached
+  }
+
+  /**
+   * Take over overlays detached from another manager. They keep running
+   * where they were and replace any overlay with the same id.
+   */
+  attachOverlays(detached: DetachedOverlay[]): void {
+    detached.forEach(({ config, container, timer, crawl, media }) => {
+      const { id } = config
+      this.removeOverlay(id, false)
+
+      this.container.addChild(container)
+      this.overlays.set(id, container)
+      this.configs.set(id, config)
+      if (timer) {
+        timer.setFinishHandler(this.handleCountdownFinished)
+        this.trackTimer(id, timer)
+      }
+      if (crawl) this.trackCrawl(id, crawl)
+      if (media) {
+        media.setHandlers(this.mediaHandlers(id))
+        this.media.set(id, media)
+      }
+      if (config.type === 'lower-third') {
+        drawLowerThird(container, config, this.lowerThirdTheme)
+      }
+      this.placeOverlay(id)
+
+      if (media?.element) {
+        this.emit('media-created', { id, element: media.element })
+      }
+    })
   }
 
   /**
-   * Clear all overlays
+   * Clear all overlays without exit animations
    */
   clearAllOverlays(): void {
     for (const [id] of this.overlays) {
-      this.removeOverlay(id)
+      this.removeOverlay(id, false)
     }
+    // Finishing destroys overlays still playing their exit
+    this.removing.forEach(running => running.finish())
+    this.removing.clear()
   }
 
   /**
@@ -268,6 +996,23 @@ export class OverlayManager {
     return this.overlays.get(id)
   }
 
+  /**
+   * Get the configs of all overlays, including updates applied since creation
+   */
+  getOverlayConfigs(): AnyOverlayConfig[] {
+    return Array.from(this.configs.values(), config => ({ ...config }))
+  }
+
+  /**
+   * Merge updated fields into a stored overlay config
+   */
+  private patchConfig(id: string, patch: Partial<AnyOverlayConfig>): void {
+    const config = this.configs.get(id)
+    if (config) {
+      this.configs.set(id, { ...config, ...patch } as AnyOverlayConfig)
+    }
+  }
+
   /**
    * List all overlay IDs
    */
@@ -307,15 +1052,30 @@ export const OVERLAY_PRESETS = {
     type: 'lower-third',
     title,
     subtitle,
+    template: 'accent-bar',
     x: 50,
-    y: -150, // Position from bottom
+    y: -80, // Bottom edge 80px above the bottom of the canvas
     width: 400,
-    height: 80,
-    backgroundColor: 0x1a1a1a,
-    textColor: 0xffffff,
     zIndex: 150
   }),
 
+  nameplate: (zoneId: string, name: string): LowerThirdConfig => ({
+    id: `nameplate-${zoneId}`,
+    type: 'lower-third',
+    title: name,
+    template: 'pill',
+    zoneId,
+    anchor: 'bottom-left',
+    x: 0,
+    y: 0,
+    margin: 12,
+    maxWidth: 320,
+    theme: { titleSize: 18, padding: 8 },
+    enter: { type: 'fade' },
+    exit: { type: 'fade' },
+    zIndex: 160
+  }),
+
   streamTitle: (title: string): TextOverlayConfig => ({
     id: 'stream-title',
     type: 'text',
@@ -0,0 +1,88 @@
+/**
+ * Overlay Placement for VueStream Canvas
+ *
+ * Resolves overlay coordinates against the canvas or a layout zone: pixel or
+ * fractional units, a nine-point anchor and a margin from the edges
+ */
+
+import type { OverlayViewport } from './overlayAnimations'
+
+export type OverlayAnchor =
+  | 'top-left'
+  | 'top'
+  | 'top-right'
+  | 'left'
+  | 'center'
+  | 'right'
+  | 'bottom-left'
+  | 'bottom'
+  | 'bottom-right'
+
+// Pixels, or fractions of the canvas width and height like layout zones
+export type OverlayUnits = 'px' | 'fraction'
+
+export interface OverlayPlacement {
+  x: number
+  y: number
+  // Point of the canvas and of the overlay that line up; defaults to 'top-left'
+  anchor?: OverlayAnchor
+  units?: OverlayUnits
+  // Distance kept from the anchored edges, in `units`
+  margin?: number
+}
+
+type Alignment = 'start' | 'center' | 'end'
+
+const ANCHOR_ALIGNMENTS: Record<OverlayAnchor, [Alignment, Alignment]> = {
+  'top-left': ['start', 'start'],
+  top: ['center', 'start'],
+  'top-right': ['end', 'start'],
+  left: ['start', 'center'],
+  center: ['center', 'center'],
+  right: ['end', 'center'],
+  'bottom-left': ['start', 'end'],
+  bottom: ['center', 'end'],
+  'bottom-right': ['end', 'end']
+}
+
+/**
+ * Place along one axis. Offsets from an edge point inward; a negative
+ * offset is measured from the opposite edge instead. Centered overlays
+ * move right or down with positive offsets.
+ */
+function resolveAxis(
+  alignment: Alignment,
+  offset: number,
+  margin: number,
+  size: number,
+  canvasSize: number
+): number {
+  if (alignment === 'center') {
+    return (canvasSize - size) / 2 + offset
+  }
+  const fromEnd = (alignment === 'end') !== (offset < 0)
+  const distance = margin + Math.abs(offset)
+  return fromEnd ? canvasSize - distance - size : distance
+}
+
+/**
+ * Resolve an overlay's top-left corner in pixels. With the default
+ * top-left anchor, x: -50 puts the overlay's right edge 50px from the
+ * right of the canvas and y: -150 its bottom edge 150px above the bottom.
+ */
+export function resolveOverlayPosition(
+  placement: OverlayPlacement,
+  size: { width: number; height: number },
+  viewport: OverlayViewport
+): { x: number; y: number } {
+  const [horizontal, vertical] = ANCHOR_ALIGNMENTS[placement.anchor ?? 'top-left']
+  const fraction = placement.units === 'fraction'
+  const scaleX = fraction ? viewport.width : 1
+  const scaleY = fraction ? viewport.height : 1
+  const margin = placement.margin ?? 0
+
+  return {
+    x: resolveAxis(horizontal, placement.x * scaleX, margin * scaleX, size.width, viewport.width),
+    y: resolveAxis(vertical, placement.y * scaleY, margin * scaleY, size.height, viewport.height)
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Scene Serialization for VueStream Canvas
+ *
+ * Versioned, JSON-serializable snapshots of layouts, zones and overlays
+ */
+
+import type { AnyOverlayConfig } from './overlays'
+import type { LayoutPreset } from './layouts'
+import type { LayoutZone } from './types'
+import { DEFAULT_ZONE_FIT, type FocalPoint, type ZoneFitMode } from './fit'
+
+/**
+ * Current scene document schema version
+ */
+export const SCENE_VERSION = 2
+
+export interface SceneZone {
+  id: string
+  // Fractions of the canvas size, so scenes survive a different resolution
+  x: number
+  y: number
+  width: number
+  height: number
+  zIndex: number
+  layer: string
+  videoId?: string
+  fitMode: ZoneFitMode
+  focalPoint: FocalPoint
+  cornerRadius: number
+}
+
+export interface SceneDocument {
+  version: number
+  createdAt: number
+  canvas: {
+    width: number
+    height: number
+    backgroundColor: number | string
+  }
+  layout: LayoutPreset | null
+  zones: SceneZone[]
+  overlays: AnyOverlayConfig[]
+}
+
+/**
+ * Upgrades a raw scene document by exactly one version
+ */
+export type SceneMigration = (scene: Record<string, unknown>) => Record<string, unknown>
+
+/**
+ * Scene migrations keyed by the version they upgrade from
+ */
+export const SCENE_MIGRATIONS: Record<number, SceneMigration> = {
+  // v2 added per-zone fit settings
+  1: scene => ({
+    ...scene,
+    zones: (scene.zones as Record<string, unknown>[]).map(zone => ({
+      fitMode: DEFAULT_ZONE_FIT.fitMode,
+      focalPoint: { ...DEFAULT_ZONE_FIT.focalPoint },
+      cornerRadius: DEFAULT_ZONE_FIT.cornerRadius,
+      ...zone
+    }))
+  })
+}
+
+/**
+ * Check whether an overlay config can be written to JSON
+ */
+export function isSerializableOverlay(config: AnyOverlayConfig): boolean {
+  // Custom easing functions can't be written to JSON; named curves can
+  if ([config.enter, config.exit].some(animation => typeof animation?.easing === 'function')) {
+    return false
+  }
+  if (config.type === 'image' || config.type === 'logo') {
+    return typeof config.source === 'string'
+  }
+  return true
+}
+
+/**
+ * Convert a live layout zone into its serializable form
+ */
+export function serializeZone(
+  zone: LayoutZone,
+  canvasWidth: number,
+  canvasHeight: number,
+  layer: string
+): SceneZone {
+  return {
+    id: zone.id,
+    x: zone.x / canvasWidth,
+    y: zone.y / canvasHeight,
+    width: zone.width / canvasWidth,
+    height: zone.height / canvasHeight,
+    zIndex: zone.zIndex,
+    layer,
+    ...(zone.videoTexture && { videoId: zone.videoTexture.id }),
+    fitMode: zone.fit.fitMode,
+    focalPoint: { ...zone.fit.focalPoint },
+    cornerRadius: zone.fit.cornerRadius
+  }
+}
+
+/**
+ * Validate a scene document and upgrade it to the current schema version
+ */
+export function migrateScene(input: unknown): SceneDocument {
+  if (!input || typeof input !== 'object') {
+    throw new Error('Scene document must be an object')
+  }
+
+  let scene = { ...(input as Record<string, unknown>) }
+  let version = scene.version
+
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error('Scene document has no valid version')
+  }
+  if (version > SCENE_VERSION) {
+    throw new Error(`Scene version ${version} is newer than supported version ${SCENE_VERSION}`)
+  }
+
+  while (version < SCENE_VERSION) {
+    const migration = SCENE_MIGRATIONS[version]
+    if (!migration) {
+      throw new Error(`No scene migration from version ${version}`)
+    }
+    scene = migration(scene)
+    version += 1
+    scene.version = version
+  }
+
+  assertSceneDocument(scene)
+  return scene
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Check the shape of a migrated scene, naming the first problem found
+ */
+function assertSceneDocument(
+  scene: Record<string, unknown>
+): asserts scene is Record<string, unknown> & SceneDocument {
+  const { canvas, layout } = scene
+
+  if (!isRecord(canvas)) {
+    throw new Error('Scene document is missing canvas settings')
+  }
+  if (typeof canvas.width !== 'number' || typeof canvas.height !== 'number') {
+    throw new Error('Scene document has no valid canvas size')
+  }
+  if (typeof canvas.backgroundColor !== 'number' && typeof canvas.backgroundColor !== 'string') {
+    throw new Error('Scene document has no valid canvas background color')
+  }
+  if (layout !== null && (!isRecord(layout) || !Array.isArray(layout.zones))) {
+    throw new Error('Scene document layout must be a layout preset or null')
+  }
+  if (!Array.isArray(scene.zones) || !Array.isArray(scene.overlays)) {
+    throw new Error('Scene document is missing zones or overlays')
+  }
+
+  scene.zones.forEach((zone: unknown, index) => assertSceneZone(zone, index))
+  scene.overlays.forEach((overlay: unknown, index) => {
+    if (!isRecord(overlay) || typeof overlay.id !== 'string' || !overlay.id) {
+      throw new Error(`Scene overlay ${index} has no valid id`)
+    }
+    if (typeof overlay.type !== 'string') {
+      throw new Error(`Scene overlay ${overlay.id} has no valid type`)
+    }
+  })
+}
+
+function assertSceneZone(zone: unknown, index: number): void {
+  if (!isRecord(zone) || typeof zone.id !== 'string' || !zone.id) {
+    throw new Error(`Scene zone ${index} has no valid id`)
+  }
+  for (const key of ['x', 'y', 'width', 'height']) {
+    const value = zone[key]
+    if (typeof value !== 'number' || !(value >= 0 && value <= 1)) {
+      throw new Error(`Scene zone ${zone.id} ${key} must be a fraction between 0 and 1`)
+    }
+  }
+  if (typeof zone.layer !== 'string') {
+    throw new Error(`Scene zone ${zone.id} has no valid layer`)
+  }
+}
@@ -0,0 +1,327 @@
+/**
+ * Timer Overlays for VueStream Canvas
+ *
+ * Countdown, stopwatch and clock overlays: format strings, timezones and
+ * the running state behind pause, resume and reset
+ */
+
+import type { Text } from 'pixi.js'
+import type { OverlayConfig, TextOverlayConfig } from './overlays'
+import type { LayoutTransitionOptions } from './transitions'
+
+/**
+ * Something to do when a countdown reaches zero or a one-shot video or
+ * animation ends. `hide` and `remove` act on that overlay itself.
+ */
+export type OverlayAction =
+  | { type: 'hide' }
+  | { type: 'remove' }
+  | { type: 'show-overlay'; overlayId: string }
+  | { type: 'hide-overlay'; overlayId: string }
+  | { type: 'apply-layout'; layoutId: string; transition?: LayoutTransitionOptions }
+
+interface TimerOverlayBase extends OverlayConfig {
+  style?: TextOverlayConfig['style']
+  paused?: boolean
+  // Restart the timer when passed to updateOverlay; never stored
+  reset?: boolean
+}
+
+export interface CountdownOverlayConfig extends TimerOverlayBase {
+  type: 'countdown'
+  // Count down to this timestamp (ms since epoch)...
+  target?: number
+  // ...or for this many milliseconds from creation or reset
+  duration?: number
+  // Duration format, e.g. 'mm:ss' or 'h:mm:ss.S'; see formatDuration
+  format?: string
+  // Shown instead of the zeroed time once finished
+  finishedText?: string
+  onFinish?: OverlayAction
+}
+
+export interface StopwatchOverlayConfig extends TimerOverlayBase {
+  type: 'stopwatch'
+  format?: string
+}
+
+export interface ClockOverlayConfig extends TimerOverlayBase {
+  type: 'clock'
+  // Date format, e.g. 'HH:mm' or 'ddd h:mm A z'; see formatClock
+  format?: string
+  // IANA zone such as 'Europe/Berlin'; defaults to the local zone
+  timeZone?: string
+  // Locale for weekday, month and zone names
+  locale?: string
+}
+
+export type TimerOverlayConfig =
+  | CountdownOverlayConfig
+  | StopwatchOverlayConfig
+  | ClockOverlayConfig
+
+export const TIMER_OVERLAY_TYPES = ['countdown', 'stopwatch', 'clock'] as const
+
+export const DEFAULT_TIMER_FORMATS: Record<TimerOverlayConfig['type'], string> = {
+  countdown: 'mm:ss',
+  stopwatch: 'mm:ss',
+  clock: 'HH:mm:ss'
+}
+
+const DURATION_TOKENS = /\[([^\]]*)\]|d+|h+|m+|s+|S+/g
+const CLOCK_TOKENS = /\[([^\]]*)\]|YYYY|MMM|MM|M|DD|D|ddd|HH|H|hh|h|mm|ss|A|a|z/g
+
+const UNIT_MS: Record<string, number> = {
+  d: 86_400_000,
+  h: 3_600_000,
+  m: 60_000,
+  s: 1000
+}
+
+/**
+ * Format a duration. Tokens: d, h/hh, m/mm, s/ss and S/SS/SSS for tenths,
+ * hundredths or milliseconds; text in [brackets] is literal. The largest
+ * unit in the format absorbs the rest, so 'mm:ss' shows 90 minutes as
+ * 90:00. Time is rounded to the smallest unit, down unless `roundUp`.
+ */
+export function formatDuration(ms: number, format: string, roundUp = false): string {
+  const tokens = format.match(DURATION_TOKENS) ?? []
+  const units = ['d', 'h', 'm', 's'].filter(unit => tokens.some(t => t[0] === unit))
+  const fraction = tokens.find(t => t[0] === 'S')?.length ?? 0
+
+  // Round to the smallest unit shown
+  const step = fraction > 0
+    ? 1000 / 10 ** Math.min(fraction, 3)
+    : UNIT_MS[units[units.length - 1]] ?? 1000
+  const round = roundUp ? Math.ceil : Math.floor
+  let rest = round(Math.max(0, ms) / step) * step
+
+  const values: Record<string, number> = {}
+  units.forEach(unit => {
+    values[unit] = Math.floor(rest / UNIT_MS[unit])
+    rest -= values[unit] * UNIT_MS[unit]
+  })
+
+  return format.replace(DURATION_TOKENS, (token, literal: string | undefined) => {
+    if (literal !== undefined) return literal
+    if (token[0] === 'S') {
+      const digits = Math.min(token.length, 3)
+      return String(Math.floor(rest / 10 ** (3 - digits))).padStart(digits, '0')
+    }
+    return String(values[token[0]]).padStart(token.length, '0')
+  })
+}
+
+const formatters: Map<string, Intl.DateTimeFormat> = new Map()
+
+function getFormatter(
+  locale: string | undefined,
+  timeZone: string | undefined,
+  options: Intl.DateTimeFormatOptions
+): Intl.DateTimeFormat {
+  const key = JSON.stringify([locale, timeZone, options])
+  let formatter = formatters.get(key)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat(locale, { timeZone, ...options })
+    formatters.set(key, formatter)
+  }
+  return formatter
+}
+
+/**
+ * Format a date in a timezone. Tokens: YYYY, MMM/MM/M, DD/D, ddd, HH/H
+ * (24h), hh/h (12h), mm, ss, A/a (AM/PM) and z (zone name); text in
+ * [brackets] is literal. Throws a RangeError for unknown timezones.
+ */
+export function formatClock(
+  date: Date,
+  format: string,
+  options: { timeZone?: string; locale?: string } = {}
+): string {
+  const { timeZone, locale } = options
+  const parts: Record<string, string> = {}
+  getFormatter('en-US', timeZone, {
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    hourCycle: 'h23'
+  }).formatToParts(date).forEach(part => {
+    parts[part.type] = part.value
+  })
+
+  const named = (option: Intl.DateTimeFormatOptions, type: Intl.DateTimeFormatPartTypes) =>
+    getFormatter(locale, timeZone, option).formatToParts(date)
+      .find(part => part.type === type)?.value ?? ''
+
+  const hour = Number(parts.hour) % 24
+  const pad = (value: string | number) => String(value).padStart(2, '0')
+
+  return format.replace(CLOCK_TOKENS, (token, literal: string | undefined) => {
+    if (literal !== undefined) return literal
+    switch (token) {
+      case 'YYYY': return parts.year
+      case 'MMM': return named({ month: 'short' }, 'month')
+      case 'MM': return pad(parts.month)
+      case 'M': return parts.month
+      case 'DD': return pad(parts.day)
+      case 'D': return parts.day
+      case 'ddd': return named({ weekday: 'short' }, 'weekday')
+      case 'HH': return pad(hour)
+      case 'H': return String(hour)
+      case 'hh': return pad(hour % 12 || 12)
+      case 'h': return String(hour % 12 || 12)
+      case 'mm': return pad(parts.minute)
+      case 'ss': return pad(parts.second)
+      case 'A': return hour < 12 ? 'AM' : 'PM'
+      case 'a': return hour < 12 ? 'am' : 'pm'
+      default: return named({ timeZoneName: 'short' }, 'timeZoneName')
+    }
+  })
+}
+
+/**
+ * Check whether an overlay config is a timer
+ */
+export function isTimerOverlay(config: { type: string }): config is TimerOverlayConfig {
+  return (TIMER_OVERLAY_TYPES as readonly string[]).includes(config.type)
+}
+
+/**
+ * Keeps a timer overlay's text current and tracks its running state.
+ * Call update() on every frame once the overlay is in place.
+ */
+export class TimerDisplay {
+  private config: TimerOverlayConfig
+  private text: Text
+  // Countdown end or stopwatch start while running
+  private anchor = 0
+  // Remaining or elapsed time while paused
+  private frozen: number | null = null
+  private finished = false
+  private onFinish: (config: CountdownOverlayConfig) => void
+
+  constructor(
+    config: TimerOverlayConfig,
+    text: Text,
+    onFinish: (config: CountdownOverlayConfig) => void,
+    now = Date.now()
+  ) {
+    this.config = config
+    this.text = text
+    this.onFinish = onFinish
+    this.reset(now)
+    // Throws here for an unknown timezone, before the overlay is added
+    this.render(now)
+  }
+
+  /**
+   * Apply updated settings: `paused` pauses or resumes, `reset` or a new
+   * target or duration restarts
+   */
+  apply(updates: Partial<TimerOverlayConfig>, now = Date.now()): void {
+    const { reset, paused, ...settings } = updates
+    this.config = { ...this.config, ...settings } as TimerOverlayConfig
+
+    if (reset || 'target' in settings || 'duration' in settings) {
+      this.config.paused = paused ?? this.config.paused
+      this.reset(now)
+    } else if (paused !== undefined && paused !== this.isPaused()) {
+      if (paused) this.pause(now)
+      else this.resume(now)
+    }
+    this.update(now)
+  }
+
+  isPaused(): boolean {
+    return this.frozen !== null
+  }
+
+  /**
+   * Replace the callback run when a countdown finishes, e.g. once the
+   * overlay has moved to another canvas
+   */
+  setFinishHandler(onFinish: (config: CountdownOverlayConfig) => void): void {
+    this.onFinish = onFinish
+  }
+
+  pause(now = Date.now()): void {
+    if (this.frozen !== null || this.config.type === 'clock') return
+    this.frozen = this.config.type === 'countdown' ? this.anchor - now : now - this.anchor
+    this.config.paused = true
+  }
+
+  resume(now = Date.now()): void {
+    if (this.frozen === null) return
+    this.anchor = this.config.type === 'countdown' ? now + this.frozen : now - this.frozen
+    this.frozen = null
+    this.config.paused = false
+  }
+
+  /**
+   * Restart from the full duration or zero, keeping the paused state
+   */
+  reset(now = Date.now()): void {
+    const { config } = this
+    this.finished = false
+    this.frozen = null
+
+    if (config.type === 'countdown') {
+      this.anchor = config.target ?? now + (config.duration ?? 0)
+    } else {
+      this.anchor = now
+    }
+    if (config.paused) {
+      this.pause(now)
+    }
+  }
+
+  /**
+   * Refresh the text and return whether it changed; fires onFinish once
+   * when a countdown reaches zero
+   */
+  update(now = Date.now()): boolean {
+    const { atZero, changed } = this.render(now)
+    if (atZero && !this.finished) {
+      this.finished = true
+      this.onFinish(this.config as CountdownOverlayConfig)
+    }
+    return changed
+  }
+
+  /**
+   * Set the text for the given time; reports whether it changed and
+   * whether a countdown is at zero
+   */
+  private render(now: number): { atZero: boolean; changed: boolean } {
+    const { config } = this
+    const format = config.format ?? DEFAULT_TIMER_FORMATS[config.type]
+    let content: string
+    let atZero = false
+
+    if (config.type === 'clock') {
+      content = formatClock(new Date(now), format, config)
+    } else if (config.type === 'stopwatch') {
+      content = formatDuration(this.frozen ?? now - this.anchor, format)
+    } else {
+      const remaining = this.frozen ?? this.anchor - now
+      atZero = remaining <= 0
+      content = atZero && config.finishedText !== undefined
+        ? config.finishedText
+        : formatDuration(remaining, format, true)
+    }
+
+    // Re-rendering text is expensive; only touch it when it changed
+    const changed = this.text.text !== content
+    if (changed) {
+      this.text.text = content
+    }
+    return { atZero, changed }
+  }
+
+  getConfig(): TimerOverlayConfig {
+    return { ...this.config }
+  }
+}
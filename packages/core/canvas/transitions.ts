@@ -0,0 +1,71 @@
+/**
+ * Layout Transitions for VueStream Canvas
+ *
+ * Matching and interpolation used when animating between layout presets
+ */
+
+import type { Easing } from './animation'
+import type { LayoutZone } from './types'
+
+export interface LayoutTransitionOptions {
+  duration?: number
+  easing?: Easing
+  // 'move' tweens matched zones to their new rect, 'crossfade' dissolves between layouts
+  mode?: 'move' | 'crossfade'
+}
+
+export interface ZoneRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export const DEFAULT_LAYOUT_TRANSITION: Required<Omit<LayoutTransitionOptions, 'easing'>> & {
+  easing: Easing
+} = {
+  duration: 500,
+  easing: 'easeInOut',
+  mode: 'move'
+}
+
+/**
+ * Pair each incoming zone id with the outgoing zone it replaces.
+ * Zones match by id first; outgoing zones still holding a video are
+ * then paired with the remaining incoming zones in order.
+ */
+export function matchZones(previous: LayoutZone[], nextIds: string[]): Map<string, LayoutZone> {
+  const matches = new Map<string, LayoutZone>()
+  const used = new Set<LayoutZone>()
+
+  for (const id of nextIds) {
+    const zone = previous.find(z => z.id === id)
+    if (zone) {
+      matches.set(id, zone)
+      used.add(zone)
+    }
+  }
+
+  const withVideo = previous.filter(zone => !used.has(zone) && zone.videoTexture)
+  for (const id of nextIds) {
+    if (matches.has(id)) continue
+    const zone = withVideo.shift()
+    if (!zone) break
+    matches.set(id, zone)
+  }
+
+  return matches
+}
+
+/**
+ * Interpolate between two rects
+ */
+export function lerpRect(from: ZoneRect, to: ZoneRect, progress: number): ZoneRect {
+  const lerp = (a: number, b: number) => a + (b - a) * progress
+  return {
+    x: lerp(from.x, to.x),
+    y: lerp(from.y, to.y),
+    width: lerp(from.width, to.width),
+    height: lerp(from.height, to.height)
+  }
+}
@@ -4,7 +4,8 @@
  * Type definitions for Pixi.js canvas operations, video textures, and layout management
  */
 
-import type { Application, Container, Texture, Sprite } from 'pixi.js'
+import type { Application, Container, Graphics, Texture, Sprite } from 'pixi.js'
+import type { ZoneFit } from './fit'
 
 export interface CanvasConfig {
   width: number
@@ -32,6 +33,10 @@ export interface VideoTexture {
   source: VideoTextureSource
   isActive: boolean
   lastUpdate: number
+  // Texture is owned by another canvas; only the sprite belongs to this one
+  shared?: boolean
+  // Listener for the element's `resize` event, removed on destroy
+  onResize?: () => void
 }
 
 export interface LayoutZone {
@@ -43,6 +48,17 @@ export interface LayoutZone {
   container: Container
   videoTexture?: VideoTexture
   zIndex: number
+  fit: ZoneFit
+  // Clips the video to the zone bounds
+  mask: Graphics
+  // Border drawn over the video, e.g. a speaking indicator
+  highlight?: ZoneHighlight
+  border?: Graphics
+}
+
+export interface ZoneHighlight {
+  color: number | string
+  width: number
 }
 
 export interface CanvasLayer {
@@ -99,7 +115,17 @@ export type CanvasEventType =
   | 'texture-created'
   | 'texture-destroyed'
   | 'layout-changed'
+  | 'layout-transition-start'
+  | 'layout-transition-end'
+  | 'scene-imported'
   | 'performance-update'
+  | 'capture-started'
+  | 'capture-stopped'
+  | 'countdown-finished'
+  | 'overlay-ended'
+  | 'overlay-media-created'
+  | 'overlay-media-removed'
+  | 'overlay-media-blocked'
   | 'error'
 
 export interface CanvasEvent {
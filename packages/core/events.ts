@@ -0,0 +1,40 @@
+/**
+ * Event Emitter for VueStream
+ *
+ * Listener registry shared by the core managers
+ */
+
+import type { CanvasEvent, CanvasEventListener } from './canvas/types'
+
+export class EventEmitter {
+  private eventListeners: Map<string, CanvasEventListener[]> = new Map()
+
+  on(eventType: string, listener: CanvasEventListener): void {
+    if (!this.eventListeners.has(eventType)) {
+      this.eventListeners.set(eventType, [])
+    }
+    this.eventListeners.get(eventType)!.push(listener)
+  }
+
+  off(eventType: string, listener: CanvasEventListener): void {
+    const listeners = this.eventListeners.get(eventType)
+    if (listeners) {
+      const index = listeners.indexOf(listener)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }
+
+  protected emit(type: string, data?: unknown): void {
+    const listeners = this.eventListeners.get(type)
+    if (listeners) {
+      const event: CanvasEvent = {
+        type: type as CanvasEvent['type'],
+        data,
+        timestamp: Date.now()
+      }
+      listeners.forEach(listener => listener(event))
+    }
+  }
+}
@@ -4,4 +4,9 @@
  * Core functionality for WebRTC, media management, and canvas operations
  */
 
-export * from './canvas'
\ No newline at end of file
+export * from './canvas'
+export * from './recording'
+export * from './media'
+export * from './webrtc'
+export * from './audio'
+export { EventEmitter } from './events'
\ No newline at end of file
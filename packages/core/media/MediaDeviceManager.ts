@@ -0,0 +1,311 @@
+/**
+ * Media Device Manager for VueStream
+ *
+ * Enumerates devices, remembers the chosen ones and acquires camera and
+ * screen streams as video texture sources
+ */
+
+import { EventEmitter } from '../events'
+import { createMediaDeviceError, toMediaDeviceError } from './errors'
+import type { CanvasError, VideoTextureSource } from '../canvas/types'
+import type {
+  CameraOptions,
+  DeviceSelection,
+  MediaDeviceLists,
+  MediaDeviceRole,
+  ScreenShareOptions,
+  TrackMuteState
+} from './types'
+
+const STORAGE_KEY = 'vuestream-devices'
+
+function loadSelection(): DeviceSelection {
+  const selection: DeviceSelection = { camera: null, microphone: null, speaker: null }
+  if (typeof localStorage === 'undefined') return selection
+
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}')
+    ;(Object.keys(selection) as MediaDeviceRole[]).forEach(role => {
+      if (typeof saved[role] === 'string') {
+        selection[role] = saved[role]
+      }
+    })
+  } catch {
+    // Ignore corrupt preferences
+  }
+  return selection
+}
+
+function videoConstraints(options: CameraOptions | ScreenShareOptions): MediaTrackConstraints {
+  const constraints: MediaTrackConstraints = {}
+  if (options.width) constraints.width = { ideal: options.width }
+  if (options.height) constraints.height = { ideal: options.height }
+  if (options.frameRate) constraints.frameRate = { ideal: options.frameRate }
+  return constraints
+}
+
+export class MediaDeviceManager extends EventEmitter {
+  private devices: MediaDeviceLists = { cameras: [], microphones: [], speakers: [] }
+  private selection: DeviceSelection = loadSelection()
+  private sources: Map<string, VideoTextureSource> = new Map()
+  // Sources being stopped on purpose, so their ended tracks aren't reported as lost
+  private stopping: Set<string> = new Set()
+
+  constructor() {
+    super()
+    if (typeof navigator !== 'undefined' && navigator.mediaDevices) {
+      navigator.mediaDevices.addEventListener('devicechange', this.handleDeviceChange)
+    }
+  }
+
+  /**
+   * Whether the browser exposes media devices at all
+   */
+  isSupported(): boolean {
+    return typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia
+  }
+
+  /**
+   * Enumerate devices. Labels are empty until a permission has been granted.
+   */
+  async enumerate(): Promise<MediaDeviceLists> {
+    if (!navigator.mediaDevices?.enumerateDevices) {
+      throw createMediaDeviceError('UNSUPPORTED')
+    }
+
+    const devices = await navigator.mediaDevices.enumerateDevices()
+    this.devices = {
+      cameras: devices.filter(device => device.kind === 'videoinput'),
+      microphones: devices.filter(device => device.kind === 'audioinput'),
+      speakers: devices.filter(device => device.kind === 'audiooutput')
+    }
+
+    this.emit('devices-changed', this.getDevices())
+    return this.getDevices()
+  }
+
+  /**
+   * Get the last enumerated devices
+   */
+  getDevices(): MediaDeviceLists {
+    return {
+      cameras: [...this.devices.cameras],
+      microphones: [...this.devices.microphones],
+      speakers: [...this.devices.speakers]
+    }
+  }
+
+  /**
+   * Get the chosen device ids
+   */
+  getSelection(): DeviceSelection {
+    return { ...this.selection }
+  }
+
+  /**
+   * Choose a device for a role and remember it across reloads
+   */
+  selectDevice(role: MediaDeviceRole, deviceId: string | null): void {
+    this.selection[role] = deviceId
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.selection))
+    } catch {
+      // Storage unavailable; keep the choice for this session only
+    }
+    this.emit('device-selected', { role, deviceId })
+  }
+
+  /**
+   * Acquire a camera stream, with the selected microphone unless `audio` is false
+   */
+  async startCamera(options: CameraOptions = {}): Promise<VideoTextureSource> {
+    if (!this.isSupported()) {
+      throw createMediaDeviceError('UNSUPPORTED')
+    }
+
+    const video = videoConstraints(options)
+    // An explicit device is required; a remembered one is only preferred,
+    // so a camera that has since been unplugged falls back to the default
+    if (options.deviceId) {
+      video.deviceId = { exact: options.deviceId }
+    } else if (this.selection.camera) {
+      video.deviceId = { ideal: this.selection.camera }
+    }
+    if (options.facingMode) {
+      video.facingMode = { ideal: options.facingMode }
+    }
+
+    let audio: MediaTrackConstraints | boolean = false
+    if (options.audio ?? true) {
+      const microphoneId = options.microphoneId ?? this.selection.microphone
+      audio = microphoneId ? { deviceId: { ideal: microphoneId } } : true
+    }
+
+    let stream: MediaStream
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ video, audio })
+    } catch (error) {
+      throw toMediaDeviceError(error)
+    }
+
+    const source = this.registerSource(options.id ?? `camera-${stream.id}`, 'camera', stream)
+    // Labels only become available once permission was granted
+    this.enumerate().catch(() => undefined)
+    return source
+  }
+
+  /**
+   * Acquire a screen, window or tab capture
+   */
+  async startScreenShare(options: ScreenShareOptions = {}): Promise<VideoTextureSource> {
+    if (typeof navigator === 'undefined' || !navigator.mediaDevices?.getDisplayMedia) {
+      throw createMediaDeviceError('UNSUPPORTED')
+    }
+
+    let stream: MediaStream
+    try {
+      stream = await navigator.mediaDevices.getDisplayMedia({
+        video: videoConstraints(options),
+        audio: options.audio ?? false
+      })
+    } catch (error) {
+      throw toMediaDeviceError(error)
+    }
+
+    return this.registerSource(options.id ?? `screen-${stream.id}`, 'screen', stream)
+  }
+
+  /**
+   * Stop a source's tracks
+   */
+  stopSource(id: string): void {
+    const source = this.sources.get(id)
+    if (!source) return
+
+    this.stopping.add(id)
+    source.stream.getTracks().forEach(track => track.stop())
+    this.stopping.delete(id)
+    this.endSource(source, 'stopped')
+  }
+
+  /**
+   * Mute or unmute a source's audio or video tracks. Muted tracks stay
+   * live and send silence or black frames.
+   */
+  setMuted(id: string, kind: keyof TrackMuteState, muted: boolean): void {
+    const source = this.sources.get(id)
+    if (!source) {
+      throw new Error(`Media source ${id} not found`)
+    }
+
+    const tracks = kind === 'audio'
+      ? source.stream.getAudioTracks()
+      : source.stream.getVideoTracks()
+    tracks.forEach(track => {
+      track.enabled = !muted
+    })
+    this.emit('source-muted', { id, kind, muted })
+  }
+
+  /**
+   * Get a source's mute state; kinds without tracks count as muted
+   */
+  getMuteState(id: string): TrackMuteState {
+    const stream = this.sources.get(id)?.stream
+    const isMuted = (tracks: MediaStreamTrack[]) => tracks.every(track => !track.enabled)
+    return {
+      audio: stream ? isMuted(stream.getAudioTracks()) : true,
+      video: stream ? isMuted(stream.getVideoTracks()) : true
+    }
+  }
+
+  /**
+   * Get active sources
+   */
+  getSources(): VideoTextureSource[] {
+    return Array.from(this.sources.values())
+  }
+
+  /**
+   * Play an element's audio through the selected or given speaker
+   */
+  async setAudioOutput(
+    element: HTMLMediaElement,
+    deviceId = this.selection.speaker
+  ): Promise<void> {
+    if (!('setSinkId' in element)) {
+      throw createMediaDeviceError('UNSUPPORTED')
+    }
+    try {
+      await element.setSinkId(deviceId ?? '')
+    } catch (error) {
+      throw toMediaDeviceError(error)
+    }
+  }
+
+  /**
+   * Stop all sources and stop watching for device changes
+   */
+  destroy(): void {
+    if (typeof navigator !== 'undefined' && navigator.mediaDevices) {
+      navigator.mediaDevices.removeEventListener('devicechange', this.handleDeviceChange)
+    }
+    Array.from(this.sources.keys()).forEach(id => this.stopSource(id))
+  }
+
+  private handleDeviceChange = (): void => {
+    this.enumerate().catch(() => undefined)
+  }
+
+  private registerSource(
+    id: string,
+    type: 'camera' | 'screen',
+    stream: MediaStream
+  ): VideoTextureSource {
+    if (this.sources.has(id)) {
+      this.stopSource(id)
+    }
+
+    const source: VideoTextureSource = { id, type, stream, track: stream.getVideoTracks()[0] }
+    this.sources.set(id, source)
+
+    stream.getTracks().forEach(track => {
+      track.addEventListener('ended', () => this.handleTrackEnded(source, track))
+    })
+
+    this.emit('source-started', { id, type })
+    return source
+  }
+
+  /**
+   * Tracks end on their own when a device is unplugged or a screen share
+   * is stopped from the browser UI
+   */
+  private handleTrackEnded(source: VideoTextureSource, track: MediaStreamTrack): void {
+    if (this.stopping.has(source.id) || this.sources.get(source.id) !== source) return
+
+    // Ending a screen share from the browser is a normal way to stop it
+    if (source.type === 'screen' && track.kind === 'video') {
+      this.endSource(source, 'ended')
+      return
+    }
+
+    const error: CanvasError = {
+      code: 'DEVICE_LOST',
+      message: `The ${track.kind === 'video' ? 'camera' : 'microphone'} was disconnected`,
+      timestamp: Date.now(),
+      context: { sourceId: source.id, kind: track.kind, label: track.label }
+    }
+    this.emit('error', error)
+
+    if (track.kind === 'video' || source.stream.getTracks().every(t => t.readyState === 'ended')) {
+      this.endSource(source, 'device-lost')
+    }
+  }
+
+  private endSource(source: VideoTextureSource, reason: 'stopped' | 'ended' | 'device-lost'): void {
+    this.sources.delete(source.id)
+    source.stream.getTracks().forEach(track => track.stop())
+    this.emit('source-ended', { id: source.id, type: source.type, reason })
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Media Device Errors for VueStream
+ *
+ * Maps the DOMExceptions thrown by getUserMedia/getDisplayMedia to typed errors
+ */
+
+export type MediaDeviceErrorCode =
+  | 'PERMISSION_DENIED'
+  | 'DEVICE_NOT_FOUND'
+  | 'DEVICE_IN_USE'
+  | 'DEVICE_LOST'
+  | 'CONSTRAINT_NOT_SATISFIED'
+  | 'UNSUPPORTED'
+  | 'UNKNOWN'
+
+export class MediaDeviceError extends Error {
+  readonly code: MediaDeviceErrorCode
+  // Original DOMException or error
+  readonly cause?: unknown
+
+  constructor(code: MediaDeviceErrorCode, message: string, cause?: unknown) {
+    super(message)
+    this.name = 'MediaDeviceError'
+    this.code = code
+    this.cause = cause
+  }
+}
+
+const ERROR_CODES: Record<string, MediaDeviceErrorCode> = {
+  NotAllowedError: 'PERMISSION_DENIED',
+  SecurityError: 'PERMISSION_DENIED',
+  NotFoundError: 'DEVICE_NOT_FOUND',
+  NotReadableError: 'DEVICE_IN_USE',
+  AbortError: 'DEVICE_IN_USE',
+  OverconstrainedError: 'CONSTRAINT_NOT_SATISFIED',
+  NotSupportedError: 'UNSUPPORTED',
+  TypeError: 'UNSUPPORTED'
+}
+
+const ERROR_MESSAGES: Record<MediaDeviceErrorCode, string> = {
+  PERMISSION_DENIED: 'Permission to use the device was denied',
+  DEVICE_NOT_FOUND: 'No matching device was found',
+  DEVICE_IN_USE: 'The device is in use by another application',
+  DEVICE_LOST: 'The device was disconnected',
+  CONSTRAINT_NOT_SATISFIED: 'The device cannot satisfy the requested constraints',
+  UNSUPPORTED: 'Media devices are not supported in this browser',
+  UNKNOWN: 'Unknown media device error'
+}
+
+/**
+ * Convert anything thrown by the media APIs into a MediaDeviceError
+ */
+export function toMediaDeviceError(error: unknown): MediaDeviceError {
+  if (error instanceof MediaDeviceError) return error
+
+  const name = error instanceof Error ? error.name : ''
+  const code = ERROR_CODES[name] ?? 'UNKNOWN'
+  let message = ERROR_MESSAGES[code]
+
+  const constraint = (error as { constraint?: string } | null)?.constraint
+  if (code === 'CONSTRAINT_NOT_SATISFIED' && constraint) {
+    message = `${message} (${constraint})`
+  }
+
+  return new MediaDeviceError(code, message, error)
+}
+
+/**
+ * Create an error for a code with its default message
+ */
+export function createMediaDeviceError(code: MediaDeviceErrorCode): MediaDeviceError {
+  return new MediaDeviceError(code, ERROR_MESSAGES[code])
+}
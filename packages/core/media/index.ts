@@ -0,0 +1,10 @@
+/**
+ * Media Package Exports
+ *
+ * Local device and capture management for VueStream
+ */
+
+export { MediaDeviceManager } from './MediaDeviceManager'
+export { MediaDeviceError, toMediaDeviceError, createMediaDeviceError } from './errors'
+export type { MediaDeviceErrorCode } from './errors'
+export type * from './types'
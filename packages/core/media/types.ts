@@ -0,0 +1,53 @@
+/**
+ * Media Device Types for VueStream
+ *
+ * Type definitions for local camera, microphone and screen capture
+ */
+
+export type MediaDeviceRole = 'camera' | 'microphone' | 'speaker'
+
+export interface MediaDeviceLists {
+  cameras: MediaDeviceInfo[]
+  microphones: MediaDeviceInfo[]
+  speakers: MediaDeviceInfo[]
+}
+
+// Chosen device id per role; null uses the system default
+export type DeviceSelection = Record<MediaDeviceRole, string | null>
+
+export interface CameraOptions {
+  // Source id; defaults to `camera-<stream id>`
+  id?: string
+  // Required camera; defaults to the selected camera, used as a preference
+  deviceId?: string
+  width?: number
+  height?: number
+  frameRate?: number
+  facingMode?: 'user' | 'environment'
+  // Capture the selected microphone along with the camera
+  audio?: boolean
+  microphoneId?: string
+}
+
+export interface ScreenShareOptions {
+  // Source id; defaults to `screen-<stream id>`
+  id?: string
+  width?: number
+  height?: number
+  frameRate?: number
+  // Capture tab or system audio where the browser offers it
+  audio?: boolean
+}
+
+export interface TrackMuteState {
+  audio: boolean
+  video: boolean
+}
+
+export type MediaEventType =
+  | 'devices-changed'
+  | 'device-selected'
+  | 'source-started'
+  | 'source-ended'
+  | 'source-muted'
+  | 'error'
@@ -0,0 +1,235 @@
+/**
+ * Recording Manager for VueStream
+ *
+ * Local recording of the composited canvas or a single source with MediaRecorder
+ */
+
+import { EventEmitter } from '../events'
+import type { CanvasManager } from '../canvas/CanvasManager'
+import type { RecordingOptions, RecordingResult, RecordingState } from './types'
+
+/**
+ * Container/codec preferences, best first
+ */
+export const DEFAULT_RECORDING_MIME_TYPES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm;codecs=h264,opus',
+  'video/mp4;codecs=avc1,mp4a',
+  'video/webm',
+  'video/mp4'
+]
+
+/**
+ * Filter MIME types down to the ones this browser can record
+ */
+export function getSupportedMimeTypes(candidates = DEFAULT_RECORDING_MIME_TYPES): string[] {
+  if (typeof MediaRecorder === 'undefined') return []
+  return candidates.filter(type => MediaRecorder.isTypeSupported(type))
+}
+
+export class RecordingManager extends EventEmitter {
+  private canvas: CanvasManager | null
+  private recorder: MediaRecorder | null = null
+  private chunks: Blob[] = []
+  private size = 0
+  private startedAt = 0
+  private pausedAt = 0
+  private pausedTotal = 0
+  private ownsCapture = false
+
+  constructor(canvas?: CanvasManager) {
+    super()
+    this.canvas = canvas ?? null
+  }
+
+  /**
+   * Start recording the canvas output, or `options.source` if given
+   */
+  start(options: RecordingOptions = {}): void {
+    if (this.recorder && this.recorder.state !== 'inactive') {
+      throw new Error('Recording already in progress')
+    }
+    if (typeof MediaRecorder === 'undefined') {
+      throw new Error('MediaRecorder is not supported in this browser')
+    }
+
+    const stream = this.resolveStream(options)
+    const mimeType = getSupportedMimeTypes(options.mimeTypes)[0]
+
+    try {
+      this.recorder = new MediaRecorder(stream, {
+        mimeType,
+        videoBitsPerSecond: options.videoBitsPerSecond,
+        audioBitsPerSecond: options.audioBitsPerSecond
+      })
+    } catch (error) {
+      this.releaseCapture()
+      throw error
+    }
+
+    this.chunks = []
+    this.size = 0
+    this.startedAt = Date.now()
+    this.pausedAt = 0
+    this.pausedTotal = 0
+
+    this.recorder.ondataavailable = (event: BlobEvent) => {
+      if (event.data.size === 0) return
+
+      const index = this.chunks.length
+      this.chunks.push(event.data)
+      this.size += event.data.size
+      options.onChunk?.(event.data, index)
+      this.emit('recording-chunk', { index, size: event.data.size, totalSize: this.size })
+    }
+
+    this.recorder.onerror = (event: Event) => {
+      const error = (event as Event & { error?: Error }).error
+      this.emit('recording-error', {
+        code: 'RECORDING_FAILED',
+        message: error?.message ?? 'Unknown recording error',
+        timestamp: Date.now()
+      })
+    }
+
+    this.recorder.start(options.timeslice ?? 1000)
+    this.emit('recording-started', {
+      mimeType: this.recorder.mimeType,
+      source: options.source?.id ?? 'canvas'
+    })
+  }
+
+  /**
+   * Pause recording
+   */
+  pause(): void {
+    if (this.recorder?.state !== 'recording') return
+
+    this.recorder.pause()
+    this.pausedAt = Date.now()
+    this.emit('recording-paused', { elapsed: this.getElapsed() })
+  }
+
+  /**
+   * Resume a paused recording
+   */
+  resume(): void {
+    if (this.recorder?.state !== 'paused') return
+
+    this.recorder.resume()
+    this.pausedTotal += Date.now() - this.pausedAt
+    this.pausedAt = 0
+    this.emit('recording-resumed', { elapsed: this.getElapsed() })
+  }
+
+  /**
+   * Stop recording and collect all chunks into a single blob
+   */
+  stop(): Promise<RecordingResult> {
+    const recorder = this.recorder
+    if (!recorder || recorder.state === 'inactive') {
+      return Promise.reject(new Error('No recording in progress'))
+    }
+
+    return new Promise(resolve => {
+      recorder.onstop = () => {
+        const duration = this.getElapsed()
+        const result: RecordingResult = {
+          blob: new Blob(this.chunks, { type: recorder.mimeType }),
+          mimeType: recorder.mimeType,
+          duration,
+          size: this.size
+        }
+
+        this.releaseCapture()
+        this.startedAt = 0
+        this.emit('recording-stopped', {
+          mimeType: result.mimeType,
+          duration: result.duration,
+          size: result.size
+        })
+        resolve(result)
+      }
+
+      if (recorder.state === 'paused') {
+        this.pausedTotal += Date.now() - this.pausedAt
+        this.pausedAt = 0
+      }
+      recorder.stop()
+    })
+  }
+
+  /**
+   * Get recorder state
+   */
+  getState(): RecordingState {
+    return this.recorder?.state ?? 'inactive'
+  }
+
+  /**
+   * Recorded time in ms, excluding pauses
+   */
+  getElapsed(): number {
+    if (!this.startedAt) return 0
+    const end = this.pausedAt || Date.now()
+    return end - this.startedAt - this.pausedTotal
+  }
+
+  /**
+   * Bytes recorded so far
+   */
+  getSize(): number {
+    return this.size
+  }
+
+  /**
+   * MIME type chosen by the recorder
+   */
+  getMimeType(): string {
+    return this.recorder?.mimeType ?? ''
+  }
+
+  /**
+   * Stop any recording and release resources
+   */
+  destroy(): void {
+    if (this.recorder && this.recorder.state !== 'inactive') {
+      this.recorder.ondataavailable = null
+      this.recorder.onstop = null
+      this.recorder.stop()
+    }
+    this.recorder = null
+    this.chunks = []
+    this.releaseCapture()
+  }
+
+  /**
+   * Pick the stream to record
+   */
+  private resolveStream(options: RecordingOptions): MediaStream {
+    if (options.source) {
+      return options.source.stream
+    }
+    if (!this.canvas) {
+      throw new Error('No canvas to record; pass a source instead')
+    }
+
+    this.ownsCapture = !this.canvas.isCapturing()
+    return this.canvas.captureStream({
+      frameRate: options.frameRate,
+      audio: options.audio,
+      audioTracks: options.audioTracks
+    })
+  }
+
+  /**
+   * Stop the canvas capture if this recording started it
+   */
+  private releaseCapture(): void {
+    if (this.ownsCapture) {
+      this.canvas?.stopCapture()
+      this.ownsCapture = false
+    }
+  }
+}
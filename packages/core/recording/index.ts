@@ -0,0 +1,12 @@
+/**
+ * Recording Package Exports
+ *
+ * Local recording for VueStream
+ */
+
+export {
+  RecordingManager,
+  DEFAULT_RECORDING_MIME_TYPES,
+  getSupportedMimeTypes
+} from './RecordingManager'
+export type * from './types'
@@ -0,0 +1,43 @@
+/**
+ * Recording Types for VueStream
+ *
+ * Type definitions for MediaRecorder-based local recording
+ */
+
+import type { VideoTextureSource } from '../canvas/types'
+import type { CaptureStreamOptions } from '../canvas/output'
+
+export type RecordingState = 'inactive' | 'recording' | 'paused'
+
+export interface RecordingOptions {
+  // Record a single source instead of the composited canvas
+  source?: VideoTextureSource
+  // Preferred MIME types in order; the first one the browser supports is used
+  mimeTypes?: string[]
+  videoBitsPerSecond?: number
+  audioBitsPerSecond?: number
+  // Chunk length in ms, so a crash loses at most one chunk
+  timeslice?: number
+  // Canvas capture settings when recording the composite. Audio is added
+  // to a capture that is already running; its frame rate must match.
+  frameRate?: number
+  audio?: CaptureStreamOptions['audio']
+  audioTracks?: MediaStreamTrack[]
+  // Called for every chunk, e.g. to persist it as it arrives
+  onChunk?: (chunk: Blob, index: number) => void
+}
+
+export interface RecordingResult {
+  blob: Blob
+  mimeType: string
+  duration: number
+  size: number
+}
+
+export type RecordingEventType =
+  | 'recording-started'
+  | 'recording-paused'
+  | 'recording-resumed'
+  | 'recording-chunk'
+  | 'recording-stopped'
+  | 'recording-error'
@@ -0,0 +1,483 @@
+/**
+ * Peer Manager for VueStream
+ *
+ * Multi-party RTCPeerConnection management using perfect negotiation.
+ * Remote streams surface as `stream` video texture sources.
+ */
+
+import { EventEmitter } from '../events'
+import { WebSocketSignalingTransport } from './signaling'
+import type { CanvasError, VideoTextureSource } from '../canvas/types'
+import type {
+  PeerInfo,
+  PeerManagerOptions,
+  SignalingMessage,
+  SignalingTransport
+} from './types'
+
+export const DEFAULT_STUN_SERVERS = ['stun:stun.l.google.com:19302']
+
+interface Peer {
+  id: string
+  connection: RTCPeerConnection
+  // The polite peer yields when both sides offer at once
+  polite: boolean
+  makingOffer: boolean
+  ignoreOffer: boolean
+  // An answer is being applied; the connection is about to be stable again
+  isSettingRemoteAnswerPending: boolean
+  iceRestarts: number
+  // Local track id -> sender
+  senders: Map<string, RTCRtpSender>
+  // Remote stream id -> texture source
+  remoteSources: Map<string, VideoTextureSource>
+  // Collects remote tracks that arrive without a stream
+  looseStream: MediaStream | null
+}
+
+/**
+ * Build ICE servers from STUN urls and TURN server entries
+ */
+export function buildIceServers(
+  stunServers: string[] = DEFAULT_STUN_SERVERS,
+  turnServers: RTCIceServer[] = []
+): RTCIceServer[] {
+  const servers: RTCIceServer[] = stunServers.length > 0 ? [{ urls: stunServers }] : []
+  return [...servers, ...turnServers]
+}
+
+/**
+ * The track a source is shown by: its video track, if it has one
+ */
+function primaryTrack(stream: MediaStream): MediaStreamTrack | undefined {
+  const tracks = stream.getTracks()
+  return tracks.find(track => track.kind === 'video') ?? tracks[0]
+}
+
+function createPeerId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID()
+  }
+  return `peer-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+export class PeerManager extends EventEmitter {
+  private localId: string
+  private transport: SignalingTransport
+  private rtcConfiguration: RTCConfiguration
+  private maxIceRestarts: number
+  private peers: Map<string, Peer> = new Map()
+  private localStreams: Map<string, MediaStream> = new Map()
+  private unsubscribers: Array<() => void> = []
+  private connected = false
+
+  constructor(options: PeerManagerOptions = {}) {
+    super()
+
+    const transport = options.transport ??
+      (options.signalingServer ? new WebSocketSignalingTransport(options.signalingServer) : null)
+    if (!transport) {
+      throw new Error('PeerManager needs a signaling transport or signalingServer URL')
+    }
+
+    this.localId = options.peerId ?? createPeerId()
+    this.transport = transport
+    this.rtcConfiguration = {
+      iceServers: buildIceServers(options.stunServers, options.turnServers),
+      ...options.rtcConfiguration
+    }
+    this.maxIceRestarts = options.maxIceRestarts ?? 3
+  }
+
+  /**
+   * Connect to signaling and announce this peer to the room
+   */
+  async connect(): Promise<void> {
+    if (this.connected) return
+
+    this.unsubscribers.push(this.transport.onMessage(message => this.handleMessage(message)))
+    const unsubscribeDisconnect = this.transport.onDisconnect?.(() => {
+      this.connected = false
+      this.emit('signaling-disconnected', { peerId: this.localId })
+    })
+    if (unsubscribeDisconnect) {
+      this.unsubscribers.push(unsubscribeDisconnect)
+    }
+
+    try {
+      await this.transport.connect(this.localId)
+    } catch (error) {
+      this.removeTransportListeners()
+      throw error
+    }
+
+    this.connected = true
+    this.emit('signaling-connected', { peerId: this.localId })
+    this.transport.send({ type: 'join', from: this.localId })
+  }
+
+  /**
+   * Leave the room and close every peer connection
+   */
+  disconnect(): void {
+    if (this.connected) {
+      try {
+        this.transport.send({ type: 'leave', from: this.localId })
+      } catch {
+        // Transport already gone; peers notice through connection state
+      }
+    }
+
+    Array.from(this.peers.keys()).forEach(peerId => this.closePeer(peerId))
+    this.removeTransportListeners()
+    this.transport.disconnect()
+
+    if (this.connected) {
+      this.connected = false
+      this.emit('signaling-disconnected', { peerId: this.localId })
+    }
+  }
+
+  /**
+   * Send a local stream's tracks to every current and future peer
+   */
+  addLocalStream(stream: MediaStream): void {
+    if (this.localStreams.has(stream.id)) return
+
+    this.localStreams.set(stream.id, stream)
+    this.peers.forEach(peer => this.addStreamToPeer(peer, stream))
+  }
+
+  /**
+   * Stop sending a local stream's tracks
+   */
+  removeLocalStream(stream: MediaStream): void {
+    if (!this.localStreams.delete(stream.id)) return
+
+    this.peers.forEach(peer => {
+      stream.getTracks().forEach(track => {
+        const sender = peer.senders.get(track.id)
+        if (sender) {
+          peer.connection.removeTrack(sender)
+          peer.senders.delete(track.id)
+        }
+      })
+    })
+  }
+
+  /**
+   * Swap a sent track without renegotiating, e.g. when switching cameras
+   */
+  async replaceTrack(oldTrack: MediaStreamTrack, newTrack: MediaStreamTrack): Promise<void> {
+    this.localStreams.forEach(stream => {
+      if (stream.getTrackById(oldTrack.id)) {
+        stream.removeTrack(oldTrack)
+        stream.addTrack(newTrack)
+      }
+    })
+
+    await Promise.all(Array.from(this.peers.values()).map(async peer => {
+      const sender = peer.senders.get(oldTrack.id)
+      if (!sender) return
+
+      await sender.replaceTrack(newTrack)
+      peer.senders.delete(oldTrack.id)
+      peer.senders.set(newTrack.id, sender)
+    }))
+  }
+
+  /**
+   * Get the local peer id
+   */
+  getLocalId(): string {
+    return this.localId
+  }
+
+  /**
+   * Get connected peers and their remote sources
+   */
+  getPeers(): PeerInfo[] {
+    return Array.from(this.peers.values()).map(peer => ({
+      id: peer.id,
+      polite: peer.polite,
+      connectionState: peer.connection.connectionState,
+      remoteSources: Array.from(peer.remoteSources.values())
+    }))
+  }
+
+  /**
+   * Get the underlying connection for a peer, e.g. for stats
+   */
+  getPeerConnection(peerId: string): RTCPeerConnection | undefined {
+    return this.peers.get(peerId)?.connection
+  }
+
+  /**
+   * Get every remote source, ready for `createVideoTexture`
+   */
+  getRemoteSources(): VideoTextureSource[] {
+    return Array.from(this.peers.values()).flatMap(peer => Array.from(peer.remoteSources.values()))
+  }
+
+  /**
+   * Disconnect and release all resources
+   */
+  destroy(): void {
+    this.disconnect()
+    this.localStreams.clear()
+  }
+
+  private handleMessage(message: SignalingMessage): void {
+    if (message.from === this.localId) return
+    if ('to' in message && message.to && message.to !== this.localId) return
+
+    switch (message.type) {
+      case 'join':
+        if (!message.to) {
+          // A broadcast join from a known peer means it reloaded; start over
+          this.closePeer(message.from)
+          this.createPeer(message.from)
+          // Answer so the newcomer learns about us
+          this.send({ type: 'join', from: this.localId, to: message.from })
+        } else if (!this.peers.has(message.from)) {
+          this.createPeer(message.from)
+        }
+        break
+      case 'leave':
+        this.closePeer(message.from)
+        break
+      case 'description':
+        this.handleDescription(message.from, message.description)
+        break
+      case 'candidate':
+        this.handleCandidate(message.from, message.candidate)
+        break
+    }
+  }
+
+  private createPeer(peerId: string): Peer {
+    const connection = new RTCPeerConnection(this.rtcConfiguration)
+    const peer: Peer = {
+      id: peerId,
+      connection,
+      polite: this.localId > peerId,
+      makingOffer: false,
+      ignoreOffer: false,
+      isSettingRemoteAnswerPending: false,
+      iceRestarts: 0,
+      senders: new Map(),
+      remoteSources: new Map(),
+      looseStream: null
+    }
+    this.peers.set(peerId, peer)
+
+    connection.onnegotiationneeded = async () => {
+      try {
+        peer.makingOffer = true
+        await connection.setLocalDescription()
+        this.sendDescription(peer, connection.localDescription)
+      } catch (error) {
+        this.emitError('NEGOTIATION_FAILED', error, peerId)
+      } finally {
+        peer.makingOffer = false
+      }
+    }
+
+    connection.onicecandidate = ({ candidate }) => {
+      this.send({
+        type: 'candidate',
+        from: this.localId,
+        to: peerId,
+        candidate: candidate?.toJSON() ?? null
+      })
+    }
+
+    connection.oniceconnectionstatechange = () => {
+      if (connection.iceConnectionState === 'failed') {
+        this.restartIce(peer)
+      }
+    }
+
+    connection.onconnectionstatechange = () => {
+      const state = connection.connectionState
+      if (state === 'connected') {
+        peer.iceRestarts = 0
+      }
+      this.emit('peer-connection-state', { peerId, state })
+    }
+
+    connection.ontrack = ({ track, streams }) => this.handleRemoteTrack(peer, track, streams)
+
+    this.localStreams.forEach(stream => this.addStreamToPeer(peer, stream))
+    this.emit('peer-joined', { peerId, polite: peer.polite })
+    return peer
+  }
+
+  private async handleDescription(
+    peerId: string,
+    description: RTCSessionDescriptionInit
+  ): Promise<void> {
+    const peer = this.peers.get(peerId) ?? this.createPeer(peerId)
+    const { connection } = peer
+
+    try {
+      const offerCollision = description.type === 'offer' &&
+        (peer.makingOffer ||
+          (connection.signalingState !== 'stable' && !peer.isSettingRemoteAnswerPending))
+      peer.ignoreOffer = !peer.polite && offerCollision
+      if (peer.ignoreOffer) return
+
+      peer.isSettingRemoteAnswerPending = description.type === 'answer'
+      try {
+        await connection.setRemoteDescription(description)
+      } finally {
+        peer.isSettingRemoteAnswerPending = false
+      }
+      if (description.type === 'offer') {
+        await connection.setLocalDescription()
+        this.sendDescription(peer, connection.localDescription)
+      }
+    } catch (error) {
+      this.emitError('NEGOTIATION_FAILED', error, peerId)
+    }
+  }
+
+  private async handleCandidate(
+    peerId: string,
+    candidate: RTCIceCandidateInit | null
+  ): Promise<void> {
+    const peer = this.peers.get(peerId)
+    if (!peer) return
+
+    try {
+      await peer.connection.addIceCandidate(candidate)
+    } catch (error) {
+      // Candidates for an offer we ignored are expected to fail
+      if (!peer.ignoreOffer) {
+        this.emitError('ICE_CANDIDATE_FAILED', error, peerId)
+      }
+    }
+  }
+
+  private handleRemoteTrack(
+    peer: Peer,
+    track: MediaStreamTrack,
+    streams: readonly MediaStream[]
+  ): void {
+    let stream = streams[0]
+    if (!stream) {
+      peer.looseStream = peer.looseStream ?? new MediaStream()
+      stream = peer.looseStream
+    }
+    if (!stream.getTrackById(track.id)) {
+      stream.addTrack(track)
+    }
+
+    // Audio and video of one stream arrive as separate track events
+    const existing = peer.remoteSources.get(stream.id)
+    if (existing) {
+      existing.track = primaryTrack(stream)
+      return
+    }
+
+    const source: VideoTextureSource = {
+      id: `${peer.id}:${stream.id}`,
+      type: 'stream',
+      stream,
+      track: primaryTrack(stream)
+    }
+    peer.remoteSources.set(stream.id, source)
+
+    // The remote removing its last track ends the source
+    stream.addEventListener('removetrack', () => {
+      if (stream.getTracks().length === 0) {
+        this.removeRemoteSource(peer, stream.id)
+      } else {
+        source.track = primaryTrack(stream)
+      }
+    })
+
+    this.emit('remote-source-added', { peerId: peer.id, source })
+  }
+
+  private removeRemoteSource(peer: Peer, streamId: string): void {
+    const source = peer.remoteSources.get(streamId)
+    if (!source) return
+
+    peer.remoteSources.delete(streamId)
+    this.emit('remote-source-removed', { peerId: peer.id, source })
+  }
+
+  private addStreamToPeer(peer: Peer, stream: MediaStream): void {
+    stream.getTracks().forEach(track => {
+      if (!peer.senders.has(track.id)) {
+        peer.senders.set(track.id, peer.connection.addTrack(track, stream))
+      }
+    })
+  }
+
+  private restartIce(peer: Peer): void {
+    if (peer.iceRestarts >= this.maxIceRestarts) {
+      this.emitError('ICE_FAILED', new Error('ICE connection failed'), peer.id)
+      this.closePeer(peer.id)
+      return
+    }
+
+    peer.iceRestarts++
+    this.emit('ice-restart', { peerId: peer.id, attempt: peer.iceRestarts })
+    // Triggers negotiationneeded with an ICE restart offer
+    peer.connection.restartIce()
+  }
+
+  private closePeer(peerId: string): void {
+    const peer = this.peers.get(peerId)
+    if (!peer) return
+
+    this.peers.delete(peerId)
+    Array.from(peer.remoteSources.keys())
+      .forEach(streamId => this.removeRemoteSource(peer, streamId))
+
+    const { connection } = peer
+    connection.onnegotiationneeded = null
+    connection.onicecandidate = null
+    connection.oniceconnectionstatechange = null
+    connection.onconnectionstatechange = null
+    connection.ontrack = null
+    connection.close()
+
+    this.emit('peer-left', { peerId })
+  }
+
+  private sendDescription(peer: Peer, description: RTCSessionDescription | null): void {
+    if (!description) return
+    this.send({
+      type: 'description',
+      from: this.localId,
+      to: peer.id,
+      description: description.toJSON()
+    })
+  }
+
+  private send(message: SignalingMessage): void {
+    try {
+      this.transport.send(message)
+    } catch (error) {
+      this.emitError('SIGNALING_ERROR', error)
+    }
+  }
+
+  private removeTransportListeners(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe())
+    this.unsubscribers = []
+  }
+
+  private emitError(code: string, error: unknown, peerId?: string): void {
+    const peerError: CanvasError = {
+      code,
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: Date.now(),
+      context: peerId ? { peerId } : undefined
+    }
+    this.emit('error', peerError)
+  }
+}
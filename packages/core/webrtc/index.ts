@@ -0,0 +1,14 @@
+/**
+ * WebRTC Package Exports
+ *
+ * Peer connections and signaling for VueStream
+ */
+
+export { PeerManager, DEFAULT_STUN_SERVERS, buildIceServers } from './PeerManager'
+export {
+  WebSocketSignalingTransport,
+  LoopbackSignalingHub,
+  LoopbackSignalingTransport
+} from './signaling'
+export type { WebSocketSignalingOptions } from './signaling'
+export type * from './types'
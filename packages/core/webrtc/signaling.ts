@@ -0,0 +1,186 @@
+/**
+ * Signaling Transports for VueStream
+ *
+ * WebSocket signaling for production and an in-memory loopback for tests
+ * and same-page demos
+ */
+
+import type { SignalingMessage, SignalingMessageHandler, SignalingTransport } from './types'
+
+export interface WebSocketSignalingOptions {
+  // Room sent with every message; the server relays within a room
+  room?: string
+  protocols?: string | string[]
+}
+
+/**
+ * Signaling over a WebSocket. On open a `{ type: 'hello', from, room }` frame
+ * registers the peer; messages are then sent as JSON with the room attached.
+ * The server relays each message to the other clients in the room, or only
+ * to `to` when it is set.
+ */
+export class WebSocketSignalingTransport implements SignalingTransport {
+  private url: string
+  private options: WebSocketSignalingOptions
+  private socket: WebSocket | null = null
+  private messageHandlers: Set<SignalingMessageHandler> = new Set()
+  private disconnectHandlers: Set<() => void> = new Set()
+
+  constructor(url: string, options: WebSocketSignalingOptions = {}) {
+    this.url = url
+    this.options = options
+  }
+
+  connect(peerId: string): Promise<void> {
+    this.disconnect()
+
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.url, this.options.protocols)
+      this.socket = socket
+      let opened = false
+
+      socket.onopen = () => {
+        opened = true
+        socket.send(JSON.stringify({ type: 'hello', from: peerId, room: this.options.room }))
+        resolve()
+      }
+
+      socket.onerror = () => {
+        if (!opened) {
+          reject(new Error(`Could not connect to signaling server ${this.url}`))
+        }
+      }
+
+      socket.onclose = () => {
+        if (this.socket !== socket) return
+        this.socket = null
+        if (opened) {
+          this.disconnectHandlers.forEach(handler => handler())
+        }
+      }
+
+      socket.onmessage = (event: MessageEvent) => {
+        let message: SignalingMessage
+        try {
+          message = JSON.parse(event.data)
+        } catch {
+          console.warn('Ignoring malformed signaling message')
+          return
+        }
+        this.messageHandlers.forEach(handler => handler(message))
+      }
+    })
+  }
+
+  send(message: SignalingMessage): void {
+    if (this.socket?.readyState !== WebSocket.OPEN) {
+      throw new Error('Signaling transport is not connected')
+    }
+    this.socket.send(JSON.stringify({ ...message, room: this.options.room }))
+  }
+
+  onMessage(handler: SignalingMessageHandler): () => void {
+    this.messageHandlers.add(handler)
+    return () => this.messageHandlers.delete(handler)
+  }
+
+  onDisconnect(handler: () => void): () => void {
+    this.disconnectHandlers.add(handler)
+    return () => this.disconnectHandlers.delete(handler)
+  }
+
+  disconnect(): void {
+    const socket = this.socket
+    this.socket = null
+    socket?.close()
+  }
+}
+
+/**
+ * In-memory room that relays messages between loopback transports
+ */
+export class LoopbackSignalingHub {
+  private transports: Map<string, LoopbackSignalingTransport> = new Map()
+
+  /**
+   * Create a transport connected to this hub
+   */
+  createTransport(): LoopbackSignalingTransport {
+    return new LoopbackSignalingTransport(this)
+  }
+
+  /**
+   * Add a connected transport
+   */
+  register(peerId: string, transport: LoopbackSignalingTransport): void {
+    if (this.transports.has(peerId)) {
+      throw new Error(`Peer ${peerId} is already connected to this hub`)
+    }
+    this.transports.set(peerId, transport)
+  }
+
+  /**
+   * Remove a disconnected transport
+   */
+  unregister(peerId: string): void {
+    this.transports.delete(peerId)
+  }
+
+  /**
+   * Deliver a message asynchronously, like a network would
+   */
+  relay(message: SignalingMessage): void {
+    const recipients = 'to' in message && message.to
+      ? [this.transports.get(message.to)]
+      : [...this.transports.entries()]
+          .filter(([peerId]) => peerId !== message.from)
+          .map(([, transport]) => transport)
+
+    recipients.forEach(transport => {
+      queueMicrotask(() => transport?.receive(message))
+    })
+  }
+}
+
+export class LoopbackSignalingTransport implements SignalingTransport {
+  private hub: LoopbackSignalingHub
+  private peerId: string | null = null
+  private messageHandlers: Set<SignalingMessageHandler> = new Set()
+
+  constructor(hub: LoopbackSignalingHub) {
+    this.hub = hub
+  }
+
+  async connect(peerId: string): Promise<void> {
+    this.disconnect()
+    this.hub.register(peerId, this)
+    this.peerId = peerId
+  }
+
+  send(message: SignalingMessage): void {
+    if (!this.peerId) {
+      throw new Error('Signaling transport is not connected')
+    }
+    this.hub.relay(message)
+  }
+
+  onMessage(handler: SignalingMessageHandler): () => void {
+    this.messageHandlers.add(handler)
+    return () => this.messageHandlers.delete(handler)
+  }
+
+  disconnect(): void {
+    if (this.peerId) {
+      this.hub.unregister(this.peerId)
+      this.peerId = null
+    }
+  }
+
+  /**
+   * Deliver a relayed message to the handlers
+   */
+  receive(message: SignalingMessage): void {
+    if (!this.peerId) return
+    this.messageHandlers.forEach(handler => handler(message))
+  }
+}
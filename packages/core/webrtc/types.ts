@@ -0,0 +1,61 @@
+/**
+ * WebRTC Types for VueStream
+ *
+ * Type definitions for peer connections and signaling
+ */
+
+import type { VideoTextureSource } from '../canvas/types'
+
+/**
+ * Messages exchanged over signaling. Messages without `to` are broadcast
+ * to the room; the rest are meant for a single peer.
+ */
+export type SignalingMessage =
+  | { type: 'join'; from: string; to?: string }
+  | { type: 'leave'; from: string }
+  | { type: 'description'; from: string; to: string; description: RTCSessionDescriptionInit }
+  | { type: 'candidate'; from: string; to: string; candidate: RTCIceCandidateInit | null }
+
+export type SignalingMessageHandler = (message: SignalingMessage) => void
+
+export interface SignalingTransport {
+  connect(peerId: string): Promise<void>
+  send(message: SignalingMessage): void
+  // Returns a function that removes the handler
+  onMessage(handler: SignalingMessageHandler): () => void
+  // Called when the transport drops without disconnect() being called
+  onDisconnect?(handler: () => void): () => void
+  disconnect(): void
+}
+
+export interface PeerManagerOptions {
+  // Local peer id; generated when omitted
+  peerId?: string
+  transport?: SignalingTransport
+  // WebSocket signaling URL, used when no transport is given
+  signalingServer?: string
+  stunServers?: string[]
+  turnServers?: RTCIceServer[]
+  // Extra RTCPeerConnection settings; iceServers here override stun/turn servers
+  rtcConfiguration?: RTCConfiguration
+  // ICE restarts attempted before a peer is given up
+  maxIceRestarts?: number
+}
+
+export interface PeerInfo {
+  id: string
+  polite: boolean
+  connectionState: RTCPeerConnectionState
+  remoteSources: VideoTextureSource[]
+}
+
+export type PeerEventType =
+  | 'signaling-connected'
+  | 'signaling-disconnected'
+  | 'peer-joined'
+  | 'peer-left'
+  | 'peer-connection-state'
+  | 'ice-restart'
+  | 'remote-source-added'
+  | 'remote-source-removed'
+  | 'error'
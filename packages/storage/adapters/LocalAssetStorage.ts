@@ -0,0 +1,255 @@
+/**
+ * Local Asset Storage for VueStream
+ *
+ * Stores branding assets as blobs in IndexedDB, falling back to
+ * localStorage (as data URLs) where IndexedDB is unavailable
+ */
+
+import { createAssetId, detectContentType, normalizeAssetKind } from '../assets'
+import type { AssetMeta, AssetStorageAdapter, AssetUploadMeta } from '../types'
+
+export interface LocalAssetStorageOptions {
+  dbName?: string
+  storeName?: string
+  // Key prefix for the localStorage fallback
+  storageKey?: string
+}
+
+interface AssetRecord extends AssetMeta {
+  blob: Blob
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Resolves once a transaction has committed; put/delete requests succeed
+ * before a quota error or abort can still undo them
+ */
+function transactionToPromise(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'))
+  })
+}
+
+/**
+ * Parse a stored JSON value; corrupt entries count as missing
+ */
+function parseStored<T>(raw: string | null): T | null {
+  if (!raw) return null
+  try {
+    return JSON.parse(raw) as T
+  } catch {
+    return null
+  }
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
+
+function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, data] = dataUrl.split(',')
+  const type = /^data:([^;]+)/.exec(header)?.[1] ?? ''
+  const bytes = Uint8Array.from(atob(data), char => char.charCodeAt(0))
+  return new Blob([bytes], { type })
+}
+
+function toAssetMeta({ id, name, type, size, kind, createdAt, meta }: AssetMeta): AssetMeta {
+  return { id, name, type, size, kind, createdAt, meta }
+}
+
+export class LocalAssetStorage implements AssetStorageAdapter {
+  private options: Required<LocalAssetStorageOptions>
+  private db: Promise<IDBDatabase | null> | null = null
+  private objectUrls: Map<string, string> = new Map()
+
+  constructor(options: LocalAssetStorageOptions = {}) {
+    this.options = {
+      dbName: 'vuestream-assets',
+      storeName: 'assets',
+      storageKey: 'vuestream-asset',
+      ...options
+    }
+  }
+
+  /**
+   * Store a file and return its asset id
+   */
+  async upload(file: File | Blob, meta: AssetUploadMeta = {}): Promise<string> {
+    const { name, kind, ...rest } = meta
+    const assetName = name ?? (file instanceof File ? file.name : 'asset')
+    const record: AssetRecord = {
+      id: createAssetId(),
+      name: assetName,
+      type: await detectContentType(file, assetName),
+      size: file.size,
+      kind: normalizeAssetKind(kind),
+      createdAt: Date.now(),
+      meta: rest,
+      blob: file
+    }
+
+    const db = await this.openDatabase()
+    if (db) {
+      const transaction = db.transaction(this.options.storeName, 'readwrite')
+      transaction.objectStore(this.options.storeName).put(record)
+      await transactionToPromise(transaction)
+    } else {
+      const data = await blobToDataUrl(record.blob)
+      try {
+        const item = { ...toAssetMeta(record), data }
+        localStorage.setItem(this.itemKey(record.id), JSON.stringify(item))
+        this.writeIndex([...this.readIndex(), record.id])
+      } catch {
+        throw new Error(`Not enough local storage space for asset ${record.name}`)
+      }
+    }
+
+    return record.id
+  }
+
+  /**
+   * Get an asset's content
+   */
+  async getAsset(id: string): Promise<Blob | null> {
+    return (await this.getRecord(id))?.blob ?? null
+  }
+
+  /**
+   * Get an object URL for an asset. URLs are cached until the asset is
+   * deleted or the storage is disposed.
+   */
+  async getAssetUrl(id: string): Promise<string | null> {
+    const cached = this.objectUrls.get(id)
+    if (cached) return cached
+
+    const blob = await this.getAsset(id)
+    if (!blob) return null
+
+    const url = URL.createObjectURL(blob)
+    this.objectUrls.set(id, url)
+    return url
+  }
+
+  /**
+   * List metadata of all stored assets, newest first
+   */
+  async listAssets(): Promise<AssetMeta[]> {
+    const db = await this.openDatabase()
+    let assets: AssetMeta[]
+
+    if (db) {
+      const store = db.transaction(this.options.storeName, 'readonly')
+        .objectStore(this.options.storeName)
+      const records = await requestToPromise(store.getAll() as IDBRequest<AssetRecord[]>)
+      assets = records.map(toAssetMeta)
+    } else {
+      assets = this.readIndex()
+        .map(id => this.readItem(id))
+        .filter((item): item is AssetMeta & { data: string } => item !== null)
+        .map(toAssetMeta)
+    }
+
+    return assets.sort((a, b) => b.createdAt - a.createdAt)
+  }
+
+  /**
+   * Delete an asset and revoke its object URL
+   */
+  async deleteAsset(id: string): Promise<void> {
+    const db = await this.openDatabase()
+    if (db) {
+      const transaction = db.transaction(this.options.storeName, 'readwrite')
+      transaction.objectStore(this.options.storeName).delete(id)
+      await transactionToPromise(transaction)
+    } else {
+      localStorage.removeItem(this.itemKey(id))
+      this.writeIndex(this.readIndex().filter(assetId => assetId !== id))
+    }
+
+    const url = this.objectUrls.get(id)
+    if (url) {
+      URL.revokeObjectURL(url)
+      this.objectUrls.delete(id)
+    }
+  }
+
+  /**
+   * Revoke object URLs and close the database
+   */
+  dispose(): void {
+    this.objectUrls.forEach(url => URL.revokeObjectURL(url))
+    this.objectUrls.clear()
+    this.db?.then(db => db?.close())
+    this.db = null
+  }
+
+  /**
+   * Open IndexedDB once; resolves to null when it is unavailable
+   */
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      this.db = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null)
+          return
+        }
+
+        const request = indexedDB.open(this.options.dbName, 1)
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this.options.storeName, { keyPath: 'id' })
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => {
+          console.warn('IndexedDB unavailable, falling back to localStorage:', request.error)
+          resolve(null)
+        }
+      })
+    }
+    return this.db
+  }
+
+  private async getRecord(id: string): Promise<AssetRecord | null> {
+    const db = await this.openDatabase()
+    if (db) {
+      const store = db.transaction(this.options.storeName, 'readonly')
+        .objectStore(this.options.storeName)
+      const record = await requestToPromise(store.get(id) as IDBRequest<AssetRecord | undefined>)
+      return record ?? null
+    }
+
+    const item = this.readItem(id)
+    if (typeof item?.data !== 'string') return null
+
+    return { ...toAssetMeta(item), blob: dataUrlToBlob(item.data) }
+  }
+
+  private itemKey(id: string): string {
+    return `${this.options.storageKey}:${id}`
+  }
+
+  private readItem(id: string): (AssetMeta & { data: string }) | null {
+    return parseStored<AssetMeta & { data: string }>(localStorage.getItem(this.itemKey(id)))
+  }
+
+  private readIndex(): string[] {
+    const ids = parseStored<unknown>(localStorage.getItem(`${this.options.storageKey}-index`))
+    return Array.isArray(ids) ? ids : []
+  }
+
+  private writeIndex(ids: string[]): void {
+    localStorage.setItem(`${this.options.storageKey}-index`, JSON.stringify(ids))
+  }
+}
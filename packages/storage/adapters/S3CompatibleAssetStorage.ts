@@ -0,0 +1,363 @@
+/**
+ * S3-Compatible Asset Storage for VueStream
+ *
+ * Stores assets in any S3-compatible bucket (AWS S3, MinIO, DigitalOcean
+ * Spaces), signing requests with SigV4 or with caller-supplied presigned URLs
+ */
+
+import { createAssetId, contentTypeFromName, detectContentType, normalizeAssetKind } from '../assets'
+import {
+  canonicalQueryString,
+  encodeKey,
+  presignUrl,
+  signRequest,
+  type S3Credentials
+} from './sigv4'
+import type { AssetMeta, AssetStorageAdapter, AssetUploadMeta } from '../types'
+
+export type S3Method = 'GET' | 'PUT' | 'POST' | 'DELETE'
+
+export interface PresignRequest {
+  method: S3Method
+  // Full object key including the prefix; empty for bucket requests such as listing
+  key: string
+  query: Record<string, string>
+  // Headers the request is sent with; x-amz-* headers must be covered by the signature
+  headers: Record<string, string>
+}
+
+/**
+ * Return a presigned URL for a request, e.g. from your own backend
+ */
+export type PresignFunction = (request: PresignRequest) => Promise<string>
+
+export interface S3CompatibleAssetStorageOptions {
+  // e.g. https://nyc3.digitaloceanspaces.com or http://localhost:9000
+  endpoint: string
+  bucket: string
+  region?: string
+  // Sign in the browser; only use short-lived or narrowly scoped keys
+  credentials?: S3Credentials
+  // Or let the caller presign every request
+  presign?: PresignFunction
+  // Use endpoint/bucket/key URLs instead of bucket.endpoint/key (required by MinIO)
+  forcePathStyle?: boolean
+  // Key prefix for all assets, e.g. 'branding/'
+  prefix?: string
+  // Public or CDN base URL; otherwise getAssetUrl() returns presigned GET URLs
+  publicUrl?: string
+  // Lifetime of presigned GET URLs in seconds
+  urlExpiresIn?: number
+  // Files larger than this are uploaded in parts
+  multipartThreshold?: number
+  partSize?: number
+  fetch?: typeof fetch
+}
+
+interface S3RequestInit {
+  query?: Record<string, string>
+  headers?: Record<string, string>
+  body?: BodyInit
+}
+
+const MIN_PART_SIZE = 5 * 1024 * 1024
+
+function parseXml(text: string): Document {
+  return new DOMParser().parseFromString(text, 'application/xml')
+}
+
+function xmlText(node: Document | Element, tagName: string): string | null {
+  return node.getElementsByTagName(tagName)[0]?.textContent ?? null
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function sanitizeKeySegment(name: string): string {
+  return name.replace(/[^a-zA-Z0-9._-]+/g, '-').replace(/^-+|-+$/g, '') || 'asset'
+}
+
+export class S3CompatibleAssetStorage implements AssetStorageAdapter {
+  private options: Required<Omit<S3CompatibleAssetStorageOptions, 'credentials' | 'presign'>>
+  private credentials: S3Credentials | null
+  private presign: PresignFunction | null
+
+  constructor(options: S3CompatibleAssetStorageOptions) {
+    if (!options.credentials && !options.presign) {
+      throw new Error('S3 storage needs either credentials or a presign function')
+    }
+    if (options.partSize !== undefined && options.partSize < MIN_PART_SIZE) {
+      throw new Error('Multipart part size must be at least 5 MiB')
+    }
+
+    const { credentials, presign, ...rest } = options
+    this.options = {
+      region: 'us-east-1',
+      forcePathStyle: false,
+      prefix: '',
+      publicUrl: '',
+      urlExpiresIn: 3600,
+      multipartThreshold: 64 * 1024 * 1024,
+      partSize: 16 * 1024 * 1024,
+      // Wrapped so the global fetch is not called with the wrong `this`
+      fetch: (input, init) => fetch(input, init),
+      ...rest
+    }
+    this.credentials = credentials ?? null
+    this.presign = presign ?? null
+  }
+
+  /**
+   * Upload a file and return its asset id. Ids have the form
+   * `<kind>/<uuid>/<file name>` so listings carry kind and name.
+   */
+  async upload(file: File | Blob, meta: AssetUploadMeta = {}): Promise<string> {
+    const { name, kind, ...rest } = meta
+    const assetName = name ?? (file instanceof File ? file.name : 'asset')
+    const assetKind = normalizeAssetKind(kind)
+    const id = `${assetKind}/${createAssetId()}/${sanitizeKeySegment(assetName)}`
+
+    const headers: Record<string, string> = {
+      'content-type': await detectContentType(file, assetName),
+      'x-amz-meta-name': encodeURIComponent(assetName),
+      'x-amz-meta-kind': assetKind
+    }
+    if (Object.keys(rest).length > 0) {
+      headers['x-amz-meta-data'] = encodeURIComponent(JSON.stringify(rest))
+    }
+
+    const key = this.objectKey(id)
+    if (file.size > this.options.multipartThreshold) {
+      await this.uploadMultipart(key, file, headers)
+    } else {
+      await this.request('PUT', key, { headers, body: file })
+    }
+
+    return id
+  }
+
+  /**
+   * Download an asset's content
+   */
+  async getAsset(id: string): Promise<Blob | null> {
+    const response = await this.send('GET', this.objectKey(id))
+    if (response.status === 404) return null
+    if (!response.ok) {
+      throw await this.toError('GET', response)
+    }
+    return response.blob()
+  }
+
+  /**
+   * Get a URL for an asset: public when `publicUrl` is set, presigned otherwise.
+   * The object's existence is not checked.
+   */
+  async getAssetUrl(id: string): Promise<string | null> {
+    const key = this.objectKey(id)
+    if (this.options.publicUrl) {
+      return `${this.options.publicUrl.replace(/\/+$/, '')}/${encodeKey(key)}`
+    }
+    return this.resolveUrl('GET', key, {}, {})
+  }
+
+  /**
+   * List all assets under the prefix, newest first. Names come from the
+   * key, so they are the sanitized upload names.
+   */
+  async listAssets(): Promise<AssetMeta[]> {
+    const assets: AssetMeta[] = []
+    let continuationToken: string | null = null
+
+    do {
+      const query: Record<string, string> = { 'list-type': '2', prefix: this.options.prefix }
+      if (continuationToken) {
+        query['continuation-token'] = continuationToken
+      }
+
+      const response = await this.request('GET', '', { query })
+      const document = parseXml(await response.text())
+
+      Array.from(document.getElementsByTagName('Contents')).forEach(item => {
+        const key = xmlText(item, 'Key')
+        if (!key) return
+
+        const id = key.slice(this.options.prefix.length)
+        const segments = id.split('/')
+        const name = segments[segments.length - 1]
+        assets.push({
+          id,
+          name,
+          type: contentTypeFromName(name) ?? 'application/octet-stream',
+          size: Number(xmlText(item, 'Size') ?? 0),
+          kind: segments.length > 1 ? normalizeAssetKind(segments[0]) : 'other',
+          createdAt: Date.parse(xmlText(item, 'LastModified') ?? '') || 0,
+          meta: { etag: xmlText(item, 'ETag') }
+        })
+      })
+
+      continuationToken = xmlText(document, 'IsTruncated') === 'true'
+        ? xmlText(document, 'NextContinuationToken')
+        : null
+    } while (continuationToken)
+
+    return assets.sort((a, b) => b.createdAt - a.createdAt)
+  }
+
+  /**
+   * Delete an asset
+   */
+  async deleteAsset(id: string): Promise<void> {
+    await this.request('DELETE', this.objectKey(id))
+  }
+
+  /**
+   * Upload a large file in parts, aborting the upload if any part fails
+   */
+  private async uploadMultipart(
+    key: string,
+    file: Blob,
+    headers: Record<string, string>
+  ): Promise<void> {
+    const created = await this.request('POST', key, { query: { uploads: '' }, headers })
+    const uploadId = xmlText(parseXml(await created.text()), 'UploadId')
+    if (!uploadId) {
+      throw new Error('S3 did not return a multipart upload id')
+    }
+
+    try {
+      const parts: string[] = []
+      const { partSize } = this.options
+
+      for (let offset = 0; offset < file.size; offset += partSize) {
+        const partNumber = parts.length + 1
+        const response = await this.request('PUT', key, {
+          query: { partNumber: String(partNumber), uploadId },
+          body: file.slice(offset, offset + partSize)
+        })
+
+        const etag = response.headers.get('etag')
+        if (!etag) {
+          throw new Error('Missing ETag on uploaded part; expose ETag in the bucket CORS rules')
+        }
+        parts.push(
+          `<Part><PartNumber>${partNumber}</PartNumber><ETag>${escapeXml(etag)}</ETag></Part>`
+        )
+      }
+
+      const completed = await this.request('POST', key, {
+        query: { uploadId },
+        headers: { 'content-type': 'application/xml' },
+        body: `<CompleteMultipartUpload>${parts.join('')}</CompleteMultipartUpload>`
+      })
+
+      // Completion can fail after a 200 status with an error document
+      const document = parseXml(await completed.text())
+      if (document.getElementsByTagName('Error').length > 0) {
+        throw new Error(
+          `S3 multipart upload failed: ${xmlText(document, 'Message') ?? 'Unknown error'}`
+        )
+      }
+    } catch (error) {
+      await this.request('DELETE', key, { query: { uploadId } }).catch(() => undefined)
+      throw error
+    }
+  }
+
+  /**
+   * Send a request and throw on error responses
+   */
+  private async request(
+    method: S3Method,
+    key: string,
+    init: S3RequestInit = {}
+  ): Promise<Response> {
+    const response = await this.send(method, key, init)
+    if (!response.ok) {
+      throw await this.toError(method, response)
+    }
+    return response
+  }
+
+  /**
+   * Sign and send a request
+   */
+  private async send(
+    method: S3Method,
+    key: string,
+    init: S3RequestInit = {}
+  ): Promise<Response> {
+    const query = init.query ?? {}
+    let headers = init.headers ?? {}
+    let url: string
+
+    if (this.presign) {
+      url = await this.presign({ method, key, query, headers })
+    } else {
+      const target = this.buildUrl(key, query)
+      headers = await signRequest({
+        method,
+        url: target,
+        headers,
+        region: this.options.region,
+        credentials: this.credentials!
+      })
+      url = target.toString()
+    }
+
+    return this.options.fetch(url, { method, headers, body: init.body })
+  }
+
+  /**
+   * Get a presigned URL from the caller or by signing it here
+   */
+  private async resolveUrl(
+    method: S3Method,
+    key: string,
+    query: Record<string, string>,
+    headers: Record<string, string>
+  ): Promise<string> {
+    if (this.presign) {
+      return this.presign({ method, key, query, headers })
+    }
+    return presignUrl({
+      method,
+      url: this.buildUrl(key, query),
+      region: this.options.region,
+      credentials: this.credentials!,
+      expiresIn: this.options.urlExpiresIn
+    })
+  }
+
+  private objectKey(id: string): string {
+    return `${this.options.prefix}${id}`
+  }
+
+  private buildUrl(key: string, query: Record<string, string>): URL {
+    const endpoint = new URL(this.options.endpoint)
+    const { bucket, forcePathStyle } = this.options
+    const host = forcePathStyle ? endpoint.host : `${bucket}.${endpoint.host}`
+    const path = forcePathStyle ? `/${bucket}/${encodeKey(key)}` : `/${encodeKey(key)}`
+    const search = canonicalQueryString(Object.entries(query))
+
+    return new URL(`${endpoint.protocol}//${host}${path}${search ? `?${search}` : ''}`)
+  }
+
+  /**
+   * Turn an S3 error response into an Error with its code and message
+   */
+  private async toError(method: S3Method, response: Response): Promise<Error> {
+    const text = await response.text().catch(() => '')
+    const document = text ? parseXml(text) : null
+    const code = document ? xmlText(document, 'Code') : null
+    const message = (document ? xmlText(document, 'Message') : null) ?? response.statusText
+
+    return new Error(
+      `S3 ${method} failed with status ${response.status}${code ? ` (${code})` : ''}: ${message}`
+    )
+  }
+}
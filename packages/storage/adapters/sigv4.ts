@@ -0,0 +1,197 @@
+/**
+ * AWS Signature Version 4 for VueStream
+ *
+ * Signs S3-compatible requests with WebCrypto. Payloads are never hashed,
+ * so large uploads can be streamed without reading them into memory.
+ */
+
+export interface S3Credentials {
+  accessKeyId: string
+  secretAccessKey: string
+  sessionToken?: string
+}
+
+export interface SignRequestOptions {
+  method: string
+  // Path and query must already be encoded with encodeRfc3986/canonicalQueryString
+  url: URL
+  headers?: Record<string, string>
+  region: string
+  credentials: S3Credentials
+  service?: string
+  date?: Date
+}
+
+export interface PresignUrlOptions extends Omit<SignRequestOptions, 'headers'> {
+  // Lifetime of the URL in seconds, at most 7 days
+  expiresIn?: number
+}
+
+export const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD'
+
+const ALGORITHM = 'AWS4-HMAC-SHA256'
+
+const encoder = new TextEncoder()
+
+/**
+ * Percent-encode a value the way SigV4 expects (RFC 3986 unreserved set)
+ */
+export function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  )
+}
+
+/**
+ * Encode an object key, keeping '/' as the path separator
+ */
+export function encodeKey(key: string): string {
+  return key.split('/').map(encodeRfc3986).join('/')
+}
+
+/**
+ * Build a query string sorted and encoded in canonical form
+ */
+export function canonicalQueryString(params: Iterable<[string, string]>): string {
+  const compare = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0)
+  return [...params]
+    .map(([name, value]) => [encodeRfc3986(name), encodeRfc3986(value)])
+    .sort(([nameA, valueA], [nameB, valueB]) => compare(nameA, nameB) || compare(valueA, valueB))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&')
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', encoder.encode(value)))
+}
+
+async function hmac(key: ArrayBuffer | Uint8Array<ArrayBuffer>, value: string): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    key,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  return crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(value))
+}
+
+function formatAmzDate(date: Date): string {
+  // 2024-01-02T03:04:05.678Z -> 20240102T030405Z
+  return date.toISOString().replace(/[:-]|\.\d{3}/g, '')
+}
+
+/**
+ * Sign a canonical request and return the hex signature
+ */
+async function calculateSignature(
+  secretAccessKey: string,
+  amzDate: string,
+  scope: string,
+  canonicalRequest: string
+): Promise<string> {
+  const stringToSign = [ALGORITHM, amzDate, scope, await sha256Hex(canonicalRequest)].join('\n')
+
+  let key: ArrayBuffer | Uint8Array<ArrayBuffer> = encoder.encode(`AWS4${secretAccessKey}`)
+  for (const part of scope.split('/')) {
+    key = await hmac(key, part)
+  }
+  return toHex(await hmac(key, stringToSign))
+}
+
+function credentialScope(amzDate: string, region: string, service: string): string {
+  return `${amzDate.slice(0, 8)}/${region}/${service}/aws4_request`
+}
+
+/**
+ * Sign a request with an Authorization header. Returns the headers to send;
+ * `host` is signed but left out because browsers set it themselves.
+ */
+export async function signRequest(options: SignRequestOptions): Promise<Record<string, string>> {
+  const { method, url, region, credentials, service = 's3' } = options
+  const amzDate = formatAmzDate(options.date ?? new Date())
+  const scope = credentialScope(amzDate, region, service)
+
+  const headers: Record<string, string> = {}
+  Object.entries(options.headers ?? {}).forEach(([name, value]) => {
+    headers[name.toLowerCase()] = value.trim().replace(/\s+/g, ' ')
+  })
+  headers['host'] = url.host
+  headers['x-amz-content-sha256'] = UNSIGNED_PAYLOAD
+  headers['x-amz-date'] = amzDate
+  if (credentials.sessionToken) {
+    headers['x-amz-security-token'] = credentials.sessionToken
+  }
+
+  const names = Object.keys(headers).sort()
+  const signedHeaders = names.join(';')
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    canonicalQueryString(url.searchParams),
+    names.map(name => `${name}:${headers[name]}\n`).join(''),
+    signedHeaders,
+    UNSIGNED_PAYLOAD
+  ].join('\n')
+
+  const signature = await calculateSignature(
+    credentials.secretAccessKey,
+    amzDate,
+    scope,
+    canonicalRequest
+  )
+
+  delete headers['host']
+  headers['authorization'] =
+    `${ALGORITHM} Credential=${credentials.accessKeyId}/${scope}, ` +
+    `SignedHeaders=${signedHeaders}, Signature=${signature}`
+  return headers
+}
+
+/**
+ * Create a presigned URL carrying the signature in its query string.
+ * Only `host` is signed, so any headers may be sent with it.
+ */
+export async function presignUrl(options: PresignUrlOptions): Promise<string> {
+  const { method, region, credentials, service = 's3', expiresIn = 3600 } = options
+  const amzDate = formatAmzDate(options.date ?? new Date())
+  const scope = credentialScope(amzDate, region, service)
+
+  const params: Array<[string, string]> = [
+    ...options.url.searchParams,
+    ['X-Amz-Algorithm', ALGORITHM],
+    ['X-Amz-Credential', `${credentials.accessKeyId}/${scope}`],
+    ['X-Amz-Date', amzDate],
+    ['X-Amz-Expires', String(Math.min(Math.max(Math.round(expiresIn), 1), 604800))],
+    ['X-Amz-SignedHeaders', 'host']
+  ]
+  if (credentials.sessionToken) {
+    params.push(['X-Amz-Security-Token', credentials.sessionToken])
+  }
+
+  const query = canonicalQueryString(params)
+  const canonicalRequest = [
+    method,
+    options.url.pathname,
+    query,
+    `host:${options.url.host}\n`,
+    'host',
+    UNSIGNED_PAYLOAD
+  ].join('\n')
+
+  const signature = await calculateSignature(
+    credentials.secretAccessKey,
+    amzDate,
+    scope,
+    canonicalRequest
+  )
+
+  const url = new URL(options.url)
+  url.search = `${query}&X-Amz-Signature=${signature}`
+  return url.toString()
+}
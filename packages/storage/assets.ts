@@ -0,0 +1,84 @@
+/**
+ * Asset Helpers for VueStream
+ *
+ * Id generation, kind normalization and content-type detection shared by
+ * storage adapters
+ */
+
+import type { AssetKind } from './types'
+
+export const ASSET_KINDS: AssetKind[] = ['logo', 'background', 'overlay', 'other']
+
+const EXTENSION_TYPES: Record<string, string> = {
+  png: 'image/png',
+  apng: 'image/apng',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  svg: 'image/svg+xml',
+  mp4: 'video/mp4',
+  m4v: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  json: 'application/json'
+}
+
+// Magic bytes at the start of a file; null matches any byte
+const SIGNATURES: Array<{ type: string; bytes: Array<number | null> }> = [
+  { type: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { type: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { type: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+  {
+    type: 'image/webp',
+    bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50]
+  },
+  { type: 'video/webm', bytes: [0x1a, 0x45, 0xdf, 0xa3] },
+  { type: 'video/mp4', bytes: [null, null, null, null, 0x66, 0x74, 0x79, 0x70] }
+]
+
+/**
+ * Generate a unique asset id
+ */
+export function createAssetId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID()
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+/**
+ * Fall back to 'other' for missing or unknown kinds
+ */
+export function normalizeAssetKind(kind: unknown): AssetKind {
+  return ASSET_KINDS.includes(kind as AssetKind) ? kind as AssetKind : 'other'
+}
+
+/**
+ * Guess a MIME type from a file name's extension
+ */
+export function contentTypeFromName(name: string): string | null {
+  const extension = /\.([a-z0-9]+)$/i.exec(name)?.[1]?.toLowerCase()
+  return extension ? EXTENSION_TYPES[extension] ?? null : null
+}
+
+/**
+ * Detect a file's MIME type from its declared type, its name, then its
+ * leading bytes
+ */
+export async function detectContentType(file: Blob, name?: string): Promise<string> {
+  if (file.type) return file.type
+
+  const fromName = name ? contentTypeFromName(name) : null
+  if (fromName) return fromName
+
+  const header = new Uint8Array(await file.slice(0, 16).arrayBuffer())
+  const match = SIGNATURES.find(({ bytes }) =>
+    bytes.every((byte, index) => byte === null || header[index] === byte)
+  )
+  return match?.type ?? 'application/octet-stream'
+}
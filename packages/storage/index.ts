@@ -4,4 +4,16 @@
  * Storage adapters for assets and configuration
  */
 
-// Storage adapters will be exported as they are implemented
\ No newline at end of file
+export { LocalAssetStorage } from './adapters/LocalAssetStorage'
+export type { LocalAssetStorageOptions } from './adapters/LocalAssetStorage'
+export { S3CompatibleAssetStorage } from './adapters/S3CompatibleAssetStorage'
+export type {
+  S3CompatibleAssetStorageOptions,
+  S3Method,
+  PresignRequest,
+  PresignFunction
+} from './adapters/S3CompatibleAssetStorage'
+export { signRequest, presignUrl } from './adapters/sigv4'
+export type { S3Credentials, SignRequestOptions, PresignUrlOptions } from './adapters/sigv4'
+export { detectContentType, contentTypeFromName } from './assets'
+export type * from './types'
\ No newline at end of file
@@ -0,0 +1,33 @@
+/**
+ * Storage Types for VueStream
+ *
+ * Asset storage adapter contract shared by all storage backends
+ */
+
+export type AssetKind = 'logo' | 'background' | 'overlay' | 'other'
+
+export interface AssetUploadMeta {
+  name?: string
+  kind?: AssetKind
+  [key: string]: unknown
+}
+
+export interface AssetMeta {
+  id: string
+  name: string
+  // MIME type
+  type: string
+  size: number
+  kind: AssetKind
+  createdAt: number
+  meta: Record<string, unknown>
+}
+
+export interface AssetStorageAdapter {
+  upload(file: File | Blob, meta?: AssetUploadMeta): Promise<string>
+  getAsset(id: string): Promise<Blob | null>
+  // URL usable as an image/video source, e.g. an object URL
+  getAssetUrl(id: string): Promise<string | null>
+  listAssets?(): Promise<AssetMeta[]>
+  deleteAsset?(id: string): Promise<void>
+}
@@ -4,4 +4,14 @@
  * Pinia stores for application state management
  */
 
-// Stores will be exported as they are implemented
\ No newline at end of file
+export { ParticipantRoster, PARTICIPANT_EVENTS } from './participants'
+export {
+  DEFAULT_PERMISSIONS,
+  ROLE_RANK,
+  PermissionError,
+  hasPermission,
+  createPermissionMatrix
+} from './permissions'
+export { useParticipantStore } from './useParticipantStore'
+export type * from './participants'
+export type * from './permissions'
\ No newline at end of file
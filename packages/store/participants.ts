@@ -0,0 +1,350 @@
+/**
+ * Participant Roster for VueStream
+ *
+ * Framework-agnostic participant state with role-checked actions. Guarded
+ * actions are checked against the local participant's role.
+ */
+
+import { EventEmitter } from '../core/events'
+import {
+  PermissionError,
+  ROLE_RANK,
+  createPermissionMatrix,
+  hasPermission,
+  type Permission,
+  type PermissionMatrix,
+  type ParticipantRole
+} from './permissions'
+
+export type ParticipantLocation = 'stage' | 'backstage' | 'waiting'
+
+export interface ParticipantMediaState {
+  audioMuted: boolean
+  videoMuted: boolean
+  screenSharing: boolean
+}
+
+export interface Participant {
+  id: string
+  displayName: string
+  role: ParticipantRole
+  location: ParticipantLocation
+  media: ParticipantMediaState
+  // Id of the LayoutZone showing this participant
+  zoneId: string | null
+  joinedAt: number
+}
+
+export interface ParticipantInput {
+  id: string
+  displayName: string
+  role?: ParticipantRole
+  location?: ParticipantLocation
+  media?: Partial<ParticipantMediaState>
+}
+
+export interface ParticipantRosterOptions {
+  localParticipantId?: string
+  permissions?: Partial<PermissionMatrix>
+  // Send joining guests to the waiting room instead of backstage
+  waitingRoom?: boolean
+}
+
+export const PARTICIPANT_EVENTS = [
+  'participant-joined',
+  'participant-left',
+  'participant-updated',
+  'participant-kicked',
+  'participant-muted',
+  'permissions-changed'
+] as const
+
+export type ParticipantEventType = typeof PARTICIPANT_EVENTS[number]
+
+export class ParticipantRoster extends EventEmitter {
+  private participants: Map<string, Participant> = new Map()
+  private localId: string | null
+  private permissions: PermissionMatrix
+  private waitingRoom: boolean
+
+  constructor(options: ParticipantRosterOptions = {}) {
+    super()
+    this.localId = options.localParticipantId ?? null
+    this.permissions = createPermissionMatrix(options.permissions)
+    this.waitingRoom = options.waitingRoom ?? true
+  }
+
+  /**
+   * Set which participant guarded actions are performed as
+   */
+  setLocalParticipant(id: string | null): void {
+    this.localId = id
+  }
+
+  /**
+   * Replace parts of the permission matrix
+   */
+  setPermissions(permissions: Partial<PermissionMatrix>): void {
+    this.permissions = createPermissionMatrix({ ...this.permissions, ...permissions })
+    this.emit('permissions-changed', { permissions: this.getPermissions() })
+  }
+
+  getPermissions(): PermissionMatrix {
+    return createPermissionMatrix(this.permissions)
+  }
+
+  /**
+   * Enable or disable the waiting room for future joins
+   */
+  setWaitingRoom(enabled: boolean): void {
+    this.waitingRoom = enabled
+  }
+
+  /**
+   * Whether a participant (the local one by default) has a permission
+   */
+  can(permission: Permission, participantId: string | null = this.localId): boolean {
+    const participant = participantId ? this.participants.get(participantId) : undefined
+    return !!participant && hasPermission(this.permissions, participant.role, permission)
+  }
+
+  /**
+   * Throw a PermissionError unless the local participant has a permission.
+   * Use it to guard canvas calls such as applyLayout or createOverlay.
+   */
+  authorize(permission: Permission): void {
+    if (!this.can(permission)) {
+      throw new PermissionError(permission, this.localId)
+    }
+  }
+
+  /**
+   * Add a participant who joined. Guests land in the waiting room when it is enabled.
+   */
+  addParticipant(input: ParticipantInput): Participant {
+    if (this.participants.has(input.id)) {
+      throw new Error(`Participant ${input.id} already exists`)
+    }
+
+    const role = input.role ?? 'guest'
+    const participant: Participant = {
+      id: input.id,
+      displayName: input.displayName,
+      role,
+      location: input.location ?? (this.waitingRoom && role === 'guest' ? 'waiting' : 'backstage'),
+      media: { audioMuted: false, videoMuted: false, screenSharing: false, ...input.media },
+      zoneId: null,
+      joinedAt: Date.now()
+    }
+    this.participants.set(participant.id, participant)
+
+    this.emit('participant-joined', { participant })
+    return participant
+  }
+
+  /**
+   * Remove a participant who left
+   */
+  removeParticipant(id: string): void {
+    const participant = this.participants.get(id)
+    if (!participant) return
+
+    this.participants.delete(id)
+    this.emit('participant-left', { participant })
+  }
+
+  /**
+   * Update a participant's own media state, e.g. from signaling
+   */
+  updateMedia(id: string, media: Partial<ParticipantMediaState>): Participant {
+    const participant = this.require(id)
+    return this.update(id, { media: { ...participant.media, ...media } })
+  }
+
+  /**
+   * Let a participant in from the waiting room
+   */
+  admit(id: string): Participant {
+    this.authorize('admit')
+    if (this.require(id).location !== 'waiting') {
+      throw new Error(`Participant ${id} is not in the waiting room`)
+    }
+    return this.update(id, { location: 'backstage' })
+  }
+
+  /**
+   * Turn away a participant in the waiting room
+   */
+  deny(id: string): void {
+    this.authorize('admit')
+    if (this.require(id).location !== 'waiting') {
+      throw new Error(`Participant ${id} is not in the waiting room`)
+    }
+    this.removeParticipant(id)
+  }
+
+  /**
+   * Bring a participant on stage
+   */
+  moveToStage(id: string): Participant {
+    this.authorizeOver('manage-stage', id)
+    if (this.require(id).location === 'waiting') {
+      throw new Error(`Participant ${id} has to be admitted first`)
+    }
+    return this.update(id, { location: 'stage' })
+  }
+
+  /**
+   * Send a participant backstage, releasing their zone
+   */
+  moveToBackstage(id: string): Participant {
+    this.authorizeOver('manage-stage', id)
+    return this.update(id, { location: 'backstage', zoneId: null })
+  }
+
+  /**
+   * Assign the layout zone showing a participant on stage
+   */
+  assignZone(id: string, zoneId: string | null): Participant {
+    this.authorize('change-layout')
+    if (zoneId && this.require(id).location !== 'stage') {
+      throw new Error(`Participant ${id} has to be on stage to be shown`)
+    }
+
+    // A zone shows one participant at a time
+    if (zoneId) {
+      this.participants.forEach(other => {
+        if (other.id !== id && other.zoneId === zoneId) {
+          this.update(other.id, { zoneId: null })
+        }
+      })
+    }
+    return this.update(id, { zoneId })
+  }
+
+  /**
+   * Mute or unmute a participant. Anyone may change their own state;
+   * others can only be muted, never unmuted.
+   */
+  setMuted(id: string, kind: 'audio' | 'video', muted: boolean): Participant {
+    if (id !== this.localId) {
+      this.authorizeOver('mute-others', id)
+      if (!muted) {
+        throw new PermissionError(
+          'mute-others',
+          this.localId,
+          'Only participants can unmute themselves'
+        )
+      }
+    }
+
+    const participant = this.require(id)
+    const media = kind === 'audio'
+      ? { ...participant.media, audioMuted: muted }
+      : { ...participant.media, videoMuted: muted }
+    const updated = this.update(id, { media })
+
+    this.emit('participant-muted', { participantId: id, kind, muted, by: this.localId })
+    return updated
+  }
+
+  /**
+   * Remove a participant from the session
+   */
+  kick(id: string): void {
+    this.authorizeOver('kick', id)
+    const participant = this.require(id)
+
+    this.participants.delete(id)
+    this.emit('participant-kicked', { participant, by: this.localId })
+    this.emit('participant-left', { participant })
+  }
+
+  /**
+   * Change another participant's role, up to our own rank
+   */
+  setRole(id: string, role: ParticipantRole): Participant {
+    this.authorizeOver('assign-roles', id)
+    if (id === this.localId) {
+      throw new PermissionError(
+        'assign-roles',
+        this.localId,
+        'Participants cannot change their own role'
+      )
+    }
+
+    const actor = this.getLocal()
+    if (actor && ROLE_RANK[role] > ROLE_RANK[actor.role]) {
+      throw new PermissionError(
+        'assign-roles',
+        this.localId,
+        `A ${actor.role} cannot promote anyone to ${role}`
+      )
+    }
+    return this.update(id, { role })
+  }
+
+  /**
+   * Get a participant
+   */
+  get(id: string): Participant | undefined {
+    return this.participants.get(id)
+  }
+
+  /**
+   * Get the local participant
+   */
+  getLocal(): Participant | undefined {
+    return this.localId ? this.participants.get(this.localId) : undefined
+  }
+
+  /**
+   * List participants in join order, optionally in one location
+   */
+  list(location?: ParticipantLocation): Participant[] {
+    const participants = Array.from(this.participants.values())
+    return location ? participants.filter(p => p.location === location) : participants
+  }
+
+  /**
+   * Remove everyone
+   */
+  clear(): void {
+    Array.from(this.participants.keys()).forEach(id => this.removeParticipant(id))
+  }
+
+  /**
+   * Authorize an action on another participant, who must not outrank us
+   */
+  private authorizeOver(permission: Permission, targetId: string): void {
+    this.authorize(permission)
+
+    const actor = this.getLocal()
+    const target = this.require(targetId)
+    if (actor && target.id !== actor.id && ROLE_RANK[target.role] > ROLE_RANK[actor.role]) {
+      throw new PermissionError(
+        permission,
+        this.localId,
+        `A ${actor.role} cannot ${permission} a ${target.role}`
+      )
+    }
+  }
+
+  private require(id: string): Participant {
+    const participant = this.participants.get(id)
+    if (!participant) {
+      throw new Error(`Participant ${id} not found`)
+    }
+    return participant
+  }
+
+  /**
+   * Replace a participant with an updated copy, so snapshots stay immutable
+   */
+  private update(id: string, changes: Partial<Omit<Participant, 'id'>>): Participant {
+    const participant = { ...this.require(id), ...changes }
+    this.participants.set(id, participant)
+    this.emit('participant-updated', { participant, changes: Object.keys(changes) })
+    return participant
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Participant Permissions for VueStream
+ *
+ * Roles and the permission matrix that guards studio actions
+ */
+
+export type ParticipantRole = 'host' | 'co-host' | 'guest'
+
+export type Permission =
+  | 'change-layout'
+  | 'manage-overlays'
+  | 'manage-stage'
+  | 'admit'
+  | 'mute-others'
+  | 'kick'
+  | 'assign-roles'
+
+export type PermissionMatrix = Record<ParticipantRole, Permission[]>
+
+export const DEFAULT_PERMISSIONS: PermissionMatrix = {
+  host: [
+    'change-layout',
+    'manage-overlays',
+    'manage-stage',
+    'admit',
+    'mute-others',
+    'kick',
+    'assign-roles'
+  ],
+  'co-host': ['change-layout', 'manage-overlays', 'manage-stage', 'admit', 'mute-others', 'kick'],
+  guest: []
+}
+
+// Higher ranks cannot be muted, kicked or moved by lower ones
+export const ROLE_RANK: Record<ParticipantRole, number> = {
+  host: 2,
+  'co-host': 1,
+  guest: 0
+}
+
+export class PermissionError extends Error {
+  readonly permission: Permission
+  readonly actorId: string | null
+
+  constructor(permission: Permission, actorId: string | null, message?: string) {
+    super(message ?? `${actorId ?? 'Unknown participant'} is not allowed to ${permission}`)
+    this.name = 'PermissionError'
+    this.permission = permission
+    this.actorId = actorId
+  }
+}
+
+/**
+ * Check whether a role has a permission
+ */
+export function hasPermission(
+  matrix: PermissionMatrix,
+  role: ParticipantRole,
+  permission: Permission
+): boolean {
+  return matrix[role].includes(permission)
+}
+
+/**
+ * Merge overrides into the default matrix
+ */
+export function createPermissionMatrix(
+  overrides: Partial<PermissionMatrix> = {}
+): PermissionMatrix {
+  return {
+    host: [...(overrides.host ?? DEFAULT_PERMISSIONS.host)],
+    'co-host': [...(overrides['co-host'] ?? DEFAULT_PERMISSIONS['co-host'])],
+    guest: [...(overrides.guest ?? DEFAULT_PERMISSIONS.guest)]
+  }
+}
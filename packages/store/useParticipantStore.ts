@@ -0,0 +1,103 @@
+/**
+ * Participant Store for VueStream
+ *
+ * Pinia wrapper around ParticipantRoster for apps that use Pinia
+ */
+
+import { ref, computed, markRaw } from 'vue'
+import { defineStore } from 'pinia'
+import {
+  ParticipantRoster,
+  PARTICIPANT_EVENTS,
+  type Participant,
+  type ParticipantInput,
+  type ParticipantMediaState,
+  type ParticipantRosterOptions
+} from './participants'
+import {
+  hasPermission,
+  type Permission,
+  type PermissionMatrix,
+  type ParticipantRole
+} from './permissions'
+
+export const useParticipantStore = defineStore('vuestream-participants', () => {
+  // The roster holds the state; the store mirrors it reactively
+  const roster = markRaw(new ParticipantRoster())
+
+  const participants = ref<Participant[]>([])
+  const localParticipantId = ref<string | null>(null)
+  const permissions = ref<PermissionMatrix>(roster.getPermissions())
+
+  const sync = () => {
+    participants.value = roster.list()
+    permissions.value = roster.getPermissions()
+  }
+  PARTICIPANT_EVENTS.forEach(eventType => roster.on(eventType, sync))
+
+  const localParticipant = computed(() =>
+    participants.value.find(participant => participant.id === localParticipantId.value) ?? null
+  )
+  const onStage = computed(() => participants.value.filter(p => p.location === 'stage'))
+  const backstage = computed(() => participants.value.filter(p => p.location === 'backstage'))
+  const waitingRoom = computed(() => participants.value.filter(p => p.location === 'waiting'))
+
+  function configure(options: ParticipantRosterOptions) {
+    if (options.localParticipantId !== undefined) {
+      setLocalParticipant(options.localParticipantId)
+    }
+    if (options.permissions) {
+      roster.setPermissions(options.permissions)
+    }
+    if (options.waitingRoom !== undefined) {
+      roster.setWaitingRoom(options.waitingRoom)
+    }
+  }
+
+  function setLocalParticipant(id: string | null) {
+    roster.setLocalParticipant(id)
+    localParticipantId.value = id
+  }
+
+  // Evaluated from reactive state so templates update when roles change
+  function can(permission: Permission, participantId = localParticipantId.value) {
+    const participant = participants.value.find(p => p.id === participantId)
+    return !!participant && hasPermission(permissions.value, participant.role, permission)
+  }
+
+  return {
+    // State
+    participants,
+    localParticipantId,
+    permissions,
+
+    // Getters
+    localParticipant,
+    onStage,
+    backstage,
+    waitingRoom,
+
+    // Actions
+    configure,
+    setLocalParticipant,
+    can,
+    authorize: (permission: Permission) => roster.authorize(permission),
+    addParticipant: (input: ParticipantInput) => roster.addParticipant(input),
+    removeParticipant: (id: string) => roster.removeParticipant(id),
+    updateMedia: (id: string, media: Partial<ParticipantMediaState>) =>
+      roster.updateMedia(id, media),
+    admit: (id: string) => roster.admit(id),
+    deny: (id: string) => roster.deny(id),
+    moveToStage: (id: string) => roster.moveToStage(id),
+    moveToBackstage: (id: string) => roster.moveToBackstage(id),
+    assignZone: (id: string, zoneId: string | null) => roster.assignZone(id, zoneId),
+    setMuted: (id: string, kind: 'audio' | 'video', muted: boolean) =>
+      roster.setMuted(id, kind, muted),
+    kick: (id: string) => roster.kick(id),
+    setRole: (id: string, role: ParticipantRole) => roster.setRole(id, role),
+    clear: () => roster.clear(),
+
+    // Roster access, e.g. for events
+    roster
+  }
+})
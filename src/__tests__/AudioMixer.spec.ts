@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest'
+
+import { AudioMixer } from '../../packages/core/audio/AudioMixer'
+
+class FakeParam {
+  constructor(public value = 0) {}
+
+  // Jumps straight to the target; the ramp itself isn't under test
+  setTargetAtTime(value: number) {
+    this.value = value
+  }
+}
+
+class FakeNode {
+  connections = new Set<unknown>()
+
+  connect(node: unknown) {
+    this.connections.add(node)
+  }
+
+  disconnect(node?: unknown) {
+    if (node) {
+      this.connections.delete(node)
+    } else {
+      this.connections.clear()
+    }
+  }
+}
+
+class FakeGain extends FakeNode {
+  gain = new FakeParam(1)
+}
+
+/**
+ * Just enough of AudioContext to build the mixer graph
+ */
+class FakeAudioContext {
+  currentTime = 0
+  destination = new FakeNode()
+  gains: FakeGain[] = []
+
+  resume() {
+    return Promise.resolve()
+  }
+
+  createGain() {
+    const gain = new FakeGain()
+    this.gains.push(gain)
+    return gain
+  }
+
+  createDynamicsCompressor() {
+    return Object.assign(new FakeNode(), {
+      threshold: new FakeParam(),
+      knee: new FakeParam(),
+      ratio: new FakeParam(),
+      attack: new FakeParam(),
+      release: new FakeParam()
+    })
+  }
+
+  createAnalyser() {
+    return Object.assign(new FakeNode(), {
+      fftSize: 2048,
+      getFloatTimeDomainData: (buffer: Float32Array) => buffer.fill(0.1)
+    })
+  }
+
+  createStereoPanner() {
+    return Object.assign(new FakeNode(), { pan: new FakeParam() })
+  }
+
+  createMediaStreamDestination() {
+    return Object.assign(new FakeNode(), { stream: { getTracks: () => [] } })
+  }
+
+  createMediaStreamSource() {
+    return new FakeNode()
+  }
+}
+
+const stream = { getAudioTracks: () => [{}] } as unknown as MediaStream
+
+function createMixer() {
+  const context = new FakeAudioContext()
+  const mixer = new AudioMixer({ audioContext: context as unknown as AudioContext })
+  // The first gain node belongs to the master bus
+  const channelGain = (index: number) => context.gains[index + 1].gain.value
+  return { mixer, context, channelGain }
+}
+
+function audible(mixer: AudioMixer) {
+  return Object.fromEntries(mixer.getChannels().map(channel => [channel.id, channel.audible]))
+}
+
+describe('AudioMixer', () => {
+  it('ignores sources without audio', () => {
+    const { mixer } = createMixer()
+    expect(mixer.addChannel('muted', { getAudioTracks: () => [] } as never)).toBe(false)
+    expect(mixer.getChannels()).toEqual([])
+  })
+
+  it('silences muted channels only', () => {
+    const { mixer, channelGain } = createMixer()
+    mixer.addChannel('a', stream, { gain: 0.5 })
+    mixer.addChannel('b', stream)
+
+    mixer.setMuted('a', true)
+    expect(audible(mixer)).toEqual({ a: false, b: true })
+    expect([channelGain(0), channelGain(1)]).toEqual([0, 1])
+
+    mixer.setMuted('a', false)
+    expect(channelGain(0)).toBe(0.5)
+  })
+
+  it('hears only soloed channels while any is soloed', () => {
+    const { mixer, channelGain } = createMixer()
+    mixer.addChannel('a', stream)
+    mixer.addChannel('b', stream)
+    mixer.addChannel('c', stream, { solo: true })
+
+    expect(audible(mixer)).toEqual({ a: false, b: false, c: true })
+    expect([channelGain(0), channelGain(1), channelGain(2)]).toEqual([0, 0, 1])
+
+    mixer.setSolo('a', true)
+    expect(audible(mixer)).toEqual({ a: true, b: false, c: true })
+  })
+
+  it('keeps a muted channel silent when soloed', () => {
+    const { mixer } = createMixer()
+    mixer.addChannel('a', stream, { muted: true, solo: true })
+    mixer.addChannel('b', stream)
+
+    expect(audible(mixer)).toEqual({ a: false, b: false })
+  })
+
+  it('brings the others back when the soloed channel is removed', () => {
+    const { mixer, channelGain } = createMixer()
+    mixer.addChannel('a', stream, { gain: 0.8 })
+    mixer.addChannel('b', stream, { solo: true })
+    expect(channelGain(0)).toBe(0)
+
+    mixer.removeChannel('b')
+
+    expect(audible(mixer)).toEqual({ a: true })
+    expect(channelGain(0)).toBe(0.8)
+  })
+
+  it('clamps gain and pan', () => {
+    const { mixer } = createMixer()
+    mixer.addChannel('a', stream, { pan: 3 })
+    mixer.setGain('a', -1)
+
+    expect(mixer.getChannel('a')).toMatchObject({ gain: 0, pan: 1 })
+    expect(() => mixer.setGain('missing', 1)).toThrow('Audio channel missing not found')
+  })
+
+  it('mutes the master bus', () => {
+    const { mixer, context } = createMixer()
+    mixer.setMasterGain(0.5)
+    mixer.setMasterMuted(true)
+
+    expect(context.gains[0].gain.value).toBe(0)
+    expect(mixer.getMaster()).toEqual({ gain: 0.5, muted: true, monitoring: false })
+  })
+
+  it('reads channel meters on the level scale', () => {
+    const { mixer } = createMixer()
+    mixer.addChannel('a', stream)
+
+    const { a } = mixer.getMeters()
+    expect(a.rms).toBeCloseTo(2 / 3)
+    expect(a.clipping).toBe(false)
+  })
+})
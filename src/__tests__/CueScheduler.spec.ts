@@ -0,0 +1,206 @@
+import { describe, it, expect, vi } from 'vitest'
+
+import {
+  CueScheduler,
+  resolveCueTimes,
+  type Cue,
+  type CueClock,
+  type CueTarget
+} from '../../packages/core/canvas/CueScheduler'
+import type { AnyOverlayConfig } from '../../packages/core/canvas/overlays'
+import type { CanvasEvent } from '../../packages/core/canvas/types'
+
+function createClock() {
+  let time = 0
+  const intervals = new Map<number, { callback: () => void; ms: number; next: number }>()
+  let nextHandle = 1
+
+  const clock: CueClock = {
+    now: () => time,
+    setInterval: (callback, ms) => {
+      intervals.set(nextHandle, { callback, ms, next: time + ms })
+      return nextHandle++
+    },
+    clearInterval: handle => {
+      intervals.delete(handle)
+    }
+  }
+
+  const advance = (ms: number) => {
+    const end = time + ms
+    for (;;) {
+      const due = Array.from(intervals.values())
+        .filter(interval => interval.next <= end)
+        .sort((a, b) => a.next - b.next)[0]
+      if (!due) break
+      time = due.next
+      due.next += due.ms
+      due.callback()
+    }
+    time = end
+  }
+
+  return { clock, advance }
+}
+
+function createTarget() {
+  const overlays = new Map<string, AnyOverlayConfig>()
+  const calls: string[] = []
+
+  const target = {
+    createOverlay: vi.fn(async (config: AnyOverlayConfig) => {
+      calls.push(`create ${config.id}`)
+      overlays.set(config.id, config)
+    }),
+    updateOverlay: vi.fn(async (id: string) => {
+      calls.push(`update ${id}`)
+    }),
+    removeOverlay: vi.fn(async (id: string) => {
+      calls.push(`remove ${id}`)
+      overlays.delete(id)
+    }),
+    showOverlay: vi.fn(async (id: string) => {
+      calls.push(`show ${id}`)
+    }),
+    hideOverlay: vi.fn(async (id: string) => {
+      calls.push(`hide ${id}`)
+    }),
+    applyLayout: vi.fn((layoutId: string) => {
+      calls.push(`layout ${layoutId}`)
+    }),
+    getOverlayConfig: vi.fn((id: string) => overlays.get(id))
+  } satisfies CueTarget
+
+  return { target, calls }
+}
+
+const text = (id: string): AnyOverlayConfig => ({ id, type: 'text', content: id, x: 0, y: 0 })
+
+const SHOW: Cue[] = [
+  { id: 'title', at: 0, action: { type: 'create-overlay', config: text('title') } },
+  {
+    id: 'sponsor',
+    at: 300_000,
+    duration: 30_000,
+    action: { type: 'create-overlay', config: text('logo') }
+  },
+  { id: 'speaker-1', offset: 60_000, action: { type: 'show-overlay', overlayId: 'lt-1' } },
+  { id: 'speaker-2', offset: 120_000, action: { type: 'show-overlay', overlayId: 'lt-2' } }
+]
+
+describe('CueScheduler', () => {
+  it('resolves absolute times and offsets from the previous cue', () => {
+    const times = resolveCueTimes(SHOW)
+    expect(Array.from(times.values())).toEqual([0, 300_000, 360_000, 480_000])
+  })
+
+  it('fires cues on time and undoes durations', async () => {
+    const { clock, advance } = createClock()
+    const { target, calls } = createTarget()
+    const scheduler = new CueScheduler(target, SHOW, { clock, interval: 1000 })
+    const fired: string[] = []
+    scheduler.on('cue-fired', (event: CanvasEvent) => {
+      fired.push((event.data as { id: string }).id)
+    })
+
+    scheduler.start()
+    expect(fired).toEqual(['title'])
+
+    advance(300_000)
+    expect(fired).toEqual(['title', 'sponsor'])
+
+    advance(30_000)
+    await scheduler.whenIdle()
+    expect(calls).toEqual(['create title', 'create logo', 'remove logo'])
+
+    advance(150_000)
+    expect(fired).toEqual(['title', 'sponsor', 'speaker-1', 'speaker-2'])
+    scheduler.destroy()
+  })
+
+  it('holds the show time while paused', () => {
+    const { clock, advance } = createClock()
+    const { target } = createTarget()
+    const scheduler = new CueScheduler(target, SHOW, { clock })
+
+    scheduler.start()
+    advance(100_000)
+    scheduler.pause()
+    advance(500_000)
+    expect(scheduler.getPosition()).toBe(100_000)
+    expect(scheduler.hasFired('sponsor')).toBe(false)
+
+    scheduler.start()
+    advance(200_000)
+    expect(scheduler.hasFired('sponsor')).toBe(true)
+    scheduler.destroy()
+  })
+
+  it('skips passed cues on seek and fires them again after seeking back', () => {
+    const { clock } = createClock()
+    const { target } = createTarget()
+    const scheduler = new CueScheduler(target, SHOW, { clock })
+    const skipped: string[] = []
+    scheduler.on('cue-skipped', (event: CanvasEvent) => {
+      skipped.push((event.data as { id: string }).id)
+    })
+
+    scheduler.seek(400_000)
+    expect(skipped).toEqual(['title', 'sponsor', 'speaker-1'])
+    expect(target.createOverlay).not.toHaveBeenCalled()
+
+    scheduler.seek(200_000)
+    expect(scheduler.hasFired('sponsor')).toBe(false)
+    expect(scheduler.hasFired('title')).toBe(true)
+  })
+
+  it('skips to the next cue', () => {
+    const { clock } = createClock()
+    const { target } = createTarget()
+    const scheduler = new CueScheduler(target, SHOW, { clock })
+
+    expect(scheduler.skip()?.id).toBe('title')
+    expect(scheduler.skip()?.id).toBe('sponsor')
+    expect(scheduler.getPosition()).toBe(300_000)
+    expect(scheduler.hasFired('sponsor')).toBe(true)
+  })
+
+  it('schedules offsets after a manual cue from its trigger', async () => {
+    const { clock, advance } = createClock()
+    const { target } = createTarget()
+    const scheduler = new CueScheduler(target, [
+      { id: 'break', manual: true, action: { type: 'apply-layout', layoutId: 'single-speaker' } },
+      { id: 'back', offset: 10_000, action: { type: 'apply-layout', layoutId: 'grid-2x2' } }
+    ], { clock })
+
+    scheduler.start()
+    advance(60_000)
+    expect(scheduler.hasFired('back')).toBe(false)
+
+    scheduler.trigger('break')
+    expect(scheduler.getSchedule().get('back')).toBe(70_000)
+    advance(10_000)
+    await scheduler.whenIdle()
+    expect(target.applyLayout).toHaveBeenCalledWith('grid-2x2', undefined)
+    scheduler.destroy()
+  })
+
+  it('reports failed actions', async () => {
+    const { clock } = createClock()
+    const { target } = createTarget()
+    vi.mocked(target.updateOverlay).mockRejectedValue(new Error('Overlay lt-1 not found'))
+    const scheduler = new CueScheduler(target, [
+      { id: 'rename', at: 0, action: { type: 'update-overlay', overlayId: 'lt-1', updates: {} } }
+    ], { clock })
+    const failed = vi.fn()
+    scheduler.on('cue-failed', failed)
+
+    scheduler.start()
+    await scheduler.whenIdle()
+    expect(failed.mock.calls[0][0].data).toMatchObject({
+      id: 'rename',
+      error: 'Overlay lt-1 not found'
+    })
+    scheduler.destroy()
+  })
+})
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+
+import { LocalAssetStorage } from '../../packages/storage/adapters/LocalAssetStorage'
+
+function readBlob(blob: Blob): Promise<string> {
+  return new Promise(resolve => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.readAsText(blob)
+  })
+}
+
+function textBlob(content: string): Blob {
+  return new Blob([content], { type: 'text/plain' })
+}
+
+beforeEach(() => {
+  // No IndexedDB, so everything goes to localStorage
+  vi.stubGlobal('indexedDB', undefined)
+  localStorage.clear()
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+  vi.unstubAllGlobals()
+})
+
+describe('LocalAssetStorage without IndexedDB', () => {
+  it('stores assets in localStorage as data URLs', async () => {
+    const storage = new LocalAssetStorage({ storageKey: 'test-asset' })
+
+    const id = await storage.upload(textBlob('hello'), {
+      name: 'notes.txt',
+      kind: 'logo'
+    })
+
+    const item = JSON.parse(localStorage.getItem(`test-asset:${id}`)!)
+    expect(item).toMatchObject({ id, name: 'notes.txt', type: 'text/plain', size: 5, kind: 'logo' })
+    expect(item.data).toMatch(/^data:text\/plain;base64,/)
+    expect(JSON.parse(localStorage.getItem('test-asset-index')!)).toEqual([id])
+
+    const blob = await storage.getAsset(id)
+    expect(blob?.type).toBe('text/plain')
+    expect(await readBlob(blob!)).toBe('hello')
+  })
+
+  it('lists assets newest first and forgets deleted ones', async () => {
+    const storage = new LocalAssetStorage()
+    vi.spyOn(Date, 'now').mockReturnValueOnce(1000).mockReturnValueOnce(2000)
+    const older = await storage.upload(textBlob('a'), { name: 'a.txt' })
+    const newer = await storage.upload(textBlob('b'), { name: 'b.txt' })
+
+    expect((await storage.listAssets()).map(asset => asset.id)).toEqual([newer, older])
+
+    await storage.deleteAsset(newer)
+    expect((await storage.listAssets()).map(asset => asset.id)).toEqual([older])
+    expect(localStorage.getItem(`vuestream-asset:${newer}`)).toBeNull()
+    expect(await storage.getAsset(newer)).toBeNull()
+  })
+
+  it('skips corrupt entries', async () => {
+    const storage = new LocalAssetStorage()
+    const id = await storage.upload(textBlob('a'), { name: 'a.txt' })
+    localStorage.setItem(`vuestream-asset:${id}`, '{not json')
+
+    expect(await storage.listAssets()).toEqual([])
+    expect(await storage.getAsset(id)).toBeNull()
+  })
+
+  it('reports a full localStorage by asset name', async () => {
+    const storage = new LocalAssetStorage()
+    vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new DOMException('The quota has been exceeded.', 'QuotaExceededError')
+    })
+
+    await expect(storage.upload(textBlob('a'), { name: 'huge.mp4' }))
+      .rejects.toThrow('Not enough local storage space for asset huge.mp4')
+  })
+
+  it('caches object URLs until the asset is deleted', async () => {
+    const createObjectURL = vi.fn(() => 'blob:asset')
+    const revokeObjectURL = vi.fn()
+    vi.stubGlobal('URL', class extends URL {
+      static createObjectURL = createObjectURL
+      static revokeObjectURL = revokeObjectURL
+    })
+    const storage = new LocalAssetStorage()
+    const id = await storage.upload(textBlob('a'), { name: 'a.txt' })
+
+    expect(await storage.getAssetUrl(id)).toBe('blob:asset')
+    expect(await storage.getAssetUrl(id)).toBe('blob:asset')
+    expect(createObjectURL).toHaveBeenCalledTimes(1)
+
+    await storage.deleteAsset(id)
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:asset')
+    expect(await storage.getAssetUrl(id)).toBeNull()
+  })
+})
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+
+import { MediaDeviceManager } from '../../packages/core/media/MediaDeviceManager'
+
+class FakeTrack extends EventTarget {
+  enabled = true
+  readyState: MediaStreamTrackState = 'live'
+  label = ''
+
+  constructor(readonly kind: 'audio' | 'video') {
+    super()
+  }
+
+  stop() {
+    this.readyState = 'ended'
+  }
+
+  // What the browser does when the device goes away
+  end() {
+    this.readyState = 'ended'
+    this.dispatchEvent(new Event('ended'))
+  }
+}
+
+function createStream(kinds: Array<'audio' | 'video'>) {
+  const tracks = kinds.map(kind => new FakeTrack(kind))
+  return {
+    id: 'stream-1',
+    tracks,
+    getTracks: () => tracks,
+    getAudioTracks: () => tracks.filter(track => track.kind === 'audio'),
+    getVideoTracks: () => tracks.filter(track => track.kind === 'video')
+  }
+}
+
+function device(kind: MediaDeviceKind, deviceId: string) {
+  return { kind, deviceId, label: deviceId, groupId: '' }
+}
+
+const mediaDevices = {
+  getUserMedia: vi.fn(),
+  enumerateDevices: vi.fn(),
+  addEventListener: vi.fn(),
+  removeEventListener: vi.fn()
+}
+
+beforeEach(() => {
+  localStorage.clear()
+  mediaDevices.getUserMedia.mockReset()
+  mediaDevices.getUserMedia.mockImplementation(async ({ audio }: MediaStreamConstraints) =>
+    createStream(audio ? ['video', 'audio'] : ['video'])
+  )
+  mediaDevices.enumerateDevices.mockResolvedValue([
+    device('videoinput', 'cam-1'),
+    device('videoinput', 'cam-2'),
+    device('audioinput', 'mic-1'),
+    device('audiooutput', 'speaker-1')
+  ])
+  vi.stubGlobal('navigator', { mediaDevices })
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+function constraints(call = 0): MediaStreamConstraints {
+  return mediaDevices.getUserMedia.mock.calls[call][0]
+}
+
+describe('MediaDeviceManager', () => {
+  it('sorts devices by role', async () => {
+    const manager = new MediaDeviceManager()
+    const changed = vi.fn()
+    manager.on('devices-changed', changed)
+
+    const devices = await manager.enumerate()
+
+    expect(devices.cameras.map(camera => camera.deviceId)).toEqual(['cam-1', 'cam-2'])
+    expect(devices.microphones.map(microphone => microphone.deviceId)).toEqual(['mic-1'])
+    expect(devices.speakers.map(speaker => speaker.deviceId)).toEqual(['speaker-1'])
+    expect(changed).toHaveBeenCalledTimes(1)
+  })
+
+  it('remembers selected devices across instances', () => {
+    new MediaDeviceManager().selectDevice('camera', 'cam-2')
+
+    expect(new MediaDeviceManager().getSelection())
+      .toEqual({ camera: 'cam-2', microphone: null, speaker: null })
+  })
+
+  it('ignores corrupt saved selections', () => {
+    localStorage.setItem('vuestream-devices', '{oops')
+    expect(new MediaDeviceManager().getSelection())
+      .toEqual({ camera: null, microphone: null, speaker: null })
+  })
+
+  it('prefers the selected camera and microphone', async () => {
+    const manager = new MediaDeviceManager()
+    manager.selectDevice('camera', 'cam-2')
+    manager.selectDevice('microphone', 'mic-1')
+
+    await manager.startCamera({ width: 1280 })
+
+    expect(constraints()).toEqual({
+      video: { width: { ideal: 1280 }, deviceId: { ideal: 'cam-2' } },
+      audio: { deviceId: { ideal: 'mic-1' } }
+    })
+  })
+
+  it('requires an explicitly requested camera', async () => {
+    const manager = new MediaDeviceManager()
+    manager.selectDevice('camera', 'cam-2')
+
+    await manager.startCamera({ deviceId: 'cam-1', audio: false })
+
+    expect(constraints()).toEqual({ video: { deviceId: { exact: 'cam-1' } }, audio: false })
+  })
+
+  it('reports refused permissions as typed errors', async () => {
+    // Shaped like the browser's DOMException, which jsdom doesn't derive from Error
+    const denied = Object.assign(new Error('denied'), { name: 'NotAllowedError' })
+    mediaDevices.getUserMedia.mockRejectedValue(denied)
+
+    await expect(new MediaDeviceManager().startCamera())
+      .rejects.toMatchObject({ name: 'MediaDeviceError', code: 'PERMISSION_DENIED' })
+  })
+
+  it('ends a camera whose device is unplugged', async () => {
+    const manager = new MediaDeviceManager()
+    const errors = vi.fn()
+    const ended = vi.fn()
+    manager.on('error', errors)
+    manager.on('source-ended', ended)
+
+    const source = await manager.startCamera({ id: 'host' })
+    ;(source.track as unknown as FakeTrack).end()
+
+    expect(errors.mock.calls[0][0].data).toMatchObject({ code: 'DEVICE_LOST' })
+    expect(ended.mock.calls[0][0].data)
+      .toEqual({ id: 'host', type: 'camera', reason: 'device-lost' })
+    expect(manager.getSources()).toEqual([])
+  })
+
+  it('does not report sources it stops itself', async () => {
+    const manager = new MediaDeviceManager()
+    const errors = vi.fn()
+    manager.on('error', errors)
+
+    await manager.startCamera({ id: 'host' })
+    manager.stopSource('host')
+
+    expect(errors).not.toHaveBeenCalled()
+    expect(manager.getSources()).toEqual([])
+  })
+})
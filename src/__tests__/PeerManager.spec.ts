@@ -0,0 +1,234 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+
+import { PeerManager } from '../../packages/core/webrtc/PeerManager'
+import { LoopbackSignalingHub } from '../../packages/core/webrtc/signaling'
+import type { SignalingMessage } from '../../packages/core/webrtc/types'
+
+let trackCount = 0
+let streamCount = 0
+
+function createTrack(kind: 'audio' | 'video', id = `track-${++trackCount}`): MediaStreamTrack {
+  return { id, kind } as MediaStreamTrack
+}
+
+class FakeMediaStream extends EventTarget {
+  id = `stream-${++streamCount}`
+  private tracks: MediaStreamTrack[]
+
+  constructor(tracks: MediaStreamTrack[] = []) {
+    super()
+    this.tracks = [...tracks]
+  }
+
+  getTracks() {
+    return [...this.tracks]
+  }
+
+  getTrackById(id: string) {
+    return this.tracks.find(track => track.id === id) ?? null
+  }
+
+  addTrack(track: MediaStreamTrack) {
+    this.tracks.push(track)
+  }
+}
+
+interface FakeSdp {
+  tracks: Array<{ id: string; kind: string; streamId: string }>
+}
+
+/**
+ * Just enough of RTCPeerConnection for perfect negotiation: the signaling
+ * state machine, implicit rollback, negotiationneeded and ontrack. The
+ * "SDP" lists the sender's tracks.
+ */
+class FakePeerConnection {
+  signalingState: RTCSignalingState = 'stable'
+  connectionState: RTCPeerConnectionState = 'new'
+  iceConnectionState: RTCIceConnectionState = 'new'
+  localDescription: { type: RTCSdpType; sdp: string; toJSON(): RTCSessionDescriptionInit } |
+    null = null
+  onnegotiationneeded: (() => void) | null = null
+  onicecandidate: unknown = null
+  oniceconnectionstatechange: unknown = null
+  onconnectionstatechange: unknown = null
+  ontrack: ((event: { track: MediaStreamTrack; streams: FakeMediaStream[] }) => void) | null =
+    null
+
+  private senders: Array<{ track: MediaStreamTrack; streamId: string }> = []
+  private negotiated: Set<string> = new Set()
+  private offered: Set<string> = new Set()
+  private negotiating = false
+  private remoteStreams: Map<string, FakeMediaStream> = new Map()
+
+  addTrack(track: MediaStreamTrack, stream: MediaStream) {
+    const sender = { track, streamId: stream.id }
+    this.senders.push(sender)
+    this.checkNegotiation()
+    return sender
+  }
+
+  async setLocalDescription() {
+    await Promise.resolve()
+    const type: RTCSdpType = this.signalingState === 'have-remote-offer' ? 'answer' : 'offer'
+    const sdp: FakeSdp = {
+      tracks: this.senders.map(({ track, streamId }) => ({
+        id: track.id,
+        kind: track.kind,
+        streamId
+      }))
+    }
+    this.offered = new Set(sdp.tracks.map(track => track.id))
+    const description = { type, sdp: JSON.stringify(sdp) }
+    this.localDescription = { ...description, toJSON: () => description }
+
+    if (type === 'answer') {
+      this.stable()
+    } else {
+      this.signalingState = 'have-local-offer'
+    }
+  }
+
+  async setRemoteDescription(description: RTCSessionDescriptionInit) {
+    await Promise.resolve()
+    if (description.type === 'answer') {
+      if (this.signalingState !== 'have-local-offer') {
+        throw new Error(`Cannot set remote answer in state ${this.signalingState}`)
+      }
+      this.stable()
+    } else {
+      // An offer in have-local-offer implicitly rolls back our own
+      this.offered = new Set()
+      this.signalingState = 'have-remote-offer'
+    }
+    this.receiveTracks(JSON.parse(description.sdp ?? '{}') as FakeSdp)
+  }
+
+  async addIceCandidate() {}
+
+  restartIce() {}
+
+  close() {
+    this.signalingState = 'closed'
+  }
+
+  private stable() {
+    this.signalingState = 'stable'
+    this.negotiated = this.offered
+    this.negotiating = false
+    this.checkNegotiation()
+  }
+
+  private checkNegotiation() {
+    queueMicrotask(() => {
+      const needed = this.senders.some(({ track }) => !this.negotiated.has(track.id))
+      if (this.signalingState === 'stable' && needed && !this.negotiating) {
+        this.negotiating = true
+        this.onnegotiationneeded?.()
+      }
+    })
+  }
+
+  private receiveTracks({ tracks = [] }: FakeSdp) {
+    tracks.forEach(({ id, kind, streamId }) => {
+      let stream = this.remoteStreams.get(streamId)
+      if (stream?.getTrackById(id)) return
+
+      if (!stream) {
+        stream = new FakeMediaStream()
+        stream.id = streamId
+        this.remoteStreams.set(streamId, stream)
+      }
+      const track = createTrack(kind as 'audio' | 'video', id)
+      stream.addTrack(track)
+      this.ontrack?.({ track, streams: [stream] })
+    })
+  }
+}
+
+function settle(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0))
+}
+
+describe('PeerManager', () => {
+  beforeEach(() => {
+    vi.stubGlobal('MediaStream', FakeMediaStream)
+    vi.stubGlobal('RTCPeerConnection', FakePeerConnection)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('resolves offers made by both sides at once', async () => {
+    const hub = new LoopbackSignalingHub()
+    // 'b' sorts after 'a', so it is the polite peer
+    const a = new PeerManager({ peerId: 'a', transport: hub.createTransport() })
+    const b = new PeerManager({ peerId: 'b', transport: hub.createTransport() })
+    const errors: unknown[] = []
+    a.on('error', event => errors.push(event.data))
+    b.on('error', event => errors.push(event.data))
+
+    await a.connect()
+    await b.connect()
+    await settle()
+    expect(a.getPeers().map(peer => peer.polite)).toEqual([false])
+    expect(b.getPeers().map(peer => peer.polite)).toEqual([true])
+
+    // Both sides add media in the same tick, so both make an offer
+    a.addLocalStream(new MediaStream([createTrack('audio'), createTrack('video')]))
+    b.addLocalStream(new MediaStream([createTrack('audio'), createTrack('video')]))
+    await settle()
+
+    expect(errors).toEqual([])
+    expect(a.getPeerConnection('b')?.signalingState).toBe('stable')
+    expect(b.getPeerConnection('a')?.signalingState).toBe('stable')
+
+    for (const manager of [a, b]) {
+      const sources = manager.getRemoteSources()
+      expect(sources).toHaveLength(1)
+      expect(sources[0].stream.getTracks().map(track => track.kind)).toEqual(['audio', 'video'])
+      // Shown by its video track even though the audio track arrived first
+      expect(sources[0].track?.kind).toBe('video')
+    }
+
+    a.destroy()
+    b.destroy()
+  })
+
+  it('accepts an offer that arrives while an answer is being applied', async () => {
+    const hub = new LoopbackSignalingHub()
+    const a = new PeerManager({ peerId: 'a', transport: hub.createTransport() })
+    const errors: unknown[] = []
+    a.on('error', event => errors.push(event.data))
+    await a.connect()
+
+    // Drive the polite side by hand to control message order
+    const remote = hub.createTransport()
+    const received: SignalingMessage[] = []
+    remote.onMessage(message => received.push(message))
+    await remote.connect('b')
+    remote.send({ type: 'join', from: 'b' })
+    await settle()
+
+    a.addLocalStream(new MediaStream([createTrack('video')]))
+    await settle()
+    expect(received.map(message => message.type)).toContain('description')
+    received.length = 0
+
+    const sdp = JSON.stringify({ tracks: [] })
+    remote.send({ type: 'description', from: 'b', to: 'a', description: { type: 'answer', sdp } })
+    remote.send({ type: 'description', from: 'b', to: 'a', description: { type: 'offer', sdp } })
+    await settle()
+
+    expect(errors).toEqual([])
+    expect(received).toContainEqual(expect.objectContaining({
+      type: 'description',
+      description: expect.objectContaining({ type: 'answer' })
+    }))
+    expect(a.getPeerConnection('b')?.signalingState).toBe('stable')
+
+    a.destroy()
+    remote.disconnect()
+  })
+})
@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+
+import { RecordingManager, getSupportedMimeTypes } from '../../packages/core/recording'
+import type { CanvasManager } from '../../packages/core/canvas/CanvasManager'
+import type { CanvasEvent } from '../../packages/core/canvas/types'
+import type { RecordingState } from '../../packages/core/recording'
+
+/**
+ * MediaRecorder that records nothing; tests hand it chunks
+ */
+class FakeMediaRecorder {
+  static supported = ['video/webm;codecs=vp8,opus', 'video/webm']
+  static last: FakeMediaRecorder | null = null
+
+  static isTypeSupported(type: string) {
+    return FakeMediaRecorder.supported.includes(type)
+  }
+
+  state: RecordingState = 'inactive'
+  mimeType: string
+  timeslice: number | undefined
+  ondataavailable: ((event: { data: Blob }) => void) | null = null
+  onerror: ((event: Event) => void) | null = null
+  onstop: (() => void) | null = null
+
+  constructor(readonly stream: MediaStream, options: { mimeType?: string }) {
+    this.mimeType = options.mimeType ?? ''
+    FakeMediaRecorder.last = this
+  }
+
+  start(timeslice?: number) {
+    this.timeslice = timeslice
+    this.state = 'recording'
+  }
+
+  pause() {
+    this.state = 'paused'
+  }
+
+  resume() {
+    this.state = 'recording'
+  }
+
+  stop() {
+    this.state = 'inactive'
+    this.onstop?.()
+  }
+
+  deliver(text: string) {
+    this.ondataavailable?.({ data: new Blob([text]) })
+  }
+}
+
+const canvasStream = {} as MediaStream
+
+function createCanvas(capturing = false) {
+  return {
+    isCapturing: vi.fn(() => capturing),
+    captureStream: vi.fn(() => canvasStream),
+    stopCapture: vi.fn()
+  }
+}
+
+function recorder() {
+  return FakeMediaRecorder.last!
+}
+
+beforeEach(() => {
+  FakeMediaRecorder.last = null
+  vi.stubGlobal('MediaRecorder', FakeMediaRecorder)
+  vi.useFakeTimers({ toFake: ['Date'] })
+  vi.setSystemTime(10_000)
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.unstubAllGlobals()
+})
+
+describe('getSupportedMimeTypes', () => {
+  it('keeps the types the browser can record, in order', () => {
+    expect(getSupportedMimeTypes()).toEqual(['video/webm;codecs=vp8,opus', 'video/webm'])
+  })
+
+  it('finds nothing without MediaRecorder', () => {
+    vi.stubGlobal('MediaRecorder', undefined)
+    expect(getSupportedMimeTypes()).toEqual([])
+  })
+})
+
+describe('RecordingManager', () => {
+  it('records the canvas with the best supported type', () => {
+    const canvas = createCanvas()
+    const manager = new RecordingManager(canvas as unknown as CanvasManager)
+    const started = vi.fn()
+    manager.on('recording-started', started)
+
+    manager.start({ frameRate: 60, audio: true, timeslice: 500 })
+
+    expect(canvas.captureStream)
+      .toHaveBeenCalledWith({ frameRate: 60, audio: true, audioTracks: undefined })
+    expect(recorder().stream).toBe(canvasStream)
+    expect(recorder().timeslice).toBe(500)
+    expect(started.mock.calls[0][0].data)
+      .toEqual({ mimeType: 'video/webm;codecs=vp8,opus', source: 'canvas' })
+    expect(() => manager.start()).toThrow('Recording already in progress')
+  })
+
+  it('records a single source without touching the canvas', () => {
+    const canvas = createCanvas()
+    const manager = new RecordingManager(canvas as unknown as CanvasManager)
+    const stream = {} as MediaStream
+
+    manager.start({ source: { id: 'guest', stream } as never })
+
+    expect(recorder().stream).toBe(stream)
+    expect(canvas.captureStream).not.toHaveBeenCalled()
+  })
+
+  it('needs a canvas or a source', () => {
+    expect(() => new RecordingManager().start())
+      .toThrow('No canvas to record; pass a source instead')
+  })
+
+  it('collects chunks into the result and leaves out paused time', async () => {
+    const manager = new RecordingManager(createCanvas() as unknown as CanvasManager)
+    const onChunk = vi.fn()
+    const chunks: CanvasEvent[] = []
+    manager.on('recording-chunk', event => chunks.push(event))
+
+    manager.start({ onChunk })
+    recorder().deliver('abc')
+    vi.setSystemTime(11_000)
+    manager.pause()
+    vi.setSystemTime(14_000)
+    expect(manager.getElapsed()).toBe(1000)
+    manager.resume()
+    vi.setSystemTime(14_500)
+    recorder().deliver('')
+    recorder().deliver('de')
+
+    const result = await manager.stop()
+
+    expect(onChunk).toHaveBeenCalledTimes(2)
+    expect(chunks.map(event => event.data)).toEqual([
+      { index: 0, size: 3, totalSize: 3 },
+      { index: 1, size: 2, totalSize: 5 }
+    ])
+    expect(result.size).toBe(5)
+    expect(result.duration).toBe(1500)
+    expect(result.blob.size).toBe(5)
+    expect(result.blob.type).toBe('video/webm;codecs=vp8,opus')
+    expect(manager.getState()).toBe('inactive')
+  })
+
+  it('stops a canvas capture only if it started it', async () => {
+    const idle = createCanvas()
+    const owner = new RecordingManager(idle as unknown as CanvasManager)
+    owner.start()
+    await owner.stop()
+    expect(idle.stopCapture).toHaveBeenCalled()
+
+    const streaming = createCanvas(true)
+    const guest = new RecordingManager(streaming as unknown as CanvasManager)
+    guest.start()
+    await guest.stop()
+    expect(streaming.stopCapture).not.toHaveBeenCalled()
+  })
+
+  it('rejects a stop without a recording', async () => {
+    await expect(new RecordingManager().stop()).rejects.toThrow('No recording in progress')
+  })
+
+  it('reports recorder errors', () => {
+    const manager = new RecordingManager(createCanvas() as unknown as CanvasManager)
+    const failed = vi.fn()
+    manager.on('recording-error', failed)
+
+    manager.start()
+    recorder().onerror?.(Object.assign(new Event('error'), { error: new Error('Disk full') }))
+
+    expect(failed.mock.calls[0][0].data).toMatchObject({
+      code: 'RECORDING_FAILED',
+      message: 'Disk full'
+    })
+  })
+})
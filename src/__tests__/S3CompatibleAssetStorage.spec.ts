@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from 'vitest'
+
+import { S3CompatibleAssetStorage } from '../../packages/storage/adapters/S3CompatibleAssetStorage'
+
+function createStorage(respond: () => Response = () => new Response(null, { status: 200 })) {
+  const fetch = vi.fn<typeof globalThis.fetch>(async () => respond())
+  const storage = new S3CompatibleAssetStorage({
+    endpoint: 'http://localhost:9000',
+    bucket: 'assets',
+    forcePathStyle: true,
+    prefix: 'branding/',
+    credentials: { accessKeyId: 'minio', secretAccessKey: 'minio-secret' },
+    fetch
+  })
+  return { storage, fetch }
+}
+
+const OBJECT_URL = /^http:\/\/localhost:9000\/assets\/branding\/logo\/[\w-]+\/Main-Logo\.png/
+
+describe('S3CompatibleAssetStorage', () => {
+  it('uploads with signed metadata headers', async () => {
+    const { storage, fetch } = createStorage()
+    const file = new Blob(['png'], { type: 'image/png' })
+
+    const id = await storage.upload(file, { name: 'Main Logo.png', kind: 'logo' })
+
+    expect(id).toMatch(/^logo\/[\w-]+\/Main-Logo\.png$/)
+    const [url, init] = fetch.mock.calls[0]
+    expect(url).toMatch(OBJECT_URL)
+    expect(init?.method).toBe('PUT')
+    expect(init?.body).toBe(file)
+    expect(init?.headers).toMatchObject({
+      'content-type': 'image/png',
+      'x-amz-meta-name': 'Main%20Logo.png',
+      'x-amz-meta-kind': 'logo'
+    })
+    expect((init?.headers as Record<string, string>).authorization)
+      .toMatch(/^AWS4-HMAC-SHA256 Credential=minio\//)
+  })
+
+  it('returns presigned GET URLs without sending a request', async () => {
+    const { storage, fetch } = createStorage()
+
+    const url = await storage.getAssetUrl('logo/abc/Main-Logo.png')
+
+    expect(fetch).not.toHaveBeenCalled()
+    const parsed = new URL(url!)
+    expect(parsed.pathname).toBe('/assets/branding/logo/abc/Main-Logo.png')
+    expect(parsed.searchParams.get('X-Amz-Expires')).toBe('3600')
+    expect(parsed.searchParams.get('X-Amz-Signature')).toMatch(/^[0-9a-f]{64}$/)
+  })
+
+  it('deletes by object key', async () => {
+    const { storage, fetch } = createStorage()
+
+    await storage.deleteAsset('logo/abc/Main-Logo.png')
+
+    const [url, init] = fetch.mock.calls[0]
+    expect(url).toBe('http://localhost:9000/assets/branding/logo/abc/Main-Logo.png')
+    expect(init?.method).toBe('DELETE')
+  })
+
+  it('rejects with the S3 error code and message', async () => {
+    const { storage } = createStorage(() => new Response(
+      '<Error><Code>AccessDenied</Code><Message>Access Denied</Message></Error>',
+      { status: 403, statusText: 'Forbidden' }
+    ))
+
+    await expect(storage.deleteAsset('logo/abc/Main-Logo.png')).rejects.toThrow(
+      'S3 DELETE failed with status 403 (AccessDenied): Access Denied'
+    )
+    await expect(storage.upload(new Blob(['png'], { type: 'image/png' }))).rejects.toThrow(
+      'S3 PUT failed with status 403'
+    )
+  })
+
+  it('treats a missing object as null', async () => {
+    const { storage } = createStorage(() => new Response(null, { status: 404 }))
+    expect(await storage.getAsset('logo/abc/Main-Logo.png')).toBeNull()
+  })
+})
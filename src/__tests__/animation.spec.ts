@@ -0,0 +1,53 @@
+import { describe, it, expect, vi } from 'vitest'
+
+import { EASINGS, cubicBezier, resolveEasing } from '../../packages/core/canvas/animation'
+
+describe('cubicBezier', () => {
+  it('matches the CSS ease curve', () => {
+    const ease = cubicBezier(0.25, 0.1, 0.25, 1)
+    expect(ease(0.5)).toBeCloseTo(0.8024, 3)
+    expect(ease(0.25)).toBeCloseTo(0.4085, 3)
+  })
+
+  it('clamps to the end points', () => {
+    const easing = cubicBezier(0.4, 0, 0.2, 1)
+    expect(easing(-1)).toBe(0)
+    expect(easing(0)).toBe(0)
+    expect(easing(1)).toBe(1)
+    expect(easing(2)).toBe(1)
+  })
+
+  it('is the identity for a straight line', () => {
+    const linear = cubicBezier(0, 0, 1, 1)
+    expect(linear(0.3)).toBeCloseTo(0.3, 4)
+    expect(linear(0.7)).toBeCloseTo(0.7, 4)
+  })
+})
+
+describe('resolveEasing', () => {
+  it('resolves named curves and defaults to easeInOut', () => {
+    expect(resolveEasing('easeOut')).toBe(EASINGS.easeOut)
+    expect(resolveEasing()).toBe(EASINGS.easeInOut)
+  })
+
+  it('passes functions through', () => {
+    const step = (t: number) => (t < 0.5 ? 0 : 1)
+    expect(resolveEasing(step)).toBe(step)
+  })
+
+  it('parses CSS cubic-bezier strings', () => {
+    const easing = resolveEasing(' cubic-bezier(0.25, 0.1, 0.25, 1) ')
+    expect(easing(0.5)).toBeCloseTo(cubicBezier(0.25, 0.1, 0.25, 1)(0.5), 6)
+  })
+
+  it('falls back to linear for unknown names, including object keys', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+
+    expect(resolveEasing('bounce')).toBe(EASINGS.linear)
+    expect(resolveEasing('toString')).toBe(EASINGS.linear)
+    expect(resolveEasing('cubic-bezier(0.1, 0.2)')).toBe(EASINGS.linear)
+    expect(warn).toHaveBeenCalledTimes(3)
+
+    warn.mockRestore()
+  })
+})
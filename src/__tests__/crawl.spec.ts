@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest'
+import type { Container } from 'pixi.js'
+
+import {
+  TickerCrawl,
+  toTickerMessages,
+  type TickerOverlayConfig
+} from '../../packages/core/canvas/crawl'
+import { stubCanvasContext } from './fakeCanvas'
+
+stubCanvasContext()
+
+describe('toTickerMessages', () => {
+  it('uses strings as their own id', () => {
+    expect(toTickerMessages(['Breaking', { id: 'weather', text: 'Sunny' }])).toEqual([
+      { id: 'Breaking', text: 'Breaking' },
+      { id: 'weather', text: 'Sunny' }
+    ])
+  })
+
+  it('numbers repeated strings so every copy stays queued', () => {
+    expect(toTickerMessages(['Live', 'Live', 'Live']).map(message => message.id))
+      .toEqual(['Live', 'Live#2', 'Live#3'])
+  })
+
+  it('never reuses an explicit id', () => {
+    const messages = toTickerMessages([
+      'Live',
+      'Live',
+      { id: 'Live#2', text: 'Pinned' }
+    ])
+    expect(messages.map(message => message.id)).toEqual(['Live', 'Live#3', 'Live#2'])
+  })
+
+  it('copies message objects', () => {
+    const message = { id: 'a', text: 'A' }
+    expect(toTickerMessages([message])[0]).not.toBe(message)
+  })
+})
+
+describe('TickerCrawl', () => {
+  // At a height of 40 each character is 10px wide and an item adds 56px
+  // of gaps and separator, so 'one' and 'two' take 86px each
+  function createCrawl(overrides: Partial<TickerOverlayConfig> = {}) {
+    return new TickerCrawl({
+      id: 'news',
+      type: 'ticker',
+      x: 0,
+      y: 0,
+      width: 400,
+      height: 40,
+      messages: ['one', 'two'],
+      ...overrides
+    })
+  }
+
+  function items(crawl: TickerCrawl) {
+    const track = crawl.container.children[1] as Container
+    return track.children.map(item => item.label.replace('ticker-item-', ''))
+  }
+
+  it('fills the bar and wraps around to the first message', () => {
+    expect(items(createCrawl())).toEqual(['one', 'two', 'one', 'two', 'one'])
+  })
+
+  it('appends the next message as the first one scrolls off', () => {
+    const crawl = createCrawl({ speed: 100 })
+
+    // 430px of items; after 86px the first is gone and the bar needs more
+    crawl.update(900)
+
+    expect(items(crawl)).toEqual(['two', 'one', 'two', 'one', 'two'])
+  })
+
+  it('stays put while paused', () => {
+    const crawl = createCrawl({ paused: true })
+    crawl.update(10_000)
+    expect(items(crawl)).toEqual(['one', 'two', 'one', 'two', 'one'])
+  })
+
+  it('passes over blank messages', () => {
+    const crawl = createCrawl({ messages: ['', 'one', '  '], gap: 0, separator: '' })
+
+    expect(new Set(items(crawl))).toEqual(new Set(['one']))
+    expect(items(crawl)).toHaveLength(14)
+  })
+
+  it('shows nothing when every message is blank', () => {
+    const crawl = createCrawl({ messages: ['', ' '], gap: 0, separator: '' })
+    crawl.update(16)
+    expect(items(crawl)).toEqual([])
+  })
+
+  it('keeps the scroll position when messages change', () => {
+    const crawl = createCrawl()
+    crawl.setMessages(['three'])
+    crawl.update(16)
+
+    expect(items(crawl).slice(0, 5)).toEqual(['one', 'two', 'one', 'two', 'one'])
+    expect(crawl.getMessages()).toEqual([{ id: 'three', text: 'three' }])
+  })
+})
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from 'vitest'
+
+import { EventEmitter } from '../../packages/core/events'
+import {
+  AutoDirector,
+  DEFAULT_AUTO_DIRECTOR_OPTIONS,
+  planZoneAssignments,
+  type ZoneAssignmentInput
+} from '../../packages/core/canvas/director'
+import type { CanvasManager } from '../../packages/core/canvas/CanvasManager'
+
+const camera = (id: string) => ({ id, type: 'camera' as const })
+
+function plan(input: Partial<ZoneAssignmentInput> & Pick<ZoneAssignmentInput, 'zoneIds'>) {
+  return Object.fromEntries(planZoneAssignments({
+    videos: [],
+    current: new Map(),
+    pins: new Map(),
+    speakers: [],
+    options: DEFAULT_AUTO_DIRECTOR_OPTIONS,
+    ...input
+  }))
+}
+
+describe('planZoneAssignments', () => {
+  it('fills zones in creation order', () => {
+    expect(plan({
+      zoneIds: ['tile-1', 'tile-2'],
+      videos: [camera('a'), camera('b'), camera('c')]
+    })).toEqual({ 'tile-1': 'a', 'tile-2': 'b' })
+  })
+
+  it('puts screen shares in the main zone', () => {
+    expect(plan({
+      zoneIds: ['main', 'tile-1', 'tile-2'],
+      videos: [camera('a'), camera('b'), { id: 'screen', type: 'screen' }]
+    })).toEqual({ main: 'screen', 'tile-1': 'a', 'tile-2': 'b' })
+  })
+
+  it('gives the most recent speaker the spotlight', () => {
+    expect(plan({
+      zoneIds: ['spotlight', 'tile-1'],
+      videos: [camera('a'), camera('b'), camera('c')],
+      speakers: ['c', 'b']
+    })).toEqual({ spotlight: 'c', 'tile-1': 'a' })
+  })
+
+  it('honors pins before anything else', () => {
+    expect(plan({
+      zoneIds: ['spotlight', 'tile-1'],
+      videos: [camera('a'), camera('b')],
+      pins: new Map([['b', 'spotlight']]),
+      speakers: ['a']
+    })).toEqual({ spotlight: 'b', 'tile-1': 'a' })
+  })
+
+  it('shows pinned and preferred videos first when zones run out', () => {
+    expect(plan({
+      zoneIds: ['tile-1', 'tile-2'],
+      videos: [camera('a'), camera('b'), camera('c'), camera('d')],
+      pins: new Map([['d', null]]),
+      options: { ...DEFAULT_AUTO_DIRECTOR_OPTIONS, order: ['c'] }
+    })).toEqual({ 'tile-1': 'd', 'tile-2': 'c' })
+  })
+
+  it('keeps videos that stay on screen in their zone', () => {
+    expect(plan({
+      zoneIds: ['tile-1', 'tile-2', 'tile-3'],
+      videos: [camera('a'), camera('b'), camera('c')],
+      current: new Map([['tile-1', 'c'], ['tile-3', 'a']])
+    })).toEqual({ 'tile-1': 'c', 'tile-2': 'b', 'tile-3': 'a' })
+  })
+})
+
+/**
+ * The parts of CanvasManager the director reads and drives
+ */
+class FakeCanvas extends EventEmitter {
+  videoTextures = new Map<string, { id: string; source: { type: 'camera' } }>()
+  layoutZones = new Map([['main', {}], ['tile-1', {}]])
+  assignZones = vi.fn()
+
+  getState() {
+    return { videoTextures: this.videoTextures, layoutZones: this.layoutZones }
+  }
+
+  addVideo(id: string) {
+    this.videoTextures.set(id, { id, source: { type: 'camera' } })
+    this.emit('texture-created', { id })
+  }
+
+  removeVideo(id: string) {
+    this.videoTextures.delete(id)
+    this.emit('texture-destroyed', { id })
+  }
+}
+
+describe('AutoDirector', () => {
+  function setup() {
+    const canvas = new FakeCanvas()
+    const director = new AutoDirector(canvas as unknown as CanvasManager)
+    canvas.addVideo('a')
+    canvas.addVideo('b')
+    return { canvas, director }
+  }
+
+  it('drops the pin of a video that is destroyed', () => {
+    const { canvas, director } = setup()
+    director.pin('b', 'main')
+    expect(canvas.assignZones).toHaveBeenLastCalledWith({ main: 'b', 'tile-1': 'a' })
+
+    canvas.removeVideo('b')
+
+    expect(director.getPins().size).toBe(0)
+    expect(canvas.assignZones).toHaveBeenLastCalledWith({ main: 'a', 'tile-1': null })
+
+    // A participant who rejoins with the same id is placed like anyone else
+    canvas.addVideo('c')
+    canvas.addVideo('b')
+    expect(canvas.assignZones).toHaveBeenLastCalledWith({ main: 'a', 'tile-1': 'c' })
+  })
+
+  it('stops listening once detached', () => {
+    const { canvas, director } = setup()
+    director.pin('b', 'main')
+    director.detach()
+
+    canvas.removeVideo('b')
+    expect(director.getPins().has('b')).toBe(true)
+  })
+})
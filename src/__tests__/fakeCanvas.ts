@@ -0,0 +1,48 @@
+/**
+ * jsdom has no 2D canvas context, which Pixi needs to measure text. This
+ * stands in for one: every glyph is half the font size wide, so widths
+ * follow the text length.
+ */
+
+import { vi } from 'vitest'
+
+class FakeContext2D {
+  font = '10px sans-serif'
+  private spacing = '0px'
+
+  // Pixi looks for native letter spacing on the prototype
+  get letterSpacing() {
+    return this.spacing
+  }
+
+  set letterSpacing(value: string) {
+    this.spacing = value
+  }
+
+  measureText(text: string) {
+    const size = Number(/([\d.]+)px/.exec(this.font)?.[1] ?? 10)
+    const width = text.length * size * 0.5
+    return {
+      width,
+      actualBoundingBoxLeft: 0,
+      actualBoundingBoxRight: width,
+      actualBoundingBoxAscent: size * 0.8,
+      actualBoundingBoxDescent: size * 0.2
+    }
+  }
+}
+
+/**
+ * Give canvases a fake 2D context for the rest of the spec file
+ */
+export function stubCanvasContext(): void {
+  vi.stubGlobal('CanvasRenderingContext2D', FakeContext2D)
+  // One context per canvas, so a font set before measuring sticks
+  const contexts = new WeakMap<HTMLCanvasElement, FakeContext2D>()
+  vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(function (
+    this: HTMLCanvasElement
+  ) {
+    if (!contexts.has(this)) contexts.set(this, new FakeContext2D())
+    return contexts.get(this) as never
+  })
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest'
+
+import { computeFit } from '../../packages/core/canvas/fit'
+
+describe('computeFit', () => {
+  it('letterboxes with contain', () => {
+    expect(computeFit('contain', 1920, 1080, 960, 960)).toEqual({
+      scaleX: 0.5,
+      scaleY: 0.5,
+      x: 0,
+      y: 210
+    })
+  })
+
+  it('crops around the focal point with cover', () => {
+    const centered = computeFit('cover', 1920, 1080, 960, 960)
+    expect(centered.scaleX).toBeCloseTo(960 / 1080)
+    expect(centered.x).toBeCloseTo(480 - 1920 * (960 / 1080) / 2)
+    expect(centered.y).toBe(0)
+
+    // The crop never exposes the zone behind the video
+    expect(computeFit('cover', 1920, 1080, 960, 960, { x: 0, y: 0.5 }).x).toBe(0)
+    expect(computeFit('cover', 1920, 1080, 960, 960, { x: 1, y: 0.5 }).x)
+      .toBeCloseTo(960 - 1920 * (960 / 1080))
+  })
+
+  it('stretches with fill', () => {
+    const fit = computeFit('fill', 1920, 1080, 960, 960)
+    expect(fit.scaleX).toBe(0.5)
+    expect(fit.scaleY).toBeCloseTo(960 / 1080)
+    expect([fit.x, fit.y]).toEqual([0, 0])
+  })
+
+  it('keeps the source size with none', () => {
+    expect(computeFit('none', 1920, 1080, 960, 960)).toEqual({
+      scaleX: 1,
+      scaleY: 1,
+      x: -480,
+      y: -60
+    })
+  })
+
+  it('leaves sources without a size alone', () => {
+    expect(computeFit('cover', 0, 0, 960, 540)).toEqual({ scaleX: 1, scaleY: 1, x: 0, y: 0 })
+  })
+})
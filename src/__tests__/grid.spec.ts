@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+
+import { createGridLayout } from '../../packages/core/canvas/grid'
+
+describe('createGridLayout', () => {
+  it('fills the canvas inside the margin with a single tile', () => {
+    const layout = createGridLayout({ participantCount: 1 })
+
+    expect(layout.id).toBe('auto-grid-1')
+    expect(layout.zones).toHaveLength(1)
+    const [zone] = layout.zones
+    expect(zone.x).toBeCloseTo(0.025)
+    expect(zone.y).toBeCloseTo(0.025)
+    expect(zone.width).toBeCloseTo(0.95)
+    expect(zone.height).toBeCloseTo(0.95)
+  })
+
+  it('tiles four participants two by two', () => {
+    const layout = createGridLayout({ participantCount: 4 })
+
+    expect(layout.description).toContain('2x2')
+    expect(layout.zones.map(zone => zone.id)).toEqual(['tile-1', 'tile-2', 'tile-3', 'tile-4'])
+    expect(layout.maxParticipants).toBe(4)
+  })
+
+  it('centers leftover tiles in the last row', () => {
+    const layout = createGridLayout({ participantCount: 3 })
+    const last = layout.zones[2]
+
+    expect(layout.zones[0].y).toBeCloseTo(layout.zones[1].y)
+    expect(last.y).toBeGreaterThan(layout.zones[0].y)
+    expect(last.x + last.width / 2).toBeCloseTo(0.5)
+  })
+
+  it('keeps every tile on the canvas', () => {
+    for (let count = 1; count <= 12; count++) {
+      createGridLayout({ participantCount: count }).zones.forEach(zone => {
+        expect(zone.x).toBeGreaterThanOrEqual(0)
+        expect(zone.y).toBeGreaterThanOrEqual(0)
+        expect(zone.x + zone.width).toBeLessThanOrEqual(1 + 1e-9)
+        expect(zone.y + zone.height).toBeLessThanOrEqual(1 + 1e-9)
+      })
+    }
+  })
+
+  it('throws when the margin leaves no room', () => {
+    expect(() => createGridLayout({ participantCount: 2, margin: 0.5 }))
+      .toThrow('Grid gutter and margin leave no room for tiles')
+  })
+})
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+
+import {
+  getLayoutPreset,
+  listLayouts,
+  onLayoutsChanged,
+  registerLayout,
+  unregisterLayout,
+  validateLayoutPreset,
+  type LayoutPreset
+} from '../../packages/core/canvas/layouts'
+
+function preset(overrides: Partial<LayoutPreset> = {}): LayoutPreset {
+  return {
+    id: 'side-by-side-test',
+    name: 'Side by side',
+    description: 'Two halves',
+    aspectRatio: 16 / 9,
+    maxParticipants: 2,
+    zones: [
+      { id: 'left', x: 0, y: 0, width: 0.5, height: 1 },
+      { id: 'right', x: 0.5, y: 0, width: 0.5, height: 1 }
+    ],
+    ...overrides
+  }
+}
+
+afterEach(() => {
+  unregisterLayout('side-by-side-test')
+})
+
+describe('validateLayoutPreset', () => {
+  it('accepts a well-formed preset', () => {
+    expect(validateLayoutPreset(preset())).toEqual({ valid: true, errors: [], warnings: [] })
+  })
+
+  it('names every problem it finds', () => {
+    const { valid, errors } = validateLayoutPreset(preset({
+      zones: [
+        { id: 'left', x: 0, y: 0, width: 0.6, height: 1 },
+        { id: 'left', x: 0.6, y: 0, width: 0.6, height: 1 }
+      ],
+      maxParticipants: 3
+    }))
+
+    expect(valid).toBe(false)
+    expect(errors).toEqual([
+      'Duplicate zone id "left"',
+      'Zone "left" must lie within 0..1 of the canvas',
+      'maxParticipants (3) must match the zone count (2)'
+    ])
+  })
+
+  it('reports overlapping zones as warnings when asked', () => {
+    const overlapping = preset({
+      zones: [
+        { id: 'left', x: 0, y: 0, width: 0.6, height: 1 },
+        { id: 'right', x: 0.5, y: 0, width: 0.5, height: 1 }
+      ]
+    })
+
+    expect(validateLayoutPreset(overlapping).warnings).toEqual([])
+    expect(validateLayoutPreset(overlapping, { checkOverlap: true }))
+      .toEqual({ valid: true, errors: [], warnings: ['Zones "left" and "right" overlap'] })
+  })
+})
+
+describe('registerLayout', () => {
+  it('stores a copy of the preset', () => {
+    const layout = preset()
+    registerLayout(layout)
+    layout.zones[0].width = 0.25
+
+    const stored = getLayoutPreset(layout.id)
+    expect(stored).not.toBe(layout)
+    expect(stored?.zones[0].width).toBe(0.5)
+  })
+
+  it('only replaces a custom layout when asked', () => {
+    registerLayout(preset())
+
+    expect(() => registerLayout(preset({ name: 'Again' })))
+      .toThrow('Layout side-by-side-test is already registered')
+    registerLayout(preset({ name: 'Again' }), { replace: true })
+    expect(getLayoutPreset('side-by-side-test')?.name).toBe('Again')
+  })
+
+  it('refuses to replace built-in presets', () => {
+    const builtIn = getLayoutPreset('single-speaker')!
+
+    expect(() => registerLayout({ ...builtIn, name: 'Mine' }, { replace: true }))
+      .toThrow('Built-in layout single-speaker cannot be replaced')
+    expect(getLayoutPreset('single-speaker')).toBe(builtIn)
+  })
+
+  it('returns warnings instead of logging them', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const result = registerLayout(preset({
+      zones: [
+        { id: 'left', x: 0, y: 0, width: 0.6, height: 1 },
+        { id: 'right', x: 0.5, y: 0, width: 0.5, height: 1 }
+      ]
+    }), { checkOverlap: true })
+
+    expect(result.warnings).toEqual(['Zones "left" and "right" overlap'])
+    expect(warn).not.toHaveBeenCalled()
+    warn.mockRestore()
+  })
+
+  it('throws for invalid presets', () => {
+    expect(() => registerLayout(preset({ zones: [] })))
+      .toThrow('Invalid layout side-by-side-test: Layout must define at least one zone')
+    expect(getLayoutPreset('side-by-side-test')).toBeUndefined()
+  })
+})
+
+describe('unregisterLayout', () => {
+  it('removes custom layouts and reports whether it did', () => {
+    registerLayout(preset())
+
+    expect(unregisterLayout('side-by-side-test')).toBe(true)
+    expect(unregisterLayout('side-by-side-test')).toBe(false)
+    expect(getLayoutPreset('side-by-side-test')).toBeUndefined()
+  })
+
+  it('keeps built-in presets', () => {
+    expect(() => unregisterLayout('single-speaker'))
+      .toThrow('Built-in layout single-speaker cannot be unregistered')
+  })
+})
+
+describe('onLayoutsChanged', () => {
+  it('notifies listeners until they unsubscribe', () => {
+    const listener = vi.fn()
+    const unsubscribe = onLayoutsChanged(listener)
+
+    registerLayout(preset())
+    expect(listener).toHaveBeenLastCalledWith(listLayouts())
+    expect(listener.mock.lastCall?.[0].at(-1).id).toBe('side-by-side-test')
+
+    unregisterLayout('side-by-side-test')
+    expect(listener).toHaveBeenCalledTimes(2)
+
+    unsubscribe()
+    registerLayout(preset())
+    expect(listener).toHaveBeenCalledTimes(2)
+  })
+
+  it('stays quiet when nothing changed', () => {
+    const listener = vi.fn()
+    const unsubscribe = onLayoutsChanged(listener)
+
+    unregisterLayout('side-by-side-test')
+    expect(listener).not.toHaveBeenCalled()
+    unsubscribe()
+  })
+})
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  amplitudeToDb,
+  amplitudeToLevel,
+  computePeak,
+  computeRms,
+  smoothLevel
+} from '../../packages/core/audio/levels'
+
+describe('amplitudeToLevel', () => {
+  it('maps full scale to 1 and the floor to 0', () => {
+    expect(amplitudeToLevel(1)).toBe(1)
+    expect(amplitudeToLevel(0.001)).toBe(0)
+    expect(amplitudeToLevel(0)).toBe(0)
+  })
+
+  it('is linear in decibels', () => {
+    // -20 dBFS and -40 dBFS on a -60 dB scale
+    expect(amplitudeToLevel(0.1)).toBeCloseTo(2 / 3)
+    expect(amplitudeToLevel(0.01)).toBeCloseTo(1 / 3)
+  })
+
+  it('honors a custom floor', () => {
+    expect(amplitudeToLevel(0.1, -40)).toBeCloseTo(0.5)
+    expect(amplitudeToLevel(0.01, -40)).toBe(0)
+  })
+
+  it('clamps clipped samples', () => {
+    expect(amplitudeToLevel(2)).toBe(1)
+  })
+})
+
+describe('level math', () => {
+  it('measures RMS and peak of a block', () => {
+    const samples = new Float32Array([0.5, -0.5, 0.5, -1])
+    expect(computeRms(samples)).toBeCloseTo(Math.sqrt(0.4375))
+    expect(computePeak(samples)).toBe(1)
+    expect(computeRms(new Float32Array())).toBe(0)
+  })
+
+  it('converts amplitudes to dBFS', () => {
+    expect(amplitudeToDb(1)).toBe(0)
+    expect(amplitudeToDb(0.5)).toBeCloseTo(-6.02)
+    expect(amplitudeToDb(0)).toBe(-Infinity)
+  })
+
+  it('rises with the attack factor and falls with the release factor', () => {
+    expect(smoothLevel(0, 1, 0.25, 0.75)).toBeCloseTo(0.75)
+    expect(smoothLevel(1, 0, 0.25, 0.75)).toBeCloseTo(0.75)
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import { Container, Graphics, Text } from 'pixi.js'
+
+import {
+  DEFAULT_LOWER_THIRD_THEME,
+  drawLowerThird,
+  type LowerThirdTheme
+} from '../../packages/core/canvas/lowerThirds'
+import type { LowerThirdConfig } from '../../packages/core/canvas/overlays'
+import { stubCanvasContext } from './fakeCanvas'
+
+stubCanvasContext()
+
+// Titles are 10px a character and 20px a line, subtitles half that
+const theme: LowerThirdTheme = {
+  ...DEFAULT_LOWER_THIRD_THEME,
+  titleSize: 20,
+  subtitleSize: 10,
+  padding: 10
+}
+
+function draw(overrides: Partial<LowerThirdConfig> = {}, overlay = new Container()) {
+  const config: LowerThirdConfig = {
+    id: 'name',
+    type: 'lower-third',
+    x: 0,
+    y: 0,
+    title: 'Ada',
+    ...overrides
+  }
+  drawLowerThird(overlay, config, theme)
+  const content = overlay.getChildByLabel('lower-third-content') as Container
+  const [background, title, subtitle] = content.children as [Graphics, Text, Text?]
+  return { overlay, content, background, title, subtitle }
+}
+
+describe('drawLowerThird', () => {
+  it('fits the box to the title and padding', () => {
+    const { background, title } = draw()
+
+    expect([background.width, background.height]).toEqual([50, 40])
+    expect([title.x, title.y]).toEqual([10, 10])
+  })
+
+  it('stacks the subtitle under the title', () => {
+    const { background, title, subtitle } = draw({ subtitle: 'Mathematician' })
+
+    // The subtitle is 65px wide; title, gap and subtitle 35px tall
+    expect([background.width, background.height]).toEqual([85, 55])
+    expect(subtitle?.y).toBe(title.y + title.height + 5)
+  })
+
+  it('wraps long titles within the maximum width', () => {
+    const { background, title } = draw({ title: 'x'.repeat(100), maxWidth: 200 })
+
+    expect(title.width).toBeLessThanOrEqual(180)
+    expect(background.width).toBe(200)
+    expect(background.height).toBe(title.height + 20)
+    expect(title.height).toBeGreaterThan(20)
+  })
+
+  it('grows to its minimum size and centers the text', () => {
+    const { background, title } = draw({ width: 300, height: 100 })
+
+    expect([background.width, background.height]).toEqual([300, 100])
+    expect(title.y).toBe(40)
+  })
+
+  it('makes room for a template inset', () => {
+    const { background, title } = draw({ template: 'accent-bar' })
+
+    expect(title.x).toBe(18)
+    expect(background.width).toBe(58)
+  })
+
+  it('throws for an unknown template', () => {
+    expect(() => draw({ template: 'missing' })).toThrow('Lower third template missing not found')
+  })
+
+  it('keeps a wipe mask when redrawn', () => {
+    const { overlay, content } = draw()
+    // What a wipe animation adds while it runs
+    const mask = new Graphics().rect(0, 0, 10, 40).fill(0xffffff)
+    overlay.addChild(mask)
+    overlay.mask = mask
+
+    const redrawn = draw({ title: 'Grace Hopper' }, overlay)
+
+    expect(overlay.mask).toBe(mask)
+    expect(overlay.children).toEqual([content, mask])
+    expect(redrawn.content).toBe(content)
+    expect(redrawn.title.text).toBe('Grace Hopper')
+    expect(redrawn.background.width).toBe(140)
+  })
+})
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Container } from 'pixi.js'
+
+import { MediaPlayback, type VideoOverlayConfig } from '../../packages/core/canvas/mediaOverlays'
+import { OverlayManager } from '../../packages/core/canvas/overlays'
+import type { CanvasEvent } from '../../packages/core/canvas/types'
+
+const video: VideoOverlayConfig = { id: 'bumper', type: 'video', source: 'bumper.webm', x: 0, y: 0 }
+
+let videos: HTMLVideoElement[]
+let play: ReturnType<typeof vi.spyOn>
+let load: ReturnType<typeof vi.spyOn>
+
+beforeEach(() => {
+  videos = []
+  const createElement = document.createElement.bind(document)
+  vi.spyOn(document, 'createElement').mockImplementation((tag: string) => {
+    const element = createElement(tag)
+    if (element instanceof HTMLVideoElement) videos.push(element)
+    return element
+  })
+  // jsdom implements none of playback
+  play = vi.spyOn(HTMLMediaElement.prototype, 'play').mockResolvedValue(undefined)
+  load = vi.spyOn(HTMLMediaElement.prototype, 'load').mockImplementation(() => undefined)
+  vi.spyOn(HTMLMediaElement.prototype, 'pause').mockImplementation(() => undefined)
+  // Pixi probes a canvas for video alpha support, then falls back
+  vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null)
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+/**
+ * Finish loading the next video the code under test creates
+ */
+async function loaded(event = 'loadeddata'): Promise<HTMLVideoElement> {
+  await vi.waitFor(() => expect(videos).toHaveLength(1))
+  videos[0].dispatchEvent(new Event(event))
+  return videos[0]
+}
+
+/**
+ * Let pending promises, such as a play request, settle
+ */
+function settle(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve))
+}
+
+function handlers() {
+  return { onEnded: vi.fn(), onBlocked: vi.fn() }
+}
+
+describe('MediaPlayback', () => {
+  it('plays a video once it has loaded', async () => {
+    const loading = MediaPlayback.load(video, 'bumper.webm', handlers())
+    const element = await loaded()
+    const playback = await loading
+
+    expect(playback.element).toBe(element)
+    expect(element.loop).toBe(true)
+    expect(play).toHaveBeenCalledTimes(1)
+    expect(playback.isPaused()).toBe(false)
+  })
+
+  it('stays paused when created paused', async () => {
+    const loading = MediaPlayback.load({ ...video, paused: true }, 'bumper.webm', handlers())
+    await loaded()
+
+    expect((await loading).isPaused()).toBe(true)
+    expect(play).not.toHaveBeenCalled()
+  })
+
+  it('releases a video that fails to load', async () => {
+    const loading = MediaPlayback.load(video, 'bumper.webm', handlers())
+    const element = await loaded('error')
+
+    await expect(loading).rejects.toThrow('Failed to load video bumper.webm')
+    expect(element.hasAttribute('src')).toBe(false)
+    expect(load).toHaveBeenCalled()
+  })
+
+  it('pauses and reports when the browser refuses to play', async () => {
+    const refusal = Object.assign(new Error('No user gesture'), { name: 'NotAllowedError' })
+    play.mockRejectedValue(refusal)
+    const callbacks = handlers()
+
+    const loading = MediaPlayback.load(video, 'bumper.webm', callbacks)
+    await loaded()
+    const playback = await loading
+
+    await vi.waitFor(() => expect(callbacks.onBlocked).toHaveBeenCalledWith(refusal))
+    expect(playback.isPaused()).toBe(true)
+  })
+
+  it('ignores a play request cut short by a pause', async () => {
+    play.mockRejectedValue(Object.assign(new Error('Interrupted'), { name: 'AbortError' }))
+    const callbacks = handlers()
+
+    const loading = MediaPlayback.load(video, 'bumper.webm', callbacks)
+    await loaded()
+    const playback = await loading
+    await settle()
+
+    expect(callbacks.onBlocked).not.toHaveBeenCalled()
+    expect(playback.isPaused()).toBe(false)
+  })
+
+  it('reports the end of a one-shot video', async () => {
+    const callbacks = handlers()
+    const loading = MediaPlayback.load({ ...video, loop: false }, 'bumper.webm', callbacks)
+    const element = await loaded()
+    await loading
+
+    element.dispatchEvent(new Event('ended'))
+    expect(callbacks.onEnded).toHaveBeenCalledTimes(1)
+  })
+
+  it('releases the video when destroyed', async () => {
+    const loading = MediaPlayback.load(video, 'bumper.webm', handlers())
+    const element = await loaded()
+    const playback = await loading
+    // Pixi's video source finishes setting up asynchronously
+    await settle()
+
+    playback.destroy()
+    expect(element.hasAttribute('src')).toBe(false)
+    expect(load).toHaveBeenCalled()
+  })
+})
+
+describe('OverlayManager media overlays', () => {
+  it('marks a refused video paused and says so', async () => {
+    play.mockRejectedValue(Object.assign(new Error('No user gesture'), { name: 'NotAllowedError' }))
+    const manager = new OverlayManager(new Container())
+    const blocked: CanvasEvent[] = []
+    manager.on('media-blocked', event => blocked.push(event))
+
+    const creating = manager.createMediaOverlay(video)
+    await loaded()
+    await creating
+
+    await vi.waitFor(() => expect(blocked).toHaveLength(1))
+    expect(blocked[0].data).toEqual({
+      id: 'bumper',
+      reason: 'NotAllowedError',
+      message: 'No user gesture'
+    })
+    expect(manager.getOverlayConfig('bumper')).toMatchObject({ paused: true })
+  })
+})
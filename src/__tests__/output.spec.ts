@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+
+import { CanvasOutputStream } from '../../packages/core/canvas/output'
+
+function createTrack(kind: 'audio' | 'video') {
+  return { kind, stop: vi.fn(), requestFrame: vi.fn() }
+}
+
+type FakeTrack = ReturnType<typeof createTrack>
+
+class FakeMediaStream {
+  constructor(private tracks: FakeTrack[] = []) {}
+
+  getTracks() {
+    return [...this.tracks]
+  }
+
+  getVideoTracks() {
+    return this.tracks.filter(track => track.kind === 'video')
+  }
+
+  getAudioTracks() {
+    return this.tracks.filter(track => track.kind === 'audio')
+  }
+
+  addTrack(track: FakeTrack) {
+    this.tracks.push(track)
+  }
+}
+
+class FakeAudioContext {
+  static instances: FakeAudioContext[] = []
+  destinationTrack = createTrack('audio')
+  inputs: Array<{ stream: unknown; connect: ReturnType<typeof vi.fn>; disconnect: () => void }> =
+    []
+  close = vi.fn(() => Promise.resolve())
+
+  constructor() {
+    FakeAudioContext.instances.push(this)
+  }
+
+  resume() {
+    return Promise.resolve()
+  }
+
+  createMediaStreamDestination() {
+    return { stream: new FakeMediaStream([this.destinationTrack]) }
+  }
+
+  createMediaStreamSource(stream: unknown) {
+    const input = { stream, connect: vi.fn(), disconnect: vi.fn() }
+    this.inputs.push(input)
+    return input
+  }
+}
+
+let videoTrack: FakeTrack
+let canvas: HTMLCanvasElement
+
+function source(kinds: Array<'audio' | 'video'> = ['audio', 'video']) {
+  return new FakeMediaStream(kinds.map(createTrack)) as unknown as MediaStream
+}
+
+function output(options: ConstructorParameters<typeof CanvasOutputStream>[1] = {}) {
+  return new CanvasOutputStream(canvas, options)
+}
+
+beforeEach(() => {
+  FakeAudioContext.instances = []
+  vi.stubGlobal('AudioContext', FakeAudioContext)
+  videoTrack = createTrack('video')
+  canvas = document.createElement('canvas')
+  canvas.captureStream = vi.fn(() => new FakeMediaStream([videoTrack]) as unknown as MediaStream)
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('CanvasOutputStream', () => {
+  it('fails in browsers without canvas capture', () => {
+    expect(() => new CanvasOutputStream(document.createElement('canvas')))
+      .toThrow('Canvas capture is not supported in this browser')
+  })
+
+  it('captures at the requested frame rate with extra tracks', () => {
+    const mixed = createTrack('audio') as unknown as MediaStreamTrack
+    const { stream } = output({ frameRate: 60, audioTracks: [mixed] })
+
+    expect(canvas.captureStream).toHaveBeenCalledWith(60)
+    expect(stream.getTracks()).toEqual([videoTrack, mixed])
+  })
+
+  it('extends the audio selection without adding tracks twice', () => {
+    const mixed = createTrack('audio') as unknown as MediaStreamTrack
+    const capture = output({ audio: ['a'], audioTracks: [mixed] })
+
+    expect(() => capture.extend({ frameRate: 60 }))
+      .toThrow('Canvas is already captured at 30 fps, not 60')
+
+    capture.extend({ audio: ['b'], audioTracks: [mixed] })
+    capture.addAudioSource('b', source())
+    capture.addAudioSource('c', source())
+    expect(FakeAudioContext.instances[0].inputs).toHaveLength(1)
+    expect(capture.stream.getAudioTracks()).toHaveLength(2)
+  })
+
+  it('mixes the audio of selected sources into one track', () => {
+    const capture = output({ audio: true })
+
+    capture.addAudioSource('a', source())
+    capture.addAudioSource('a', source())
+    capture.addAudioSource('b', source())
+    capture.addAudioSource('muted', source(['video']))
+
+    expect(FakeAudioContext.instances).toHaveLength(1)
+    const [context] = FakeAudioContext.instances
+    expect(context.inputs).toHaveLength(2)
+    expect(capture.stream.getAudioTracks()).toEqual([context.destinationTrack])
+  })
+
+  it('leaves audio out unless asked', () => {
+    const capture = output()
+    capture.addAudioSource('a', source())
+
+    expect(FakeAudioContext.instances).toHaveLength(0)
+    expect(capture.stream.getAudioTracks()).toEqual([])
+  })
+
+  it('disconnects removed sources', () => {
+    const capture = output({ audio: true })
+    capture.addAudioSource('a', source())
+    const [input] = FakeAudioContext.instances[0].inputs
+
+    capture.removeAudioSource('a')
+    expect(input.disconnect).toHaveBeenCalled()
+
+    // It can be mixed in again
+    capture.addAudioSource('a', source())
+    expect(FakeAudioContext.instances[0].inputs).toHaveLength(2)
+  })
+
+  it('pushes frames on request', () => {
+    output({ frameRate: 0 }).requestFrame()
+    expect(videoTrack.requestFrame).toHaveBeenCalled()
+  })
+
+  it('stops only the tracks it created', () => {
+    const mixed = createTrack('audio')
+    const capture = output({ audio: true, audioTracks: [mixed as unknown as MediaStreamTrack] })
+    capture.addAudioSource('a', source())
+    const [context] = FakeAudioContext.instances
+
+    capture.stop()
+
+    expect(videoTrack.stop).toHaveBeenCalled()
+    expect(context.destinationTrack.stop).toHaveBeenCalled()
+    expect(context.close).toHaveBeenCalled()
+    expect(mixed.stop).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,165 @@
+import { describe, it, expect, vi } from 'vitest'
+import { Container, Graphics, type Ticker } from 'pixi.js'
+
+import { animateOverlay, type OverlayAnimation } from '../../packages/core/canvas/overlayAnimations'
+
+/**
+ * Ticker driven by hand, one frame per `tick`
+ */
+class FakeTicker {
+  deltaMS = 0
+  private listeners = new Set<(ticker: FakeTicker) => void>()
+
+  add(listener: (ticker: FakeTicker) => void) {
+    this.listeners.add(listener)
+  }
+
+  remove(listener: (ticker: FakeTicker) => void) {
+    this.listeners.delete(listener)
+  }
+
+  tick(deltaMS: number) {
+    this.deltaMS = deltaMS
+    this.listeners.forEach(listener => listener(this))
+  }
+
+  get count() {
+    return this.listeners.size
+  }
+}
+
+const viewport = { width: 1920, height: 1080 }
+
+function createOverlay() {
+  const overlay = new Container()
+  overlay.addChild(new Graphics().rect(0, 0, 200, 100).fill(0xffffff))
+  overlay.position.set(100, 50)
+  return overlay
+}
+
+function animate(
+  overlay: Container,
+  animation: OverlayAnimation,
+  direction: 'in' | 'out',
+  onComplete?: () => void
+) {
+  const ticker = new FakeTicker()
+  const running = animateOverlay(
+    ticker as unknown as Ticker,
+    overlay,
+    { duration: 100, easing: 'linear', ...animation },
+    direction,
+    viewport,
+    onComplete
+  )
+  return { ticker, running }
+}
+
+describe('animateOverlay', () => {
+  it('fades in and completes in its resting state', async () => {
+    const overlay = createOverlay()
+    const onComplete = vi.fn()
+    const { ticker, running } = animate(overlay, { type: 'fade' }, 'in', onComplete)
+
+    expect(overlay.alpha).toBe(0)
+    ticker.tick(50)
+    expect(overlay.alpha).toBeCloseTo(0.5)
+    ticker.tick(50)
+
+    await running.promise
+    expect(running.done).toBe(true)
+    expect(onComplete).toHaveBeenCalledTimes(1)
+    expect(overlay.alpha).toBe(1)
+    expect(overlay.visible).toBe(true)
+    expect(ticker.count).toBe(0)
+  })
+
+  it('slides in from just past the edge', () => {
+    const overlay = createOverlay()
+    const { ticker } = animate(overlay, { type: 'slide', from: 'left' }, 'in')
+
+    // Starts fully off canvas, its right edge on the left edge
+    expect(overlay.x).toBe(-200)
+    ticker.tick(50)
+    expect(overlay.x).toBeCloseTo(-50)
+    ticker.tick(50)
+    expect([overlay.x, overlay.y]).toEqual([100, 50])
+  })
+
+  it('slides out and leaves the overlay hidden where it rests', () => {
+    const overlay = createOverlay()
+    const { ticker } = animate(overlay, { type: 'slide', from: 'bottom', fade: true }, 'out')
+
+    ticker.tick(50)
+    expect(overlay.y).toBeCloseTo(50 + (1080 - 50) / 2)
+    expect(overlay.alpha).toBeCloseTo(0.5)
+    ticker.tick(50)
+
+    expect(overlay.visible).toBe(false)
+    expect([overlay.x, overlay.y, overlay.alpha]).toEqual([100, 50, 1])
+  })
+
+  it('scales around the center', () => {
+    const overlay = createOverlay()
+    const { ticker } = animate(overlay, { type: 'scale', scale: 0.5 }, 'in')
+
+    expect(overlay.scale.x).toBe(0.5)
+    expect([overlay.x, overlay.y]).toEqual([150, 75])
+    ticker.tick(100)
+    expect(overlay.scale.x).toBe(1)
+    expect([overlay.x, overlay.y]).toEqual([100, 50])
+  })
+
+  it('removes its wipe mask when done', () => {
+    const overlay = createOverlay()
+    const previousMask = overlay.mask
+    const { ticker } = animate(overlay, { type: 'wipe', from: 'right' }, 'in')
+
+    expect(overlay.mask).toBeInstanceOf(Graphics)
+    expect(overlay.children).toHaveLength(2)
+    ticker.tick(100)
+    expect(overlay.mask).toBe(previousMask)
+    expect(overlay.children).toHaveLength(1)
+  })
+
+  it('restores the resting state without completing when cancelled', async () => {
+    const overlay = createOverlay()
+    const onComplete = vi.fn()
+    const { ticker, running } = animate(overlay, { type: 'slide', fade: true }, 'out', onComplete)
+
+    ticker.tick(50)
+    running.cancel()
+
+    await running.promise
+    expect(onComplete).not.toHaveBeenCalled()
+    expect(overlay.visible).toBe(true)
+    expect([overlay.x, overlay.y, overlay.alpha]).toEqual([100, 50, 1])
+    expect(ticker.count).toBe(0)
+  })
+
+  it('stops when the overlay is destroyed mid-animation', async () => {
+    const overlay = createOverlay()
+    const onComplete = vi.fn()
+    const { ticker, running } = animate(overlay, { type: 'slide' }, 'in', onComplete)
+
+    ticker.tick(50)
+    overlay.destroy()
+    expect(() => ticker.tick(50)).not.toThrow()
+
+    await running.promise
+    expect(running.done).toBe(true)
+    expect(onComplete).not.toHaveBeenCalled()
+    expect(ticker.count).toBe(0)
+  })
+
+  it('jumps to the end without a ticker', () => {
+    const overlay = createOverlay()
+    const onComplete = vi.fn()
+    const running = animateOverlay(null, overlay, { type: 'fade' }, 'out', viewport, onComplete)
+
+    expect(running.done).toBe(true)
+    expect(overlay.visible).toBe(false)
+    expect(overlay.alpha).toBe(1)
+    expect(onComplete).toHaveBeenCalled()
+  })
+})
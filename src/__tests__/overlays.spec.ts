@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { Container, Text } from 'pixi.js'
+
+import { OverlayManager } from '../../packages/core/canvas/overlays'
+import { CanvasManager } from '../../packages/core/canvas/CanvasManager'
+import type { CountdownOverlayConfig } from '../../packages/core/canvas/timers'
+import { lerpRect } from '../../packages/core/canvas/transitions'
+import type { CanvasEvent } from '../../packages/core/canvas/types'
+import { stubCanvasContext } from './fakeCanvas'
+
+stubCanvasContext()
+
+let manager: OverlayManager
+
+beforeEach(() => {
+  manager = new OverlayManager(new Container())
+})
+
+/**
+ * Every piece of text an overlay shows, in drawing order
+ */
+function texts(overlay: Container | undefined): string[] {
+  const found: string[] = []
+  overlay?.children.forEach(child => {
+    if (child instanceof Text) {
+      found.push(child.text)
+    } else if (child instanceof Container) {
+      found.push(...texts(child))
+    }
+  })
+  return found
+}
+
+function countdown(overrides: Partial<CountdownOverlayConfig> = {}): CountdownOverlayConfig {
+  return { id: 'countdown', type: 'countdown', x: 0, y: 0, duration: 60_000, ...overrides }
+}
+
+describe('overlay actions', () => {
+  it('rejects a countdown that would switch to an unknown layout', () => {
+    expect(() => manager.createTimerOverlay(countdown({
+      onFinish: { type: 'apply-layout', layoutId: 'missing' }
+    }))).toThrow('Layout missing not found')
+    expect(manager.getOverlayConfig('countdown')).toBeUndefined()
+  })
+
+  it('accepts a countdown that switches to a registered layout', () => {
+    manager.createTimerOverlay(countdown({
+      onFinish: { type: 'apply-layout', layoutId: 'single-speaker' }
+    }))
+    expect(manager.getOverlayConfig('countdown')).toBeDefined()
+  })
+
+  it('rejects an update to an unknown layout and keeps the current action', async () => {
+    const onFinish = { type: 'apply-layout', layoutId: 'single-speaker' } as const
+    manager.createTimerOverlay(countdown({ onFinish }))
+
+    await expect(manager.updateOverlay('countdown', {
+      onFinish: { type: 'apply-layout', layoutId: 'missing' }
+    })).rejects.toThrow('Layout missing not found')
+    expect((manager.getOverlayConfig('countdown') as CountdownOverlayConfig).onFinish)
+      .toEqual(onFinish)
+  })
+
+  it('rejects a video that would switch to an unknown layout before loading it', async () => {
+    await expect(manager.createMediaOverlay({
+      id: 'intro',
+      type: 'video',
+      source: 'intro.mp4',
+      x: 0,
+      y: 0,
+      onEnd: { type: 'apply-layout', layoutId: 'missing' }
+    })).rejects.toThrow('Layout missing not found')
+  })
+
+  it('reports a failing action instead of throwing on the ticker', () => {
+    const canvas = new CanvasManager()
+    const errors: CanvasEvent[] = []
+    canvas.on('error', event => errors.push(event))
+
+    expect(() => canvas.runOverlayAction('countdown', {
+      type: 'apply-layout',
+      layoutId: 'missing'
+    })).not.toThrow()
+    expect(errors[0].data).toMatchObject({
+      code: 'OVERLAY_ACTION_FAILED',
+      message: 'Layout missing not found',
+      context: { overlayId: 'countdown' }
+    })
+  })
+})
+
+describe('invalid overlay updates', () => {
+  it('keeps a lower third as it was when the template is unknown', async () => {
+    manager.createLowerThird({ id: 'name', type: 'lower-third', x: 0, y: 0, title: 'Ada' })
+    const config = manager.getOverlayConfig('name')
+    const shown = texts(manager.getOverlay('name'))
+    expect(shown).toContain('Ada')
+
+    await expect(manager.updateOverlay('name', { title: 'Grace', template: 'missing' }))
+      .rejects.toThrow('Lower third template missing not found')
+    expect(manager.getOverlayConfig('name')).toEqual(config)
+    expect(texts(manager.getOverlay('name'))).toEqual(shown)
+  })
+
+  it('keeps a clock as it was when the timezone is unknown', async () => {
+    manager.createTimerOverlay({ id: 'clock', type: 'clock', x: 0, y: 0, timeZone: 'UTC' })
+    const config = manager.getOverlayConfig('clock')
+
+    await expect(manager.updateOverlay('clock', { timeZone: 'Nowhere/Missing' }))
+      .rejects.toThrow(RangeError)
+    expect(manager.getOverlayConfig('clock')).toEqual(config)
+  })
+
+  it('does not announce an update that failed', async () => {
+    const canvas = new CanvasManager()
+    Object.assign(canvas, { overlayManager: manager })
+    const updated: CanvasEvent[] = []
+    canvas.on('overlay-updated', event => updated.push(event))
+    manager.createTextOverlay({ id: 'title', type: 'text', x: 0, y: 0, content: 'Live' })
+
+    await expect(canvas.updateOverlay('missing', { x: 10 })).rejects.toThrow()
+    await expect(canvas.updateOverlay('title', { type: 'image' })).rejects.toThrow()
+    expect(updated).toEqual([])
+    expect(texts(manager.getOverlay('title'))).toEqual(['Live'])
+  })
+})
+
+describe('overlays attached to zones', () => {
+  const from = { x: 0, y: 0, width: 960, height: 540 }
+  const to = { x: 960, y: 540, width: 960, height: 540 }
+
+  function nameplate() {
+    manager.setZones([{ id: 'gallery-1', ...from }])
+    return manager.createTextOverlay({
+      id: 'nameplate',
+      type: 'text',
+      x: 10,
+      y: 20,
+      content: 'Ada',
+      zoneId: 'gallery-1'
+    })
+  }
+
+  it('follows its zone through every frame of a transition', () => {
+    const overlay = nameplate()
+    expect([overlay.x, overlay.y]).toEqual([10, 20])
+
+    // What CanvasManager does on each frame of a layout transition
+    const frames = [0.25, 0.5, 1]
+    frames.forEach(progress => {
+      const rect = lerpRect(from, to, progress)
+      manager.setZones([{ id: 'gallery-1', ...rect }])
+      expect([overlay.x, overlay.y]).toEqual([rect.x + 10, rect.y + 20])
+    })
+  })
+
+  it('stops rendering while its zone is gone and comes back with it', () => {
+    const overlay = nameplate()
+
+    manager.setZones([{ id: 'gallery-2', ...to }])
+    expect(overlay.renderable).toBe(false)
+    expect(overlay.visible).toBe(true)
+
+    manager.setZones([{ id: 'gallery-1', ...to }])
+    expect(overlay.renderable).toBe(true)
+    expect([overlay.x, overlay.y]).toEqual([970, 560])
+  })
+
+  it('leaves unattached overlays where they are', () => {
+    const overlay = manager.createTextOverlay({
+      id: 'title',
+      type: 'text',
+      x: 10,
+      y: 20,
+      content: 'Live'
+    })
+
+    manager.setZones([])
+    expect(overlay.renderable).toBe(true)
+    expect([overlay.x, overlay.y]).toEqual([10, 20])
+  })
+})
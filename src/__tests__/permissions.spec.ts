@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  DEFAULT_PERMISSIONS,
+  ParticipantRoster,
+  PermissionError,
+  createPermissionMatrix,
+  hasPermission,
+  type ParticipantRole,
+  type Permission
+} from '../../packages/store'
+
+const ALL_PERMISSIONS: Permission[] = [
+  'change-layout',
+  'manage-overlays',
+  'manage-stage',
+  'admit',
+  'mute-others',
+  'kick',
+  'assign-roles'
+]
+
+/**
+ * A roster acting as `role`, with a participant of every role on stage
+ * and a guest in the waiting room
+ */
+function rosterAs(role: ParticipantRole) {
+  const roster = new ParticipantRoster({ localParticipantId: 'me' })
+  roster.addParticipant({ id: 'me', displayName: 'Me', role, location: 'stage' })
+  roster.addParticipant({ id: 'host', displayName: 'Host', role: 'host', location: 'stage' })
+  roster.addParticipant({ id: 'cohost', displayName: 'Co', role: 'co-host', location: 'stage' })
+  roster.addParticipant({ id: 'guest', displayName: 'Guest', location: 'stage' })
+  roster.addParticipant({ id: 'waiting', displayName: 'Waiting' })
+  return roster
+}
+
+describe('permission matrix', () => {
+  it.each([
+    ['host', ALL_PERMISSIONS],
+    ['co-host', ALL_PERMISSIONS.filter(permission => permission !== 'assign-roles')],
+    ['guest', []]
+  ] as const)('allows a %s exactly its actions', (role, allowed) => {
+    ALL_PERMISSIONS.forEach(permission => {
+      expect(hasPermission(DEFAULT_PERMISSIONS, role, permission))
+        .toBe((allowed as readonly Permission[]).includes(permission))
+    })
+  })
+
+  it('applies overrides per role', () => {
+    const matrix = createPermissionMatrix({ guest: ['manage-overlays'] })
+
+    expect(hasPermission(matrix, 'guest', 'manage-overlays')).toBe(true)
+    expect(matrix.host).toEqual(DEFAULT_PERMISSIONS.host)
+    expect(matrix.host).not.toBe(DEFAULT_PERMISSIONS.host)
+  })
+})
+
+describe('ParticipantRoster guarded actions', () => {
+  it('lets hosts and co-hosts run the studio', () => {
+    (['host', 'co-host'] as const).forEach(role => {
+      const roster = rosterAs(role)
+
+      expect(roster.admit('waiting').location).toBe('backstage')
+      expect(roster.moveToStage('waiting').location).toBe('stage')
+      expect(roster.assignZone('waiting', 'main').zoneId).toBe('main')
+      expect(roster.setMuted('guest', 'audio', true).media.audioMuted).toBe(true)
+      roster.kick('guest')
+      expect(roster.get('guest')).toBeUndefined()
+    })
+  })
+
+  it('keeps guests to their own media', () => {
+    const roster = rosterAs('guest')
+
+    expect(() => roster.admit('waiting')).toThrow(PermissionError)
+    expect(() => roster.moveToStage('guest')).toThrow(PermissionError)
+    expect(() => roster.assignZone('guest', 'main')).toThrow(PermissionError)
+    expect(() => roster.setMuted('guest', 'audio', true)).toThrow(PermissionError)
+    expect(() => roster.kick('guest')).toThrow(PermissionError)
+    expect(() => roster.setRole('guest', 'guest')).toThrow(PermissionError)
+    expect(() => roster.authorize('manage-overlays'))
+      .toThrow('me is not allowed to manage-overlays')
+
+    expect(roster.setMuted('me', 'video', true).media.videoMuted).toBe(true)
+    expect(roster.setMuted('me', 'video', false).media.videoMuted).toBe(false)
+  })
+
+  it('stops co-hosts from acting on the host', () => {
+    const roster = rosterAs('co-host')
+
+    expect(() => roster.kick('host')).toThrow('A co-host cannot kick a host')
+    expect(() => roster.setMuted('host', 'audio', true))
+      .toThrow('A co-host cannot mute-others a host')
+    expect(() => roster.moveToBackstage('host')).toThrow('A co-host cannot manage-stage a host')
+  })
+
+  it('never unmutes someone else', () => {
+    const roster = rosterAs('host')
+    roster.setMuted('guest', 'audio', true)
+
+    expect(() => roster.setMuted('guest', 'audio', false))
+      .toThrow('Only participants can unmute themselves')
+  })
+
+  it('denies everything without a local participant', () => {
+    const roster = rosterAs('host')
+    roster.setLocalParticipant(null)
+
+    ALL_PERMISSIONS.forEach(permission => expect(roster.can(permission)).toBe(false))
+  })
+
+  it('follows permission changes', () => {
+    const roster = rosterAs('guest')
+    roster.setPermissions({ guest: ['change-layout'] })
+
+    expect(roster.assignZone('guest', 'main').zoneId).toBe('main')
+  })
+})
+
+describe('ParticipantRoster roles', () => {
+  it('lets the host promote and demote up to host', () => {
+    const roster = rosterAs('host')
+
+    expect(roster.setRole('guest', 'co-host').role).toBe('co-host')
+    expect(roster.setRole('cohost', 'guest').role).toBe('guest')
+    expect(roster.setRole('guest', 'host').role).toBe('host')
+    expect(roster.setRole('host', 'guest').role).toBe('guest')
+  })
+
+  it('does not let anyone change their own role', () => {
+    expect(() => rosterAs('host').setRole('me', 'guest'))
+      .toThrow('Participants cannot change their own role')
+  })
+
+  it('keeps co-hosts from assigning roles unless allowed, and then only up to their rank', () => {
+    const roster = rosterAs('co-host')
+    expect(() => roster.setRole('guest', 'co-host')).toThrow(PermissionError)
+
+    roster.setPermissions({ 'co-host': ['assign-roles'] })
+    expect(roster.setRole('guest', 'co-host').role).toBe('co-host')
+    expect(() => roster.setRole('cohost', 'host'))
+      .toThrow('A co-host cannot promote anyone to host')
+    expect(() => roster.setRole('host', 'guest')).toThrow('A co-host cannot assign-roles a host')
+  })
+})
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+
+import { resolveOverlayPosition } from '../../packages/core/canvas/placement'
+
+const viewport = { width: 1920, height: 1080 }
+const size = { width: 200, height: 100 }
+
+describe('resolveOverlayPosition', () => {
+  it('places from the top-left by default', () => {
+    expect(resolveOverlayPosition({ x: 50, y: 40 }, size, viewport)).toEqual({ x: 50, y: 40 })
+  })
+
+  it('measures negative offsets from the opposite edge', () => {
+    expect(resolveOverlayPosition({ x: -50, y: -150 }, size, viewport))
+      .toEqual({ x: 1670, y: 830 })
+  })
+
+  it('keeps the margin from anchored edges', () => {
+    expect(resolveOverlayPosition(
+      { x: 0, y: 0, anchor: 'bottom-right', margin: 20 },
+      size,
+      viewport
+    )).toEqual({ x: 1700, y: 960 })
+  })
+
+  it('moves centered overlays by their offset', () => {
+    expect(resolveOverlayPosition({ x: 10, y: -20, anchor: 'center' }, size, viewport))
+      .toEqual({ x: 870, y: 470 })
+  })
+
+  it('scales fractional offsets and margins to the canvas', () => {
+    expect(resolveOverlayPosition(
+      { x: 0, y: 0.1, anchor: 'top', units: 'fraction' },
+      size,
+      viewport
+    )).toEqual({ x: 860, y: 108 })
+    expect(resolveOverlayPosition(
+      { x: 0, y: 0, anchor: 'right', units: 'fraction', margin: 0.05 },
+      size,
+      viewport
+    )).toEqual({ x: 1624, y: 490 })
+  })
+})
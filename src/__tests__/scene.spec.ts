@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+
+import { SCENE_VERSION, migrateScene } from '../../packages/core/canvas/scene'
+
+const zone = { id: 'main', x: 0, y: 0, width: 0.5, height: 1, zIndex: 0, layer: 'video' }
+
+function scene(overrides: Record<string, unknown> = {}) {
+  return {
+    version: 1,
+    createdAt: 0,
+    canvas: { width: 1920, height: 1080, backgroundColor: 0 },
+    layout: null,
+    zones: [zone],
+    overlays: [{ id: 'logo', type: 'logo', source: 'logo.png' }],
+    ...overrides
+  }
+}
+
+describe('migrateScene', () => {
+  it('upgrades version 1 zones with default fit settings', () => {
+    const migrated = migrateScene(scene())
+
+    expect(migrated.version).toBe(SCENE_VERSION)
+    expect(migrated.zones[0]).toMatchObject({
+      fitMode: 'contain',
+      focalPoint: { x: 0.5, y: 0.5 },
+      cornerRadius: 0
+    })
+  })
+
+  it('keeps fit settings that are already there', () => {
+    const migrated = migrateScene(scene({ zones: [{ ...zone, fitMode: 'cover' }] }))
+    expect(migrated.zones[0].fitMode).toBe('cover')
+  })
+
+  it('does not change the input', () => {
+    const input = scene()
+    migrateScene(input)
+    expect(input.version).toBe(1)
+    expect(input.zones[0]).toBe(zone)
+  })
+
+  it('rejects missing and future versions', () => {
+    expect(() => migrateScene(null)).toThrow('Scene document must be an object')
+    expect(() => migrateScene(scene({ version: 0 }))).toThrow('no valid version')
+    expect(() => migrateScene(scene({ version: SCENE_VERSION + 1 })))
+      .toThrow(`newer than supported version ${SCENE_VERSION}`)
+  })
+})
+
+describe('assertSceneDocument', () => {
+  it('rejects a document without canvas settings', () => {
+    expect(() => migrateScene(scene({ canvas: undefined })))
+      .toThrow('Scene document is missing canvas settings')
+  })
+
+  it('rejects zones without an id or layer', () => {
+    expect(() => migrateScene(scene({ zones: [{ ...zone, id: 4 }] })))
+      .toThrow('Scene zone 0 has no valid id')
+    expect(() => migrateScene(scene({ zones: [{ ...zone, layer: undefined }] })))
+      .toThrow('Scene zone main has no valid layer')
+  })
+
+  it('rejects zones outside the canvas', () => {
+    expect(() => migrateScene(scene({ zones: [{ ...zone, width: 1920 }] })))
+      .toThrow('Scene zone main width must be a fraction between 0 and 1')
+    expect(() => migrateScene(scene({ zones: [{ ...zone, x: '0' }] })))
+      .toThrow('Scene zone main x must be a fraction between 0 and 1')
+    expect(() => migrateScene(scene({ zones: [{ ...zone, y: NaN }] })))
+      .toThrow('Scene zone main y must be a fraction between 0 and 1')
+  })
+
+  it('rejects overlays without an id or type', () => {
+    expect(() => migrateScene(scene({ overlays: [{ type: 'logo' }] })))
+      .toThrow('Scene overlay 0 has no valid id')
+    expect(() => migrateScene(scene({ overlays: [{ id: 'logo' }] })))
+      .toThrow('Scene overlay logo has no valid type')
+  })
+})
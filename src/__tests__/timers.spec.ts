@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+
+import { formatClock, formatDuration } from '../../packages/core/canvas/timers'
+
+describe('formatDuration', () => {
+  it('lets the largest unit absorb the rest', () => {
+    expect(formatDuration(90 * 60_000, 'mm:ss')).toBe('90:00')
+    expect(formatDuration(3_723_000, 'h:mm:ss')).toBe('1:02:03')
+  })
+
+  it('rounds down unless asked to round up', () => {
+    expect(formatDuration(1500, 'mm:ss')).toBe('00:01')
+    expect(formatDuration(1500, 'mm:ss', true)).toBe('00:02')
+  })
+
+  it('shows fractions of a second', () => {
+    expect(formatDuration(1234, 'ss.S')).toBe('01.2')
+    expect(formatDuration(1234, 'ss.SS')).toBe('01.23')
+    expect(formatDuration(1234, 'ss.SSS')).toBe('01.234')
+  })
+
+  it('keeps bracketed text and clamps negative durations', () => {
+    expect(formatDuration(65_000, 'm[m] s[s]')).toBe('1m 5s')
+    expect(formatDuration(-5000, 'mm:ss')).toBe('00:00')
+  })
+})
+
+describe('formatClock', () => {
+  const date = new Date('2024-03-05T14:07:09Z')
+
+  it('formats numeric tokens in a timezone', () => {
+    expect(formatClock(date, 'YYYY-MM-DD HH:mm:ss', { timeZone: 'UTC' }))
+      .toBe('2024-03-05 14:07:09')
+    expect(formatClock(date, 'HH:mm', { timeZone: 'Asia/Tokyo' })).toBe('23:07')
+    expect(formatClock(date, 'D/M H', { timeZone: 'UTC' })).toBe('5/3 14')
+  })
+
+  it('formats twelve-hour time and names', () => {
+    const options = { timeZone: 'UTC', locale: 'en-US' }
+    expect(formatClock(date, 'h:mm A', options)).toBe('2:07 PM')
+    expect(formatClock(date, 'hh:mm a', options)).toBe('02:07 pm')
+    expect(formatClock(date, 'ddd MMM D', options)).toBe('Tue Mar 5')
+    expect(formatClock(date, '[at] HH z', options)).toBe('at 14 UTC')
+  })
+
+  it('throws for unknown timezones', () => {
+    expect(() => formatClock(date, 'HH:mm', { timeZone: 'Mars/Olympus' })).toThrow(RangeError)
+  })
+})